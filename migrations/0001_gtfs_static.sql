@@ -0,0 +1,90 @@
+-- GTFS static feeds imported through POST /api/admin/gtfs/:feed.
+-- Every table is keyed by feed_id, the agency code the feed is served under.
+
+CREATE TABLE gtfs_feeds (
+	feed_id TEXT PRIMARY KEY,
+	name TEXT NOT NULL,
+	timezone TEXT NOT NULL,
+	url TEXT,
+	imported_at TEXT NOT NULL
+);
+
+CREATE TABLE gtfs_agencies (
+	feed_id TEXT NOT NULL,
+	agency_id TEXT NOT NULL,
+	name TEXT NOT NULL,
+	url TEXT,
+	timezone TEXT NOT NULL,
+	PRIMARY KEY (feed_id, agency_id)
+);
+
+CREATE TABLE gtfs_routes (
+	feed_id TEXT NOT NULL,
+	route_id TEXT NOT NULL,
+	agency_id TEXT,
+	short_name TEXT,
+	long_name TEXT,
+	route_type INTEGER,
+	PRIMARY KEY (feed_id, route_id)
+);
+
+CREATE TABLE gtfs_stops (
+	feed_id TEXT NOT NULL,
+	stop_id TEXT NOT NULL,
+	stop_code TEXT,
+	name TEXT NOT NULL,
+	lat REAL,
+	lon REAL,
+	parent_station TEXT,
+	PRIMARY KEY (feed_id, stop_id)
+);
+
+CREATE TABLE gtfs_trips (
+	feed_id TEXT NOT NULL,
+	trip_id TEXT NOT NULL,
+	route_id TEXT NOT NULL,
+	service_id TEXT NOT NULL,
+	direction_id INTEGER,
+	headsign TEXT,
+	PRIMARY KEY (feed_id, trip_id)
+);
+
+CREATE INDEX gtfs_trips_route ON gtfs_trips (feed_id, route_id);
+
+CREATE TABLE gtfs_stop_times (
+	feed_id TEXT NOT NULL,
+	trip_id TEXT NOT NULL,
+	stop_id TEXT NOT NULL,
+	stop_sequence INTEGER NOT NULL,
+	arrival_time TEXT,
+	departure_time TEXT,
+	PRIMARY KEY (feed_id, trip_id, stop_sequence)
+);
+
+CREATE INDEX gtfs_stop_times_stop ON gtfs_stop_times (feed_id, stop_id);
+
+CREATE TABLE gtfs_calendar (
+	feed_id TEXT NOT NULL,
+	service_id TEXT NOT NULL,
+	monday INTEGER NOT NULL,
+	tuesday INTEGER NOT NULL,
+	wednesday INTEGER NOT NULL,
+	thursday INTEGER NOT NULL,
+	friday INTEGER NOT NULL,
+	saturday INTEGER NOT NULL,
+	sunday INTEGER NOT NULL,
+	start_date TEXT NOT NULL,
+	end_date TEXT NOT NULL,
+	PRIMARY KEY (feed_id, service_id)
+);
+
+-- Which stops each route serves in each direction, derived from trips and
+-- stop_times at import time so route/stop lookups avoid scanning stop_times.
+CREATE TABLE gtfs_route_stops (
+	feed_id TEXT NOT NULL,
+	route_id TEXT NOT NULL,
+	direction_id INTEGER NOT NULL,
+	stop_id TEXT NOT NULL,
+	headsign TEXT,
+	PRIMARY KEY (feed_id, route_id, direction_id, stop_id)
+);
@@ -0,0 +1,2 @@
+-- GTFS-Realtime TripUpdates feed used for a GTFS agency's predictions.
+ALTER TABLE gtfs_feeds ADD COLUMN realtime_url TEXT;
@@ -0,0 +1,20 @@
+-- Favorites synced between the web client and the iOS app. owner is the
+-- SHA-256 hash of the anonymous device token, never the token itself.
+
+CREATE TABLE favorites (
+	id TEXT PRIMARY KEY,
+	owner TEXT NOT NULL,
+	agency TEXT NOT NULL,
+	agency_name TEXT,
+	stop TEXT NOT NULL,
+	stop_name TEXT,
+	route TEXT NOT NULL,
+	direction TEXT,
+	headsign TEXT,
+	name TEXT,
+	position INTEGER NOT NULL,
+	created_at TEXT NOT NULL,
+	updated_at TEXT NOT NULL
+);
+
+CREATE INDEX favorites_owner ON favorites (owner, position);
@@ -0,0 +1,23 @@
+-- Departure alerts registered by a device. Each active alert is watched by
+-- its own DepartureAlertWatcher Durable Object, which records the outcome
+-- here. owner is the SHA-256 hash of the device token.
+
+CREATE TABLE departure_alerts (
+	id TEXT PRIMARY KEY,
+	owner TEXT NOT NULL,
+	agency TEXT NOT NULL,
+	stop TEXT NOT NULL,
+	route TEXT NOT NULL,
+	direction TEXT,
+	headsign TEXT,
+	minutes_before INTEGER NOT NULL,
+	webhook_url TEXT,
+	email TEXT,
+	status TEXT NOT NULL DEFAULT 'active',
+	created_at TEXT NOT NULL,
+	expires_at TEXT NOT NULL,
+	finished_at TEXT
+);
+
+CREATE INDEX departure_alerts_owner ON departure_alerts (owner, created_at);
+CREATE INDEX departure_alerts_expires ON departure_alerts (expires_at);
@@ -0,0 +1,16 @@
+-- Stops from every agency with coordinates, bucketed into grid cells so
+-- nearby lookups read a handful of cells instead of every route. Rebuilt per
+-- agency by POST /api/admin/stop-index/:agency.
+
+CREATE TABLE stop_index (
+	agency TEXT NOT NULL,
+	stop_id TEXT NOT NULL,
+	stop_name TEXT NOT NULL,
+	lat REAL NOT NULL,
+	lon REAL NOT NULL,
+	cell TEXT NOT NULL,
+	routes TEXT NOT NULL,
+	PRIMARY KEY (agency, stop_id)
+);
+
+CREATE INDEX stop_index_cell ON stop_index (cell);
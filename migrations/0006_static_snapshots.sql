@@ -0,0 +1,27 @@
+-- Last synced copy of each agency's static data, written by the cron sync
+-- and POST /api/admin/sync. kind is routes, stops (scope is the route) or
+-- stations; data is the JSON array the matching endpoint returns.
+
+CREATE TABLE static_snapshots (
+	agency TEXT NOT NULL,
+	kind TEXT NOT NULL,
+	scope TEXT NOT NULL DEFAULT '',
+	data TEXT NOT NULL,
+	synced_at TEXT NOT NULL,
+	PRIMARY KEY (agency, kind, scope)
+);
+
+-- What each sync found different from the snapshot before it
+CREATE TABLE static_changes (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	agency TEXT NOT NULL,
+	kind TEXT NOT NULL,
+	route TEXT,
+	item_id TEXT NOT NULL,
+	change TEXT NOT NULL,
+	old_name TEXT,
+	new_name TEXT,
+	detected_at TEXT NOT NULL
+);
+
+CREATE INDEX static_changes_detected ON static_changes (detected_at);
@@ -0,0 +1,12 @@
+-- Service added (exception_type 1) or removed (2) on single dates, from a
+-- GTFS feed's calendar_dates.txt: holidays and other one-off changes.
+
+CREATE TABLE gtfs_calendar_dates (
+	feed_id TEXT NOT NULL,
+	service_id TEXT NOT NULL,
+	date TEXT NOT NULL,
+	exception_type INTEGER NOT NULL,
+	PRIMARY KEY (feed_id, service_id, date)
+);
+
+CREATE INDEX gtfs_calendar_dates_date ON gtfs_calendar_dates (feed_id, date);
@@ -0,0 +1,4 @@
+-- Why the last delivery attempt of an alert failed, so devices can tell a
+-- webhook that timed out from one that refused the notification
+
+ALTER TABLE departure_alerts ADD COLUMN last_error TEXT;
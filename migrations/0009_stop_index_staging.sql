@@ -0,0 +1,13 @@
+-- A rebuild loads an agency's stops here first and then moves them into
+-- stop_index in one batch, so nearby searches never see a partial index.
+
+CREATE TABLE stop_index_staging (
+	agency TEXT NOT NULL,
+	stop_id TEXT NOT NULL,
+	stop_name TEXT NOT NULL,
+	lat REAL NOT NULL,
+	lon REAL NOT NULL,
+	cell TEXT NOT NULL,
+	routes TEXT NOT NULL,
+	PRIMARY KEY (agency, stop_id)
+);
@@ -0,0 +1,93 @@
+#!/usr/bin/env node
+
+// Adds the responses captured by `npm run dev:record` to fixtures/upstream
+// Usage: node scripts/fixtures.js [--clear]
+//
+// Recordings live in the local TRANSIT_CACHE namespace under "fixture:".
+// Each is merged into its agency's file by URL, replacing any older
+// recording of the same request. --clear deletes the recordings afterwards.
+// Imported GTFS feeds all go in gtfs.json, since their codes vary.
+
+const { execFileSync } = require('child_process');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const PREFIX = 'fixture:';
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'upstream');
+const LOADER = path.join(__dirname, '..', 'src', 'clients', 'upstreamFixtures.ts');
+const BUILT_IN = ['actransit', 'bart'];
+
+const clear = process.argv.includes('--clear');
+
+function wrangler(args) {
+  return execFileSync('npx', ['wrangler', ...args, '--binding', 'TRANSIT_CACHE', '--local'], {
+    encoding: 'utf8',
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+}
+
+// The bulk commands read their keys from a file
+function withKeysFile(keys, run) {
+  const file = path.join(os.tmpdir(), `fixture-keys-${process.pid}.json`);
+  fs.writeFileSync(file, JSON.stringify(keys));
+  try {
+    return run(file);
+  } finally {
+    fs.unlinkSync(file);
+  }
+}
+
+// Wrangler may print a banner before the JSON and a status line after it
+function parseJson(output) {
+  const end = Math.max(output.lastIndexOf(']'), output.lastIndexOf('}'));
+  return JSON.parse(output.slice(output.search(/[[{]/), end + 1));
+}
+
+const keys = parseJson(wrangler(['kv', 'key', 'list', '--prefix', PREFIX])).map(key => key.name);
+if (keys.length === 0) {
+  console.log('No recordings found. Run `npm run dev:record` and make some requests first.');
+  process.exit(0);
+}
+
+const recordings = Object.values(withKeysFile(keys, file => parseJson(wrangler(['kv', 'bulk', 'get', file]))))
+  .filter(entry => entry && entry.value)
+  .map(entry => JSON.parse(entry.value));
+
+const byAgency = new Map();
+for (const recording of recordings) {
+  const group = BUILT_IN.includes(recording.agency) ? recording.agency : 'gtfs';
+  if (!byAgency.has(group)) {
+    byAgency.set(group, []);
+  }
+  byAgency.get(group).push(recording);
+}
+
+const loader = fs.readFileSync(LOADER, 'utf8');
+fs.mkdirSync(FIXTURES_DIR, { recursive: true });
+
+for (const [agency, added] of byAgency) {
+  const file = path.join(FIXTURES_DIR, `${agency}.json`);
+  const fixtures = new Map();
+  if (fs.existsSync(file)) {
+    for (const fixture of JSON.parse(fs.readFileSync(file, 'utf8'))) {
+      fixtures.set(fixture.url, fixture);
+    }
+  }
+  for (const fixture of added) {
+    fixtures.set(fixture.url, fixture);
+  }
+
+  const sorted = Array.from(fixtures.values()).sort((a, b) => a.url.localeCompare(b.url));
+  fs.writeFileSync(file, JSON.stringify(sorted, null, 2) + '\n');
+  console.log(`${agency}: ${added.length} recorded, ${sorted.length} total in ${path.relative(process.cwd(), file)}`);
+
+  if (!loader.includes(`fixtures/upstream/${agency}.json`)) {
+    console.warn(`Warning: ${agency}.json isn't imported in src/clients/upstreamFixtures.ts, so mock mode won't serve it`);
+  }
+}
+
+if (clear) {
+  withKeysFile(keys, file => wrangler(['kv', 'bulk', 'delete', file, '--force']));
+  console.log(`Cleared ${keys.length} recordings`);
+}
@@ -0,0 +1,175 @@
+import { deviceOwner } from "../auth";
+
+export type AlertStatus = "active" | "triggered" | "expired" | "failed" | "cancelled";
+
+export interface AlertFields {
+	agency: string;
+	stop: string;
+	route: string;
+	direction?: string | null;
+	headsign?: string | null;
+	minutesBefore: number;
+	webhookUrl?: string | null;
+	email?: string | null;
+}
+
+export interface StoredAlert extends AlertFields {
+	id: string;
+	status: AlertStatus;
+	createdAt: string;
+	expiresAt: string;
+	finishedAt: string | null;
+	// Why the last delivery attempt failed, if one did
+	lastError: string | null;
+}
+
+interface AlertRow {
+	id: string;
+	agency: string;
+	stop: string;
+	route: string;
+	direction: string | null;
+	headsign: string | null;
+	minutes_before: number;
+	webhook_url: string | null;
+	email: string | null;
+	status: AlertStatus;
+	created_at: string;
+	expires_at: string;
+	finished_at: string | null;
+	last_error: string | null;
+}
+
+// Each active alert keeps a Durable Object polling, so cap them per device
+export const MAX_ACTIVE_ALERTS = 10;
+
+// Finished alerts stay listed this long after they expire
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Thrown when an alert can't be created or found.
+ */
+export class AlertsError extends Error {
+	readonly status: 400 | 404;
+
+	constructor(message: string, status: 400 | 404 = 400) {
+		super(message);
+		this.name = "AlertsError";
+		this.status = status;
+	}
+}
+
+/**
+ * Departure alerts for one anonymous device token. The watcher Durable
+ * Objects do the polling; this is the record the list endpoint reads.
+ */
+export class AlertsStore {
+	private readonly db: D1Database;
+	private readonly owner: string;
+
+	private constructor(db: D1Database, owner: string) {
+		this.db = db;
+		this.owner = owner;
+	}
+
+	static async forToken(db: D1Database, token: string): Promise<AlertsStore> {
+		return new AlertsStore(db, await deviceOwner(token));
+	}
+
+	async list(): Promise<StoredAlert[]> {
+		const { results } = await this.db.prepare(
+			"SELECT * FROM departure_alerts WHERE owner = ? AND expires_at > ? ORDER BY created_at DESC"
+		).bind(this.owner, new Date(Date.now() - RETENTION_MS).toISOString()).all<AlertRow>();
+		return results.map(toAlert);
+	}
+
+	async create(fields: AlertFields, expiresInMinutes: number): Promise<StoredAlert> {
+		const now = new Date();
+		const active = await this.db.prepare(
+			"SELECT COUNT(*) AS count FROM departure_alerts WHERE owner = ? AND status = 'active' AND expires_at > ?"
+		).bind(this.owner, now.toISOString()).first<number>("count");
+		if (active >= MAX_ACTIVE_ALERTS) {
+			throw new AlertsError(`A device can have at most ${MAX_ACTIVE_ALERTS} active alerts`);
+		}
+
+		const id = crypto.randomUUID();
+		const expiresAt = new Date(now.getTime() + expiresInMinutes * 60 * 1000);
+
+		await this.db.batch([
+			// Clear out alerts that have aged past the listing window
+			this.db.prepare("DELETE FROM departure_alerts WHERE expires_at < ?")
+				.bind(new Date(now.getTime() - RETENTION_MS).toISOString()),
+			this.db.prepare(
+				`INSERT INTO departure_alerts (id, owner, agency, stop, route, direction, headsign, minutes_before, webhook_url, email, created_at, expires_at)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+			).bind(
+				id,
+				this.owner,
+				fields.agency,
+				fields.stop,
+				fields.route,
+				fields.direction ?? null,
+				fields.headsign ?? null,
+				fields.minutesBefore,
+				fields.webhookUrl ?? null,
+				fields.email ?? null,
+				now.toISOString(),
+				expiresAt.toISOString()
+			),
+		]);
+
+		return this.get(id);
+	}
+
+	async get(id: string): Promise<StoredAlert> {
+		const row = await this.db.prepare("SELECT * FROM departure_alerts WHERE owner = ? AND id = ?")
+			.bind(this.owner, id)
+			.first<AlertRow>();
+		if (!row) {
+			throw new AlertsError(`Alert ${id} not found`, 404);
+		}
+		return toAlert(row);
+	}
+
+	async cancel(id: string): Promise<StoredAlert> {
+		await this.get(id);
+		await finishAlert(this.db, id, "cancelled");
+		return this.get(id);
+	}
+}
+
+/**
+ * Records how an active alert ended. Alerts that already finished keep
+ * their first outcome.
+ */
+export async function finishAlert(db: D1Database, id: string, status: Exclude<AlertStatus, "active">): Promise<void> {
+	await db.prepare(
+		"UPDATE departure_alerts SET status = ?, finished_at = ? WHERE id = ? AND status = 'active'"
+	).bind(status, new Date().toISOString(), id).run();
+}
+
+/**
+ * Records why a delivery attempt failed, for the alert's owner to see.
+ */
+export async function recordDeliveryError(db: D1Database, id: string, message: string): Promise<void> {
+	await db.prepare("UPDATE departure_alerts SET last_error = ? WHERE id = ?").bind(message, id).run();
+}
+
+function toAlert(row: AlertRow): StoredAlert {
+	return {
+		id: row.id,
+		agency: row.agency,
+		stop: row.stop,
+		route: row.route,
+		direction: row.direction,
+		headsign: row.headsign,
+		minutesBefore: row.minutes_before,
+		webhookUrl: row.webhook_url,
+		email: row.email,
+		status: row.status,
+		createdAt: row.created_at,
+		expiresAt: row.expires_at,
+		finishedAt: row.finished_at,
+		lastError: row.last_error,
+	};
+}
@@ -0,0 +1,105 @@
+import { DurableObject } from "cloudflare:workers";
+import type { TransitPrediction } from "../clients/AgencyAdapter";
+import { getAgencyAdapter } from "../clients/registry";
+import { finishAlert, recordDeliveryError, type StoredAlert } from "./AlertsStore";
+import { deliverAlert } from "./deliverAlert";
+
+const MIN_POLL_MS = 30 * 1000;
+const MAX_POLL_MS = 5 * 60 * 1000;
+const MAX_DELIVERY_ATTEMPTS = 3;
+
+interface WatcherState {
+	alert: StoredAlert;
+	deliveryAttempts: number;
+}
+
+/**
+ * Watches one departure alert. Each alarm polls predictions through the
+ * agency adapter and either notifies the device or schedules the next
+ * poll, closer together as the departure nears. The alarm never runs past
+ * the alert's expiry, so an alert that never fires cleans itself up.
+ */
+export class DepartureAlertWatcher extends DurableObject<Env> {
+	async start(alert: StoredAlert): Promise<void> {
+		await this.ctx.storage.put<WatcherState>("state", { alert, deliveryAttempts: 0 });
+		await this.ctx.storage.setAlarm(Date.now());
+	}
+
+	async cancel(): Promise<void> {
+		await this.ctx.storage.deleteAlarm();
+		await this.ctx.storage.deleteAll();
+	}
+
+	async alarm(): Promise<void> {
+		const state = await this.ctx.storage.get<WatcherState>("state");
+		if (!state) {
+			return;
+		}
+
+		const { alert } = state;
+		if (Date.now() >= Date.parse(alert.expiresAt)) {
+			await this.finish(alert, "expired");
+			return;
+		}
+
+		const adapter = await getAgencyAdapter(this.env, alert.agency);
+		if (!adapter) {
+			await this.finish(alert, "failed");
+			return;
+		}
+
+		let predictions: TransitPrediction[];
+		try {
+			predictions = await adapter.getPredictions({
+				stop: alert.stop,
+				route: alert.route,
+				direction: alert.direction ?? undefined,
+				headsign: alert.headsign ?? undefined,
+			});
+		} catch (error) {
+			console.error("Departure alert poll error:", error);
+			await this.schedule(alert, MIN_POLL_MS);
+			return;
+		}
+
+		const next = predictions.reduce<TransitPrediction | undefined>(
+			(soonest, prediction) => !soonest || prediction.minutesUntilArrival < soonest.minutesUntilArrival ? prediction : soonest,
+			undefined
+		);
+		if (!next) {
+			await this.schedule(alert, MAX_POLL_MS);
+			return;
+		}
+
+		if (next.minutesUntilArrival > alert.minutesBefore) {
+			// Check again a minute before the departure reaches the threshold
+			const wait = (next.minutesUntilArrival - alert.minutesBefore - 1) * 60 * 1000;
+			await this.schedule(alert, Math.min(Math.max(wait, MIN_POLL_MS), MAX_POLL_MS));
+			return;
+		}
+
+		try {
+			await deliverAlert(this.env, alert, next, adapter.info.timezone);
+			await this.finish(alert, "triggered");
+		} catch (error) {
+			console.error("Departure alert delivery error:", error);
+			await recordDeliveryError(this.env.DB, alert.id, error instanceof Error ? error.message : "Delivery failed");
+			const deliveryAttempts = state.deliveryAttempts + 1;
+			if (deliveryAttempts >= MAX_DELIVERY_ATTEMPTS) {
+				await this.finish(alert, "failed");
+				return;
+			}
+			await this.ctx.storage.put<WatcherState>("state", { alert, deliveryAttempts });
+			await this.schedule(alert, MIN_POLL_MS);
+		}
+	}
+
+	private async schedule(alert: StoredAlert, delay: number): Promise<void> {
+		await this.ctx.storage.setAlarm(Math.min(Date.now() + delay, Date.parse(alert.expiresAt)));
+	}
+
+	private async finish(alert: StoredAlert, status: "triggered" | "expired" | "failed"): Promise<void> {
+		await finishAlert(this.env.DB, alert.id, status);
+		await this.cancel();
+	}
+}
@@ -0,0 +1,58 @@
+import { EmailMessage } from "cloudflare:email";
+import { createMimeMessage } from "mimetext/browser";
+import type { TransitPrediction } from "../clients/AgencyAdapter";
+import type { StoredAlert } from "./AlertsStore";
+
+const SENDER = "next-train-alerts@elliotplant.com";
+
+// A webhook that takes longer holds up the watcher's alarm, so it counts
+// as a failed attempt
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Sends a triggered alert to its webhook URL or email address. Throws if
+ * the delivery fails so the watcher can retry.
+ */
+export async function deliverAlert(env: Env, alert: StoredAlert, prediction: TransitPrediction, timezone: string): Promise<void> {
+	const minutes = prediction.minutesUntilArrival;
+	const message = `${prediction.route} to ${prediction.direction} arrives at ${prediction.stopName} in ${minutes} ${minutes === 1 ? "minute" : "minutes"}`;
+
+	if (alert.webhookUrl) {
+		let response: Response;
+		try {
+			response = await fetch(alert.webhookUrl, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					alert,
+					prediction,
+					message,
+				}),
+				signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+			});
+		} catch (error) {
+			if (error instanceof Error && error.name === "TimeoutError") {
+				throw new Error(`Webhook didn't respond within ${WEBHOOK_TIMEOUT_MS / 1000} seconds`);
+			}
+			throw error;
+		}
+
+		if (!response.ok) {
+			throw new Error(`Webhook responded with ${response.status}`);
+		}
+		return;
+	}
+
+	if (alert.email) {
+		const msg = createMimeMessage();
+		msg.setSender({ name: "NextTrain Alerts", addr: SENDER });
+		msg.setRecipient(alert.email);
+		msg.setSubject(message);
+		msg.addMessage({
+			contentType: "text/plain",
+			data: `${message} (${new Date(prediction.arrivalTime).toLocaleTimeString("en-US", { timeZone: timezone })}).`,
+		});
+
+		await env.ALERT_EMAIL.send(new EmailMessage(SENDER, alert.email, msg.asRaw()));
+	}
+}
@@ -0,0 +1,45 @@
+import { apiError, errorResponse } from "./errors";
+import { type AppContext } from "./types";
+
+/**
+ * Admin endpoints require `Authorization: Bearer <ADMIN_SYNC_TOKEN>`. The
+ * header is checked in constant time, comparing SHA-256 digests since
+ * timingSafeEqual needs inputs of the same length.
+ */
+export async function isAdminRequest(c: AppContext): Promise<boolean> {
+	const token = c.env.ADMIN_SYNC_TOKEN;
+	if (!token) {
+		return false;
+	}
+	const encoder = new TextEncoder();
+	const [expected, actual] = await Promise.all([
+		crypto.subtle.digest("SHA-256", encoder.encode(`Bearer ${token}`)),
+		crypto.subtle.digest("SHA-256", encoder.encode(c.req.header("authorization") || "")),
+	]);
+	return crypto.subtle.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Favorites are keyed by an anonymous device token the client generates and
+ * sends as `Authorization: Bearer <token>`. Sharing the token between the web
+ * client and the iOS app syncs their favorites.
+ */
+export function deviceToken(c: AppContext): string | null {
+	const match = /^Bearer ([A-Za-z0-9_-]{32,128})$/.exec(c.req.header("authorization") || "");
+	return match ? match[1] : null;
+}
+
+/**
+ * Hex SHA-256 of a device token. Rows are stored under this hash so the
+ * database never holds usable tokens.
+ */
+export async function deviceOwner(token: string): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+	return Array.from(new Uint8Array(digest))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+export function unauthorizedResponse(message = "Unauthorized"): Response {
+	return errorResponse(401, apiError("unauthorized", message));
+}
@@ -0,0 +1,105 @@
+import type {
+	AgencyAdapter,
+	AgencyInfo,
+	AlertQuery,
+	PredictionQuery,
+	RouteShape,
+	ScheduleQuery,
+	ScheduledDeparture,
+	ServiceDay,
+	ServiceAlert,
+	StopGroup,
+	TransitPrediction,
+	TransitRoute,
+	TransitStop,
+	TransitStopDirection,
+	TransitVehicle,
+} from "../clients/AgencyAdapter";
+import type { TransitCache } from "./TransitCache";
+
+/**
+ * Serves an adapter's static data (routes, stops, stop groups, directions,
+ * shapes, schedules) from the cache, along with briefly cached service alerts.
+ * Predictions and vehicle positions always go straight to the agency.
+ */
+export class CachedAgencyAdapter implements AgencyAdapter {
+	private readonly adapter: AgencyAdapter;
+	private readonly cache: TransitCache;
+
+	constructor(adapter: AgencyAdapter, cache: TransitCache) {
+		this.adapter = adapter;
+		this.cache = cache;
+	}
+
+	get info(): AgencyInfo {
+		return this.adapter.info;
+	}
+
+	getPredictions(query: PredictionQuery): Promise<TransitPrediction[]> {
+		return this.adapter.getPredictions(query);
+	}
+
+	getRoutes(): Promise<TransitRoute[]> {
+		return this.cache.get("routes", this.info.code, () => this.adapter.getRoutes());
+	}
+
+	getStops(route: string): Promise<TransitStop[]> {
+		return this.cache.get(
+			"stops",
+			`${this.info.code}:${route.toLowerCase()}`,
+			() => this.adapter.getStops(route)
+		);
+	}
+
+	getStopGroups(route: string): Promise<StopGroup[]> {
+		return this.cache.get(
+			"stops",
+			`${this.info.code}:groups:${route.toLowerCase()}`,
+			() => this.adapter.getStopGroups(route)
+		);
+	}
+
+	getStopDirections(route: string, stop: string): Promise<TransitStopDirection[]> {
+		return this.cache.get(
+			"directions",
+			`${this.info.code}:${route.toLowerCase()}:${stop.toLowerCase()}`,
+			() => this.adapter.getStopDirections(route, stop)
+		);
+	}
+
+	getRouteShapes(route: string): Promise<RouteShape[]> {
+		return this.cache.get(
+			"shapes",
+			`${this.info.code}:${route.toLowerCase()}`,
+			() => this.adapter.getRouteShapes(route)
+		);
+	}
+
+	getAlerts(query: AlertQuery): Promise<ServiceAlert[]> {
+		return this.cache.get(
+			"alerts",
+			`${this.info.code}:${(query.route || "").toLowerCase()}:${(query.stop || "").toLowerCase()}`,
+			() => this.adapter.getAlerts(query)
+		);
+	}
+
+	getSchedule(query: ScheduleQuery): Promise<ScheduledDeparture[]> {
+		return this.cache.get(
+			"schedules",
+			`${this.info.code}:${query.route.toLowerCase()}:${query.stop.toLowerCase()}:${query.date}`,
+			() => this.adapter.getSchedule(query)
+		);
+	}
+
+	getServiceDay(date: string): Promise<ServiceDay> {
+		return this.cache.get(
+			"schedules",
+			`${this.info.code}:service-day:${date}`,
+			() => this.adapter.getServiceDay(date)
+		);
+	}
+
+	getVehicles(route: string): Promise<TransitVehicle[]> {
+		return this.adapter.getVehicles(route);
+	}
+}
@@ -0,0 +1,119 @@
+export type CachedDataType = "routes" | "stops" | "directions" | "shapes" | "stations" | "lines" | "schedules" | "alerts";
+
+interface CachePolicy {
+	// Seconds an entry is served as fresh
+	ttl: number;
+	// Seconds past the TTL an entry may still be served while it is refreshed
+	staleWhileRevalidate: number;
+}
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+export const CACHE_POLICIES: Record<CachedDataType, CachePolicy> = {
+	routes: { ttl: DAY, staleWhileRevalidate: 7 * DAY },
+	stops: { ttl: DAY, staleWhileRevalidate: 7 * DAY },
+	directions: { ttl: DAY, staleWhileRevalidate: 7 * DAY },
+	shapes: { ttl: DAY, staleWhileRevalidate: 7 * DAY },
+	stations: { ttl: 7 * DAY, staleWhileRevalidate: 30 * DAY },
+	// BART lines with their routes and station order
+	lines: { ttl: DAY, staleWhileRevalidate: 7 * DAY },
+	// Keyed by service day, so they only need to last through it
+	schedules: { ttl: 12 * HOUR, staleWhileRevalidate: DAY },
+	// Alerts change during disruptions, so only smooth out bursts of requests
+	alerts: { ttl: 2 * 60, staleWhileRevalidate: 60 },
+};
+
+export const CACHED_DATA_TYPES = Object.keys(CACHE_POLICIES) as CachedDataType[];
+
+interface CacheEntry<T> {
+	storedAt: number;
+	value: T;
+}
+
+/**
+ * KV-backed cache for static transit data. Entries older than their TTL are
+ * still returned while a fresh copy is loaded in the background.
+ */
+export class TransitCache {
+	private readonly kv: KVNamespace;
+	private readonly ctx?: ExecutionContext;
+
+	constructor(kv: KVNamespace, ctx?: ExecutionContext) {
+		this.kv = kv;
+		this.ctx = ctx;
+	}
+
+	async get<T>(type: CachedDataType, key: string, load: () => Promise<T>): Promise<T> {
+		const cacheKey = `${type}:${key}`;
+		const policy = CACHE_POLICIES[type];
+
+		let entry: CacheEntry<T> | null = null;
+		try {
+			entry = await this.kv.get<CacheEntry<T>>(cacheKey, "json");
+		} catch (error) {
+			// A broken cache should never take the endpoint down with it
+			console.error("Cache read error:", error);
+		}
+
+		if (!entry) {
+			return this.refresh(cacheKey, policy, load);
+		}
+
+		const age = (Date.now() - entry.storedAt) / 1000;
+		if (age > policy.ttl) {
+			const refresh = this.refresh(cacheKey, policy, load).catch((error) => {
+				console.error("Cache revalidation error:", error);
+			});
+			if (this.ctx) {
+				this.ctx.waitUntil(refresh);
+			} else {
+				await refresh;
+			}
+		}
+
+		return entry.value;
+	}
+
+	/**
+	 * Deletes the entries of the given types, or only one agency's of them,
+	 * and returns how many were removed. Keys are "<type>:<agency>" or
+	 * "<type>:<agency>:<more>", so other keys in the namespace, such as
+	 * recorded fixtures, are left alone, as are agencies whose codes merely
+	 * start with the one given.
+	 */
+	async purge(types: CachedDataType[] = CACHED_DATA_TYPES, agency?: string): Promise<number> {
+		let deleted = 0;
+
+		for (const type of types) {
+			const prefix = agency ? `${type}:${agency.toLowerCase()}` : `${type}:`;
+			let cursor: string | undefined;
+			do {
+				const result = await this.kv.list({ prefix, cursor });
+				const keys = result.keys
+					.map((key) => key.name)
+					.filter((name) => !agency || name === prefix || name.startsWith(`${prefix}:`));
+				await Promise.all(keys.map((name) => this.kv.delete(name)));
+				deleted += keys.length;
+				cursor = "cursor" in result ? result.cursor : undefined;
+			} while (cursor);
+		}
+
+		return deleted;
+	}
+
+	private async refresh<T>(cacheKey: string, policy: CachePolicy, load: () => Promise<T>): Promise<T> {
+		const value = await load();
+		const entry: CacheEntry<T> = { storedAt: Date.now(), value };
+
+		try {
+			await this.kv.put(cacheKey, JSON.stringify(entry), {
+				expirationTtl: policy.ttl + policy.staleWhileRevalidate,
+			});
+		} catch (error) {
+			console.error("Cache write error:", error);
+		}
+
+		return value;
+	}
+}
@@ -0,0 +1,116 @@
+import type { MiddlewareHandler } from "hono";
+
+/**
+ * How long clients and shared caches may reuse an endpoint's successful
+ * responses. Endpoints declare one next to their schema; without one,
+ * responses are `no-store`.
+ */
+export interface ResponseCachePolicy {
+	// Seconds a response is fresh
+	maxAge: number;
+	// Seconds past that it may still be used while it is revalidated
+	staleWhileRevalidate?: number;
+}
+
+export const MINUTE = 60;
+export const HOUR = 60 * MINUTE;
+export const DAY = 24 * HOUR;
+
+export function cacheControl(policy: ResponseCachePolicy | null): string {
+	if (!policy) {
+		return "no-store";
+	}
+	const directives = ["public", `max-age=${policy.maxAge}`];
+	if (policy.staleWhileRevalidate) {
+		directives.push(`stale-while-revalidate=${policy.staleWhileRevalidate}`);
+	}
+	return directives.join(", ");
+}
+
+interface SeenBody {
+	etag: string;
+	// Whole seconds, as HTTP dates have them
+	since: number;
+}
+
+const SEEN_MAX_ENTRIES = 500;
+
+// Headers a 304 must repeat from the response it stands in for (RFC 9110
+// 15.4.5), besides the ETag and Last-Modified set here
+const NOT_MODIFIED_HEADERS = ["Cache-Control", "Content-Location", "Date", "Expires", "Vary"];
+
+// The current body of each URL and when this isolate first served it. Like
+// the circuits in UpstreamHttp it lives for the isolate, so another isolate
+// may date the same body later, which only costs a full response.
+const seen = new Map<string, SeenBody>();
+
+/**
+ * Adds an ETag and Last-Modified to cacheable GET responses, and answers
+ * with a 304 when the client's copy is still current. The ETag hashes the
+ * body. Last-Modified is when the body first came out that way here, since
+ * the data carries no dates of its own.
+ */
+export const conditionalRequests: MiddlewareHandler = async (c, next) => {
+	await next();
+
+	const policy = c.res.headers.get("cache-control");
+	if ((c.req.method !== "GET" && c.req.method !== "HEAD") || c.res.status !== 200 || !policy || policy.includes("no-store")) {
+		return;
+	}
+
+	const etag = await etagFor(await c.res.clone().arrayBuffer());
+	const since = firstServed(c.req.url, etag);
+	const lastModified = new Date(since * 1000).toUTCString();
+
+	if (isNotModified(c.req.raw.headers, etag, since)) {
+		const headers = new Headers();
+		for (const name of NOT_MODIFIED_HEADERS) {
+			const value = c.res.headers.get(name);
+			if (value !== null) {
+				headers.set(name, value);
+			}
+		}
+		c.res = new Response(null, { status: 304, headers });
+	} else {
+		c.res = new Response(c.res.body, c.res);
+	}
+	c.res.headers.set("ETag", etag);
+	c.res.headers.set("Last-Modified", lastModified);
+};
+
+// Weak, since Cloudflare may compress the body on the way out
+async function etagFor(body: ArrayBuffer): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-1", body);
+	const hex = Array.from(new Uint8Array(digest))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+	return `W/"${hex}"`;
+}
+
+function firstServed(url: string, etag: string): number {
+	const entry = seen.get(url);
+	const since = entry?.etag === etag ? entry.since : Math.floor(Date.now() / 1000);
+
+	// Re-inserting keeps the map in least recently served order
+	seen.delete(url);
+	seen.set(url, { etag, since });
+	if (seen.size > SEEN_MAX_ENTRIES) {
+		seen.delete(seen.keys().next().value);
+	}
+	return since;
+}
+
+/**
+ * Whether a request's validators match the current body, so a 304 will do.
+ * If-None-Match wins when both are sent.
+ */
+export function isNotModified(headers: Headers, etag: string, since: number): boolean {
+	const ifNoneMatch = headers.get("if-none-match");
+	if (ifNoneMatch) {
+		const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+		return ifNoneMatch.trim() === "*" || ifNoneMatch.split(",").some((tag) => opaque(tag) === opaque(etag));
+	}
+
+	const ifModifiedSince = Date.parse(headers.get("if-modified-since") ?? "");
+	return !isNaN(ifModifiedSince) && since * 1000 <= ifModifiedSince;
+}
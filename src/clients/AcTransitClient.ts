@@ -1,4 +1,33 @@
 import { z } from "zod";
+import {
+	AgencyRequestError,
+	alertApplies,
+	predictionFreshness,
+	UnknownRouteError,
+	UnknownStopError,
+	weekdaySchedule,
+	type AgencyAdapter,
+	type AgencyInfo,
+	type AlertQuery,
+	type PredictionQuery,
+	type RouteShape,
+	type ScheduleQuery,
+	type ScheduledDeparture,
+	type ServiceDay,
+	type ServiceAlert,
+	type ServiceAlertSeverity,
+	type StopGroup,
+	type TransitPrediction,
+	type TransitRoute,
+	type TransitStop,
+	type TransitStopDirection,
+	type TransitVehicle,
+} from "./AgencyAdapter";
+import { GtfsClient } from "./GtfsClient";
+import { InflightRequests } from "./InflightRequests";
+import { LIVE_UPSTREAM, UpstreamError, UpstreamHttp, type UpstreamConfig } from "./UpstreamHttp";
+import { zonedTimeToUtc } from "./time";
+import { buildStopGroups } from "../stops/stopGroups";
 
 // AC Transit API response schemas
 const AcTransitPrediction = z.object({
@@ -33,61 +62,160 @@ const AcTransitAPIResponse = z.object({
 	"bustime-response": AcTransitPredictionResponse,
 });
 
-export interface TransitPrediction {
-	arrivalTime: string;
-	departureTime: string;
-	stopName: string;
-	stopId: string;
+const AcTransitServiceBulletin = z.object({
+	nm: z.string(),
+	sbj: z.string().optional(),
+	dtl: z.string().optional(),
+	brf: z.string().optional(),
+	prty: z.string().optional(),
+	url: z.string().optional(),
+	srvc: z.array(z.object({
+		rt: z.string().optional(),
+		rtdir: z.string().optional(),
+		stpid: z.string().optional(),
+		stpnm: z.string().optional(),
+	})).optional(),
+});
+
+const AcTransitServiceBulletinResponse = z.object({
+	"bustime-response": z.object({
+		sb: z.array(AcTransitServiceBulletin).optional(),
+		error: z.array(z.object({ msg: z.string() })).optional(),
+	}),
+});
+
+const AcTransitVehicle = z.object({
+	vid: z.coerce.string(),
+	tmstmp: z.string().optional(),
+	lat: z.coerce.number(),
+	lon: z.coerce.number(),
+	hdg: z.coerce.number().optional(),
+	rt: z.string(),
+	des: z.string().optional(),
+	// Miles per hour
+	spd: z.coerce.number().optional(),
+	tatripid: z.coerce.string().optional(),
+});
+
+const AcTransitVehicleResponse = z.object({
+	"bustime-response": z.object({
+		vehicle: z.array(AcTransitVehicle).optional(),
+		error: z.array(z.object({ msg: z.string() })).optional(),
+	}),
+});
+
+const AcTransitPatternResponse = z.object({
+	"bustime-response": z.object({
+		ptr: z.array(z.object({
+			pid: z.coerce.string(),
+			rtdir: z.string(),
+			pt: z.array(z.object({
+				seq: z.coerce.number(),
+				lat: z.coerce.number(),
+				lon: z.coerce.number(),
+				// "S" for a stop, "W" for a waypoint between stops
+				typ: z.string(),
+				stpid: z.coerce.string().optional(),
+				stpnm: z.string().optional(),
+			})),
+		})).optional(),
+		error: z.array(z.object({ msg: z.string() })).optional(),
+	}),
+});
+
+const METERS_PER_SECOND_PER_MPH = 0.44704;
+
+const BULLETIN_SEVERITY: Record<string, ServiceAlertSeverity> = {
+	high: "severe",
+	medium: "warning",
+	low: "info",
+};
+
+// Predictions asked for per stop; Bustime's top limits the whole response
+const PREDICTIONS_PER_STOP = 3;
+
+// Bustime takes at most this many stop IDs in one prediction request
+const MAX_STOPS_PER_REQUEST = 10;
+
+// Shape of /route/{route}/stops: one entry per direction of travel
+interface AcTransitRouteDirection {
+	Direction: string;
+	Destination: string;
+	Stops: Array<{
+		StopId: number;
+		Name: string;
+		Latitude: number | null;
+		Longitude: number | null;
+	}>;
+}
+
+/**
+ * One bus seen in the predictions at both ends of a ride.
+ */
+export interface AcTransitRide {
+	vehicleId: string;
 	route: string;
 	direction: string;
-	vehicleId: string;
-	minutesUntilArrival: number;
+	fromStopId: string;
+	fromStopName: string;
+	departureTime: string;
+	toStopId: string;
+	toStopName: string;
+	arrivalTime: string;
 }
 
-export class AcTransitClient {
-	private readonly baseURL = "https://api.actransit.org/transit/actrealtime/prediction";
+export class AcTransitClient implements AgencyAdapter {
+	readonly info: AgencyInfo = {
+		code: "actransit",
+		name: "AC Transit",
+		timezone: "America/Los_Angeles",
+		logo: "/images/actransit.png",
+		active: true,
+	};
+
+	private readonly baseURL = "https://api.actransit.org/transit";
 	private readonly apiKey: string;
+	private readonly inflight = new InflightRequests();
+	private readonly upstream: UpstreamHttp;
+	// Where AC Transit's GTFS feed is imported, for its timetable
+	private readonly db: D1Database | null;
 
-	constructor(apiKey: string) {
+	constructor(apiKey: string, upstream: UpstreamConfig = LIVE_UPSTREAM, db: D1Database | null = null) {
 		this.apiKey = apiKey;
+		this.db = db;
+		this.upstream = new UpstreamHttp("actransit", "AC Transit", { timeoutMs: 5000, retries: 2 }, upstream);
 	}
 
-	async getPredictions(stopId: string, route: string): Promise<TransitPrediction[]> {
+	async getPredictions(query: PredictionQuery): Promise<TransitPrediction[]> {
+		const { stop, route, direction } = query;
+		// A stop group's members share requests
+		const stopIds = stop.split(",").map(id => id.trim());
+		const bustimeResponse = await this.fetchPredictions(stopIds, route, PREDICTIONS_PER_STOP);
 
-		const url = new URL(this.baseURL);
-		url.searchParams.append("stpid", stopId);
-		url.searchParams.append("rt", route);
-		url.searchParams.append("top", "3");
-		url.searchParams.append("token", this.apiKey);
-
-		const response = await fetch(url.toString());
-		
-		if (!response.ok) {
-			throw new Error(`AC Transit API error: ${response.status} ${response.statusText}`);
-		}
-
-		const data = await response.json();
-		const apiResponse = AcTransitAPIResponse.parse(data);
-		
-		const bustimeResponse = apiResponse["bustime-response"];
-		
-		// Check for API errors
-		if (bustimeResponse.error && bustimeResponse.error.length > 0) {
-			throw new Error(`AC Transit API error: ${bustimeResponse.error[0].msg}`);
+		// Check for API errors; "No arrival times" is one too, and leaves
+		// predictions empty
+		for (const error of bustimeResponse.error || []) {
+			if (!/invalid|not found|not valid/i.test(error.msg)) {
+				continue;
+			}
+			if (error.rt) {
+				throw new UnknownRouteError(error.rt);
+			}
+			throw new UnknownStopError(`Stop ${error.stpid || stop} not found`);
 		}
 
 		// Convert AC Transit predictions to our standard format
 		const predictions = bustimeResponse.prd || [];
 		
-		return predictions.map(pred => {
-			// Parse the prediction time (format: "yyyyMMdd HH:mm")
+		const now = Date.now();
+		const results = predictions.map(pred => {
 			const prdtm = this.parseAcTransitDateTime(pred.prdtm);
 			
 			// AC Transit predictions are arrival times, subtract 1 minute for departure
 			const departureTime = new Date(prdtm.getTime() - 60000);
 			
 			// Calculate minutes until arrival
-			const minutesUntilArrival = Math.round((prdtm.getTime() - Date.now()) / 60000);
+			const minutesUntilArrival = Math.round((prdtm.getTime() - now) / 60000);
 
 			return {
 				arrivalTime: prdtm.toISOString(),
@@ -98,57 +226,358 @@ export class AcTransitClient {
 				direction: pred.rtdir,
 				vehicleId: pred.vid,
 				minutesUntilArrival: Math.max(0, minutesUntilArrival),
+				source: "realtime" as const,
+				...predictionFreshness(pred.tmstmp ? this.parseAcTransitDateTime(pred.tmstmp) : null, now),
 			};
 		});
+
+		// Several stops' predictions come back stop by stop
+		results.sort((a, b) => a.arrivalTime.localeCompare(b.arrivalTime));
+
+		// Direction is free text matched against the route direction (e.g. "To SF")
+		if (direction) {
+			return results.filter(p =>
+				p.direction.toLowerCase().includes(direction.toLowerCase())
+			);
+		}
+
+		return results;
 	}
 
-	private parseAcTransitDateTime(dateTimeStr: string): Date {
-		// Format: "yyyyMMdd HH:mm"
-		// AC Transit times are in Pacific Time (America/Los_Angeles)
-		
-		// Parse the date/time components
-		const year = parseInt(dateTimeStr.substring(0, 4));
-		const month = parseInt(dateTimeStr.substring(4, 6)) - 1; // JS months are 0-indexed
-		const day = parseInt(dateTimeStr.substring(6, 8));
-		const time = dateTimeStr.substring(9);
-		const [hours, minutes] = time.split(":").map(n => parseInt(n));
-
-		// Create a date string with Pacific Time offset
-		// During PDT (Mar-Nov): UTC-7, During PST (Nov-Mar): UTC-8
-		const monthStr = (month + 1).toString().padStart(2, '0');
-		const dayStr = day.toString().padStart(2, '0');
-		const hoursStr = hours.toString().padStart(2, '0');
-		const minutesStr = minutes.toString().padStart(2, '0');
-		
-		// Check if we're in PDT or PST for this date
-		const testDate = new Date(year, month, day);
-		const isDST = this.isDaylightSavingTime(testDate);
-		const offset = isDST ? '-07:00' : '-08:00';
-		
-		// Create an ISO string with the correct Pacific offset
-		const isoString = `${year}-${monthStr}-${dayStr}T${hoursStr}:${minutesStr}:00${offset}`;
-		
-		// Parse the ISO string - JavaScript will correctly convert to UTC
-		return new Date(isoString);
+	/**
+	 * Upcoming rides on a route between two stops (each may be comma-separated
+	 * IDs), found by matching vehicles across both stops' predictions in one
+	 * request. A bus only counts if it reaches toStop after fromStop, which
+	 * also settles the direction of travel.
+	 */
+	async getVehicleRides(route: string, fromStop: string, toStop: string): Promise<AcTransitRide[]> {
+		const fromIds = fromStop.split(",").map(id => id.trim());
+		const toIds = toStop.split(",").map(id => id.trim());
+
+		const bustimeResponse = await this.fetchPredictions([...fromIds, ...toIds], route, null);
+
+		// "No arrival times" comes back as an error; treat it as no rides
+		const predictions = bustimeResponse.prd || [];
+		const rides: AcTransitRide[] = [];
+
+		for (const boarding of predictions.filter(p => fromIds.includes(p.stpid))) {
+			const departure = this.parseAcTransitDateTime(boarding.prdtm);
+			const alighting = predictions.find(p =>
+				p.vid === boarding.vid &&
+				toIds.includes(p.stpid) &&
+				this.parseAcTransitDateTime(p.prdtm) > departure
+			);
+			if (!alighting) {
+				continue;
+			}
+
+			rides.push({
+				vehicleId: boarding.vid,
+				route: boarding.rt,
+				direction: boarding.rtdir,
+				fromStopId: boarding.stpid,
+				fromStopName: boarding.stpnm,
+				departureTime: departure.toISOString(),
+				toStopId: alighting.stpid,
+				toStopName: alighting.stpnm,
+				arrivalTime: this.parseAcTransitDateTime(alighting.prdtm).toISOString(),
+			});
+		}
+
+		return rides.sort((a, b) => a.departureTime.localeCompare(b.departureTime));
 	}
-	
-	private isDaylightSavingTime(date: Date): boolean {
-		// DST in California runs from second Sunday in March to first Sunday in November
-		const year = date.getFullYear();
+
+	/**
+	 * Raw predictions at any number of stops, fetched in requests of at most
+	 * MAX_STOPS_PER_REQUEST stops and merged. perStop, when given, caps how
+	 * many predictions each request returns per stop in it.
+	 */
+	private async fetchPredictions(
+		stopIds: string[],
+		route: string,
+		perStop: number | null
+	): Promise<z.infer<typeof AcTransitPredictionResponse>> {
+		const chunks: string[][] = [];
+		for (let i = 0; i < stopIds.length; i += MAX_STOPS_PER_REQUEST) {
+			chunks.push(stopIds.slice(i, i + MAX_STOPS_PER_REQUEST));
+		}
+
+		const responses = await Promise.all(chunks.map(async (chunk) => {
+			const data = await this.fetchJson<unknown>("/actrealtime/prediction", {
+				stpid: chunk.join(","),
+				rt: route,
+				...(perStop === null ? {} : { top: String(perStop * chunk.length) }),
+			});
+			return AcTransitAPIResponse.parse(data)["bustime-response"];
+		}));
+
+		return {
+			prd: responses.flatMap(response => response.prd || []),
+			error: responses.flatMap(response => response.error || []),
+		};
+	}
+
+	async getRoutes(): Promise<TransitRoute[]> {
+		const routesData = await this.fetchJson<Array<{ RouteId: string; Name?: string }>>("/routes", {});
+
+		return routesData.map(route => ({
+			routeCode: route.RouteId,
+			routeName: route.Name || route.RouteId,
+			routeType: "bus",
+			active: true,
+		})).sort((a, b) => {
+			// Sort numerically first, then alphabetically
+			const aNum = parseInt(a.routeCode);
+			const bNum = parseInt(b.routeCode);
+			if (!isNaN(aNum) && !isNaN(bNum)) {
+				return aNum - bNum;
+			}
+			if (!isNaN(aNum)) return -1;
+			if (!isNaN(bNum)) return 1;
+			return a.routeCode.localeCompare(b.routeCode);
+		});
+	}
+
+	async getStops(route: string): Promise<TransitStop[]> {
+		// One entry per group, as clients from before stop groups expect: the
+		// members' IDs comma-separated, at the first member's coordinates
+		return (await this.getStopGroups(route)).map(group => ({
+			stopId: group.members.map(member => member.stopId).join(","),
+			stopCode: group.members.map(member => member.stopCode).join(","),
+			stopName: group.stopName,
+			lat: group.members[0].lat,
+			lon: group.members[0].lon,
+		}));
+	}
+
+	/**
+	 * The route's stops grouped by name, since one location often has a stop
+	 * on each side of the street under different IDs.
+	 */
+	async getStopGroups(route: string): Promise<StopGroup[]> {
+		const routeDirections = await this.getRouteDirections(route);
+
+		return buildStopGroups(this.info.code, routeDirections.map(routeDirection => ({
+			direction: routeDirection.Direction,
+			destination: routeDirection.Destination,
+			stops: routeDirection.Stops.map(stop => ({
+				stopId: stop.StopId.toString(),
+				stopCode: stop.StopId.toString(),
+				stopName: stop.Name,
+				lat: stop.Latitude,
+				lon: stop.Longitude,
+			})),
+		})));
+	}
+
+	async getStopDirections(route: string, stop: string): Promise<TransitStopDirection[]> {
+		const routeStopsData = await this.getRouteDirections(route);
+
+		// Handle comma-separated stop IDs (for stops with same name but different IDs)
+		const stopIds = stop.split(',').map(id => id.trim());
 		
-		// Get second Sunday in March
-		const march = new Date(year, 2, 1); // March 1st
-		const daysUntilSunday = (7 - march.getDay()) % 7;
-		const firstSunday = 1 + daysUntilSunday;
-		const secondSunday = firstSunday + 7;
-		const dstStart = new Date(year, 2, secondSunday);
+		// Find directions that serve any of these stop IDs
+		// Also track which stop ID serves which direction
+		const directionsMap = new Map<string, TransitStopDirection>();
 		
-		// Get first Sunday in November
-		const november = new Date(year, 10, 1); // November 1st
-		const novDaysUntilSunday = (7 - november.getDay()) % 7;
-		const novFirstSunday = 1 + novDaysUntilSunday;
-		const dstEnd = new Date(year, 10, novFirstSunday);
+		for (const routeDirection of routeStopsData) {
+			for (const stopId of stopIds) {
+				const hasStop = routeDirection.Stops.some(s => s.StopId.toString() === stopId);
+				if (hasStop && !directionsMap.has(routeDirection.Direction)) {
+					directionsMap.set(routeDirection.Direction, {
+						direction: routeDirection.Direction,
+						destination: routeDirection.Destination,
+						destinationId: null,
+						stopId: stopId, // Include which stop ID to use for this direction
+					});
+				}
+			}
+		}
+
+		if (directionsMap.size === 0) {
+			throw new UnknownStopError(`Stop ${stop} not found on route ${route}`);
+		}
 		
-		return date >= dstStart && date < dstEnd;
+		return Array.from(directionsMap.values());
 	}
-}
\ No newline at end of file
+
+	async getAlerts(query: AlertQuery): Promise<ServiceAlert[]> {
+		const { route, stop } = query;
+
+		// Bustime only looks up service bulletins for particular routes or stops
+		if (!route && !stop) {
+			throw new AgencyRequestError("AC Transit alerts need a route or stop parameter.");
+		}
+
+		const params: Record<string, string> = {};
+		if (route) {
+			params.rt = route;
+		}
+		if (stop) {
+			params.stpid = stop;
+		}
+
+		const data = await this.fetchJson<unknown>("/actrealtime/servicebulletin", params);
+		const bustimeResponse = AcTransitServiceBulletinResponse.parse(data)["bustime-response"];
+
+		// Bustime reports "no bulletins" as an error, so an error just means
+		// there is nothing to show
+		return (bustimeResponse.sb || [])
+			.map(bulletin => {
+				const services = bulletin.srvc || [];
+				return {
+					id: bulletin.nm,
+					agency: this.info.code,
+					severity: BULLETIN_SEVERITY[(bulletin.prty || "").toLowerCase()] || "info",
+					header: bulletin.sbj || bulletin.brf || bulletin.nm,
+					description: bulletin.dtl || bulletin.brf || "",
+					routes: Array.from(new Set(services.map(service => service.rt).filter(Boolean))),
+					stops: Array.from(new Set(services.map(service => service.stpid).filter(Boolean))),
+					activeFrom: null,
+					activeUntil: null,
+					url: bulletin.url || null,
+				};
+			})
+			.filter(alert => alertApplies(alert, query));
+	}
+
+	async getVehicles(route: string): Promise<TransitVehicle[]> {
+		const data = await this.fetchJson<unknown>("/actrealtime/vehicle", { rt: route });
+		const bustimeResponse = AcTransitVehicleResponse.parse(data)["bustime-response"];
+
+		// A route with no buses out comes back as an error too
+		return (bustimeResponse.vehicle || []).map(vehicle => ({
+			vehicleId: vehicle.vid,
+			route: vehicle.rt,
+			lat: vehicle.lat,
+			lon: vehicle.lon,
+			heading: vehicle.hdg ?? null,
+			speed: vehicle.spd === undefined ? null : Math.round(vehicle.spd * METERS_PER_SECOND_PER_MPH * 10) / 10,
+			tripId: vehicle.tatripid || null,
+			destination: vehicle.des || null,
+			nextStopId: null,
+			updatedAt: vehicle.tmstmp ? this.parseAcTransitDateTime(vehicle.tmstmp).toISOString() : null,
+			source: "reported" as const,
+		}));
+	}
+
+	/**
+	 * One shape per direction from the route's trip patterns. A direction can
+	 * have several patterns for short runs and detours; the one with the most
+	 * points is taken as the full route.
+	 */
+	async getRouteShapes(route: string): Promise<RouteShape[]> {
+		const data = await this.fetchJson<unknown>("/actrealtime/pattern", { rt: route });
+		// An unknown route comes back as an error without patterns
+		const patterns = AcTransitPatternResponse.parse(data)["bustime-response"].ptr || [];
+		if (patterns.length === 0) {
+			throw new UnknownRouteError(route);
+		}
+
+		const longest = new Map<string, typeof patterns[number]>();
+		for (const pattern of patterns) {
+			const current = longest.get(pattern.rtdir);
+			if (!current || pattern.pt.length > current.pt.length) {
+				longest.set(pattern.rtdir, pattern);
+			}
+		}
+
+		return Array.from(longest.values()).map(pattern => {
+			const points = [...pattern.pt].sort((a, b) => a.seq - b.seq);
+			const stops = points
+				.filter(point => point.typ === "S" && point.stpid)
+				.map(point => ({
+					stopId: point.stpid,
+					stopCode: point.stpid,
+					stopName: point.stpnm || point.stpid,
+					lat: point.lat,
+					lon: point.lon,
+				}));
+
+			return {
+				direction: pattern.rtdir,
+				destination: stops[stops.length - 1]?.stopName || "",
+				path: points.map(point => ({ lat: point.lat, lon: point.lon })),
+				stops,
+			};
+		});
+	}
+
+	/**
+	 * Read from AC Transit's GTFS feed, imported under its agency code, since
+	 * the API only has the timetable a trip at a time. The feed's stop codes
+	 * and route short names are the IDs the API uses.
+	 */
+	async getSchedule(query: ScheduleQuery): Promise<ScheduledDeparture[]> {
+		const feed = this.db ? await GtfsClient.getFeed(this.db, this.info.code) : null;
+		if (!feed) {
+			throw new AgencyRequestError(`${this.info.name}'s timetable hasn't been imported`, 404);
+		}
+
+		const departures = await new GtfsClient(this.db, feed).getSchedule(query, { publicCodes: true });
+		// Directions as predictions name them
+		return departures.map(departure => ({
+			...departure,
+			direction: departure.destination ? `To ${departure.destination}` : departure.direction,
+		}));
+	}
+
+	async getServiceDay(date: string): Promise<ServiceDay> {
+		const holiday = holidayOn(date);
+		return { date, schedule: holiday ? "sunday" : weekdaySchedule(date), holiday };
+	}
+
+	private async getRouteDirections(route: string): Promise<AcTransitRouteDirection[]> {
+		try {
+			return await this.fetchJson<AcTransitRouteDirection[]>(`/route/${encodeURIComponent(route)}/stops`, {});
+		} catch (error) {
+			if (error instanceof UpstreamError && error.upstreamStatus === 404) {
+				throw new UnknownRouteError(route);
+			}
+			throw error;
+		}
+	}
+
+	private fetchJson<T>(path: string, params: Record<string, string>): Promise<T> {
+		const url = new URL(`${this.baseURL}${path}`);
+		for (const [key, value] of Object.entries(params)) {
+			url.searchParams.append(key, value);
+		}
+
+		const key = url.toString();
+		return this.inflight.run(key, () => {
+			url.searchParams.append("token", this.apiKey);
+			return this.upstream.get(url.toString(), key, (response) => response.json() as Promise<T>);
+		});
+	}
+
+	// Times are "yyyyMMdd HH:mm" (tmstmp may add ":ss") in the agency's zone
+	private parseAcTransitDateTime(dateTimeStr: string): Date {
+		const date = `${dateTimeStr.substring(0, 4)}-${dateTimeStr.substring(4, 6)}-${dateTimeStr.substring(6, 8)}`;
+		return zonedTimeToUtc(date, dateTimeStr.substring(9), this.info.timezone);
+	}
+}
+
+// The holidays AC Transit runs its Sunday schedule on
+function holidayOn(date: string): string | null {
+	const [year, month, day] = date.split("-").map(n => parseInt(n));
+	const holidays: Array<[string, number, number]> = [
+		["New Year's Day", 1, 1],
+		["Memorial Day", 5, nthWeekday(year, 5, 1, -1)],
+		["Independence Day", 7, 4],
+		["Labor Day", 9, nthWeekday(year, 9, 1, 1)],
+		["Thanksgiving Day", 11, nthWeekday(year, 11, 4, 4)],
+		["Christmas Day", 12, 25],
+	];
+	return holidays.find(([, m, d]) => m === month && d === day)?.[0] ?? null;
+}
+
+// Day of the month of its nth weekday (0 is Sunday), or the last for n = -1
+function nthWeekday(year: number, month: number, weekday: number, n: number): number {
+	if (n === -1) {
+		const last = new Date(Date.UTC(year, month, 0));
+		return last.getUTCDate() - (last.getUTCDay() - weekday + 7) % 7;
+	}
+	const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+	return 1 + (weekday - first + 7) % 7 + (n - 1) * 7;
+}
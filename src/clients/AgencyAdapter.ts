@@ -0,0 +1,420 @@
+import { addDays, zonedDate, zonedHour } from "./time";
+
+export interface TransitPrediction {
+	arrivalTime: string;
+	departureTime: string;
+	stopName: string;
+	stopId: string;
+	route: string;
+	direction: string;
+	vehicleId: string;
+	minutesUntilArrival: number;
+	// "scheduled" when realtime had nothing and the timetable filled in
+	source: "realtime" | "scheduled";
+	// When the agency's feed produced the prediction, and how many seconds
+	// old that was when it was served; null for scheduled departures
+	generatedAt: string | null;
+	ageSeconds: number | null;
+}
+
+export interface ScheduledDeparture {
+	departureTime: string;
+	stopId: string;
+	stopName: string;
+	route: string;
+	// Matches the direction parameter predictions accept for the agency
+	direction: string;
+	destination: string;
+	// Where the agency identifies the destination by code (BART stations),
+	// matching the destination parameter predictions accept
+	destinationId: string | null;
+}
+
+export interface ScheduleQuery {
+	stop: string;
+	route: string;
+	// Service day, YYYY-MM-DD in the agency's time zone
+	date: string;
+}
+
+export type ServiceSchedule = "weekday" | "saturday" | "sunday";
+
+export interface ServiceDay {
+	// YYYY-MM-DD in the agency's time zone
+	date: string;
+	// Which timetable runs that day; holidays run a weekend one
+	schedule: ServiceSchedule;
+	// Name of the holiday, when the agency runs holiday service
+	holiday: string | null;
+}
+
+export interface TransitRoute {
+	routeCode: string;
+	routeName: string;
+	routeType: string | null;
+	active: boolean;
+}
+
+export interface TransitStop {
+	stopId: string;
+	stopCode: string;
+	stopName: string;
+	lat: number | null;
+	lon: number | null;
+}
+
+export interface TransitStopDirection {
+	direction: string;
+	destination: string;
+	// As in ScheduledDeparture
+	destinationId: string | null;
+	stopId: string;
+}
+
+export type ServiceAlertSeverity = "info" | "warning" | "severe";
+
+export interface ServiceAlert {
+	id: string;
+	agency: string;
+	severity: ServiceAlertSeverity;
+	header: string;
+	description: string;
+	// Empty when the alert isn't limited to particular routes or stops
+	routes: string[];
+	stops: string[];
+	activeFrom: string | null;
+	activeUntil: string | null;
+	url: string | null;
+}
+
+export interface TransitVehicle {
+	// Matches TransitPrediction.vehicleId; empty for BART, which has no train IDs
+	vehicleId: string;
+	route: string;
+	lat: number;
+	lon: number;
+	// Degrees clockwise from north
+	heading: number | null;
+	// Meters per second
+	speed: number | null;
+	tripId: string | null;
+	destination: string | null;
+	// Next station for estimated positions
+	nextStopId: string | null;
+	updatedAt: string | null;
+	// "estimated" when placed between stations from arrival estimates rather
+	// than reported by the vehicle
+	source: "reported" | "estimated";
+}
+
+export interface RouteShape {
+	direction: string;
+	destination: string;
+	// Points the route passes through in travel order. Agencies that publish
+	// no geometry get straight lines between stops.
+	path: Array<{ lat: number; lon: number }>;
+	// Stops in travel order
+	stops: TransitStop[];
+}
+
+/**
+ * Stops riders treat as one place on a route, such as the stops on either
+ * side of a street. Members are told apart by the directions they serve.
+ */
+export interface StopGroup {
+	// Stop reference for the whole group: the agency and its sorted member
+	// IDs joined by "~", or just the member's reference for a single stop
+	groupId: string;
+	stopName: string;
+	// Middle of the members
+	lat: number | null;
+	lon: number | null;
+	members: StopGroupMember[];
+}
+
+export interface StopGroupMember {
+	stopId: string;
+	stopCode: string;
+	lat: number | null;
+	lon: number | null;
+	directions: Array<{
+		// Matches the direction parameter predictions accept
+		direction: string;
+		destination: string;
+		// Degrees clockwise from north that vehicles travel at the stop,
+		// which says the side of the street
+		heading: number | null;
+	}>;
+}
+
+export interface AgencyInfo {
+	code: string;
+	name: string;
+	timezone: string;
+	logo: string | null;
+	active: boolean;
+}
+
+export interface PredictionQuery {
+	stop: string;
+	route: string;
+	direction?: string;
+	headsign?: string;
+	// BART only: comma-separated station codes trains must terminate at
+	destination?: string;
+	// BART only: comma-separated platform numbers
+	platform?: string;
+	// BART only: station code trains must call at after the stop
+	via?: string;
+}
+
+export interface AlertQuery {
+	route?: string;
+	stop?: string;
+}
+
+/**
+ * Common interface every transit agency implements so endpoints can serve
+ * any agency without knowing which upstream API backs it.
+ */
+export interface AgencyAdapter {
+	readonly info: AgencyInfo;
+	getPredictions(query: PredictionQuery): Promise<TransitPrediction[]>;
+	getRoutes(): Promise<TransitRoute[]>;
+	getStops(route: string): Promise<TransitStop[]>;
+	getStopDirections(route: string, stop: string): Promise<TransitStopDirection[]>;
+	// Service alerts that apply to the route and stop, when given
+	getAlerts(query: AlertQuery): Promise<ServiceAlert[]>;
+	// Timetabled departures from the stop on the route over one service day,
+	// in every direction, in departure order
+	getSchedule(query: ScheduleQuery): Promise<ScheduledDeparture[]>;
+	// Which timetable the agency runs on a date
+	getServiceDay(date: string): Promise<ServiceDay>;
+	// Where the route's vehicles are now
+	getVehicles(route: string): Promise<TransitVehicle[]>;
+	// The path and stops of each direction of the route
+	getRouteShapes(route: string): Promise<RouteShape[]>;
+	// The route's stops, with those sharing a name grouped
+	getStopGroups(route: string): Promise<StopGroup[]>;
+}
+
+/**
+ * The timetable a YYYY-MM-DD date runs when it isn't a holiday.
+ */
+export function weekdaySchedule(date: string): ServiceSchedule {
+	const [year, month, day] = date.split("-").map(n => parseInt(n));
+	const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+	return weekday === 0 ? "sunday" : weekday === 6 ? "saturday" : "weekday";
+}
+
+/**
+ * Whether an alert applies to a query. Alerts without routes or stops apply
+ * everywhere; comma-separated routes and stop IDs (BART lines, merged AC
+ * Transit stops) match if any of them is affected.
+ */
+export function alertApplies(alert: ServiceAlert, query: AlertQuery): boolean {
+	return matchesAny(alert.routes, query.route) && matchesAny(alert.stops, query.stop);
+}
+
+/**
+ * Alerts to return alongside predictions. A failed alert lookup shouldn't
+ * cost the rider their predictions, so it counts as no alerts.
+ */
+export async function predictionAlerts(adapter: AgencyAdapter, query: AlertQuery): Promise<ServiceAlert[]> {
+	try {
+		return await adapter.getAlerts(query);
+	} catch (error) {
+		console.error("Prediction alerts error:", error);
+		return [];
+	}
+}
+
+// Scheduled departures stand in for this many realtime predictions
+const SCHEDULED_FALLBACK_COUNT = 3;
+
+/**
+ * Realtime predictions, or the next scheduled departures when realtime has
+ * none (late at night, upstream outages, feeds without realtime). Invalid
+ * queries still fail, and if the schedule can't help either, the realtime
+ * error is passed on.
+ */
+export async function getPredictionsWithFallback(adapter: AgencyAdapter, query: PredictionQuery): Promise<TransitPrediction[]> {
+	let realtimeError: unknown = null;
+	try {
+		const predictions = await adapter.getPredictions(query);
+		if (predictions.length > 0) {
+			return predictions;
+		}
+	} catch (error) {
+		if (error instanceof AgencyRequestError) {
+			throw error;
+		}
+		console.error("Realtime predictions error, trying schedule:", error);
+		realtimeError = error;
+	}
+
+	try {
+		const scheduled = await scheduledPredictions(adapter, query, new Date());
+		if (scheduled.length > 0 || !realtimeError) {
+			return scheduled;
+		}
+	} catch (error) {
+		console.error("Scheduled departures error:", error);
+		if (!realtimeError) {
+			return [];
+		}
+	}
+
+	throw realtimeError;
+}
+
+async function scheduledPredictions(adapter: AgencyAdapter, query: PredictionQuery, now: Date): Promise<TransitPrediction[]> {
+	// Timetables have no platforms and don't say which stations a train
+	// calls at, so those queries can't be answered from them
+	if (query.platform || query.via) {
+		return [];
+	}
+
+	const { timezone } = adapter.info;
+	const today = zonedDate(now, timezone);
+
+	// Before dawn, the previous service day's late trips are still running
+	const dates = zonedHour(now, timezone) < 4 ? [addDays(today, -1), today] : [today];
+	const schedules = await Promise.all(dates.map(date =>
+		adapter.getSchedule({ stop: query.stop, route: query.route, date })
+	));
+
+	// Short directions (BART's n/s, GTFS direction ids) must match exactly;
+	// longer ones are free text matched against the direction or destination
+	const direction = query.direction?.toLowerCase();
+	const matchesDirection = (departure: ScheduledDeparture) => !direction ||
+		departure.direction.toLowerCase() === direction ||
+		(direction.length > 1 && (
+			departure.direction.toLowerCase().includes(direction) ||
+			departure.destination.toLowerCase().includes(direction)));
+	const destinations = splitCodes(query.destination);
+	const matchesDestination = (departure: ScheduledDeparture) => destinations.length === 0 ||
+		(departure.destinationId !== null && destinations.includes(departure.destinationId.toUpperCase()));
+
+	return schedules.flat()
+		.filter(departure => Date.parse(departure.departureTime) >= now.getTime() &&
+			matchesDirection(departure) && matchesDestination(departure))
+		.sort((a, b) => a.departureTime.localeCompare(b.departureTime))
+		.slice(0, SCHEDULED_FALLBACK_COUNT)
+		.map(departure => ({
+			arrivalTime: departure.departureTime,
+			departureTime: departure.departureTime,
+			stopName: departure.stopName,
+			stopId: departure.stopId,
+			route: departure.route,
+			direction: departure.destination || departure.direction,
+			vehicleId: "",
+			minutesUntilArrival: Math.round((Date.parse(departure.departureTime) - now.getTime()) / 60000),
+			source: "scheduled" as const,
+			generatedAt: null,
+			ageSeconds: null,
+		}));
+}
+
+/**
+ * Identifies a set of predictions by the fields that only change when the
+ * agency's data does. minutesUntilArrival counts down with the clock, so
+ * comparing whole predictions would see a change on every read. Feeds stamp
+ * every response with a new generation time, so that's left out too, and
+ * times count to the minute, as clients show them: BART counts its whole
+ * minutes from the generation time, so the same train moves by seconds from
+ * one response to the next.
+ */
+export function predictionSignature(predictions: TransitPrediction[]): string {
+	return JSON.stringify(predictions.map(prediction => [
+		prediction.stopId,
+		prediction.route,
+		prediction.vehicleId,
+		toMinute(prediction.arrivalTime),
+		toMinute(prediction.departureTime),
+		prediction.source,
+	]));
+}
+
+function toMinute(time: string): number {
+	return Math.round(Date.parse(time) / 60000);
+}
+
+/**
+ * Generation time and age fields for realtime predictions, from the feed's
+ * own timestamp. A missing or unreadable timestamp gives nulls rather than
+ * passing off the fetch time as the feed's.
+ */
+export function predictionFreshness(generatedAt: Date | null, now: number = Date.now()): Pick<TransitPrediction, "generatedAt" | "ageSeconds"> {
+	if (!generatedAt || isNaN(generatedAt.getTime())) {
+		return { generatedAt: null, ageSeconds: null };
+	}
+	return {
+		generatedAt: generatedAt.toISOString(),
+		ageSeconds: ageSeconds(generatedAt.getTime(), now),
+	};
+}
+
+/**
+ * A prediction with its age brought up to now, for predictions served
+ * some time after they were read.
+ */
+export function withAge(prediction: TransitPrediction, now: number = Date.now()): TransitPrediction {
+	if (prediction.generatedAt === null) {
+		return prediction;
+	}
+	return { ...prediction, ageSeconds: ageSeconds(Date.parse(prediction.generatedAt), now) };
+}
+
+function ageSeconds(generatedAt: number, now: number): number {
+	return Math.max(0, Math.round((now - generatedAt) / 1000));
+}
+
+function splitCodes(codes: string | undefined): string[] {
+	return codes ? codes.split(",").map(code => code.trim().toUpperCase()).filter(Boolean) : [];
+}
+
+function matchesAny(affected: string[], requested: string | undefined): boolean {
+	if (!requested || affected.length === 0) {
+		return true;
+	}
+	const ids = requested.split(",").map(id => id.trim().toLowerCase());
+	return affected.some(id => ids.includes(id.toLowerCase()));
+}
+
+/**
+ * Thrown by adapters when the caller's query is at fault (bad parameters,
+ * unknown route or stop). Endpoints return it with the given status.
+ */
+export class AgencyRequestError extends Error {
+	readonly status: 400 | 404;
+	// Query parameter at fault, when it is a single one
+	readonly param: string | null;
+
+	constructor(message: string, status: 400 | 404 = 400, param: string | null = null) {
+		super(message);
+		this.name = "AgencyRequestError";
+		this.status = status;
+		this.param = param;
+	}
+}
+
+/**
+ * The agency doesn't know the requested stop, or it isn't on the route.
+ */
+export class UnknownStopError extends AgencyRequestError {
+	constructor(message: string, param = "stop") {
+		super(message, 404, param);
+		this.name = "UnknownStopError";
+	}
+}
+
+/**
+ * The agency doesn't know the requested route.
+ */
+export class UnknownRouteError extends AgencyRequestError {
+	constructor(route: string) {
+		super(`Route ${route} not found`, 404, "route");
+		this.name = "UnknownRouteError";
+	}
+}
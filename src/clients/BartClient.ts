@@ -1,16 +1,41 @@
-export interface BartPrediction {
-    arrivalTime: string;
-    departureTime: string;
-    stopName: string;
-    stopId: string;
-    route: string;
-    direction: string;
-    vehicleId: string;
-    minutesUntilArrival: number;
-}
+import {
+    AgencyRequestError,
+    alertApplies,
+    predictionFreshness,
+    UnknownRouteError,
+    UnknownStopError,
+    weekdaySchedule,
+    type AgencyAdapter,
+    type AgencyInfo,
+    type AlertQuery,
+    type PredictionQuery,
+    type RouteShape,
+    type ScheduleQuery,
+    type ScheduledDeparture,
+    type ServiceDay,
+    type ServiceAlert,
+    type ServiceAlertSeverity,
+    type StopGroup,
+    type TransitPrediction,
+    type TransitRoute,
+    type TransitStop,
+    type TransitStopDirection,
+    type TransitVehicle,
+} from './AgencyAdapter';
+import { InflightRequests } from './InflightRequests';
+import type { TransitCache } from '../cache/TransitCache';
+import { LIVE_UPSTREAM, UpstreamHttp, type UpstreamConfig } from './UpstreamHttp';
+import { bearingDegrees, distanceMeters } from '../stops/geo';
+import { buildStopGroups } from '../stops/stopGroups';
+import { zonedDate, zonedTimeToUtc } from './time';
 
-interface BartApiResponse {
+interface BartEtdResponse {
     root: {
+        // When the estimates were generated: "10/18/2026" and "08:38:47 PM PDT"
+        date?: string;
+        time?: string;
+        // Set instead of station when the request is rejected
+        message?: { error?: { text: string; details?: string } };
         station: Array<{
             name: string;
             abbr: string;
@@ -35,44 +60,262 @@ interface BartApiResponse {
     };
 }
 
-export class BartClient {
+interface BartStationsResponse {
+    root: {
+        stations: {
+            station: Array<{
+                name: string;
+                abbr: string;
+                gtfs_latitude: string;
+                gtfs_longitude: string;
+            }>;
+        };
+    };
+}
+
+interface BartAdvisory {
+    '@id'?: string;
+    station: string;
+    type?: string;
+    description: { '#cdata-section': string };
+    sms_text?: { '#cdata-section': string };
+    posted?: string;
+    expires?: string;
+}
+
+interface BartScheduleItem {
+    '@line': string;
+    '@trainHeadStation': string;
+    '@origTime': string;
+}
+
+interface BartStationScheduleResponse {
+    root: {
+        station: {
+            name: string;
+            abbr: string;
+            item: BartScheduleItem | BartScheduleItem[];
+        };
+    };
+}
+
+interface BartHoliday {
+    name: string;
+    // "11/26/2026"
+    date: string;
+    // "Saturday" or "Sunday"
+    schedule_type: string;
+}
+
+interface BartScheduleTime {
+    '@origin': string;
+    '@destination': string;
+    '@origTimeMin': string;
+    '@origTimeDate': string;
+    '@destTimeMin': string;
+    '@destTimeDate': string;
+}
+
+interface BartDepartResponse {
+    root: {
+        schedule: {
+            request: {
+                trip: Array<BartScheduleTime & {
+                    leg: (BartScheduleTime & { '@line': string; '@trainHeadStation': string })
+                        | Array<BartScheduleTime & { '@line': string; '@trainHeadStation': string }>;
+                }>;
+            };
+        };
+    };
+}
+
+interface BartRoute {
+    name: string;
+    abbr: string;
+    routeID: string;
+    number: string;
+    hexcolor: string;
+    color: string;
+    direction?: string;
+}
+
+interface BartRouteInfo extends BartRoute {
+    origin: string;
+    destination: string;
+    config: {
+        station: string[];
+    };
+}
+
+export interface BartStation {
+    code: string;
+    name: string;
+    lat: number | null;
+    lon: number | null;
+}
+
+export interface BartLineRoute {
+    // BART's route number, e.g. "1"
+    number: string;
+    // Official name, e.g. "Antioch to SFIA/Millbrae"
+    name: string;
+    // 'n' or 's'
+    direction: string;
+    // Station codes
+    origin: string;
+    destination: string;
+    // Station codes in the order trains call at them
+    stations: string[];
+}
+
+export interface BartLine {
+    // Lower case, as lines are named everywhere else
+    color: string;
+    name: string;
+    hexcolor: string;
+    // One or more each way
+    routes: BartLineRoute[];
+}
+
+export interface BartStationLine {
+    color: string;
+    name: string;
+    hexcolor: string;
+    // Where the line's trains go from the station, one entry per route
+    directions: Array<{
+        direction: string;
+        route: string;
+        routeName: string;
+        destination: string;
+        destinationName: string;
+    }>;
+}
+
+/**
+ * Narrows a station's departure estimates. Each list matches any of its
+ * entries; leaving one out matches everything.
+ */
+export interface BartEstimateFilters {
+    direction?: 'n' | 's';
+    // Station codes trains terminate at
+    destinations?: string[];
+    platforms?: string[];
+    // Station code trains must call at after this one
+    via?: string;
+}
+
+const ADVISORY_SEVERITY: Record<string, ServiceAlertSeverity> = {
+    EMERGENCY: 'severe',
+    DELAY: 'warning',
+};
+
+export interface BartTripLeg {
+    origin: string;
+    destination: string;
+    // Line color, as used for routes elsewhere
+    line: string;
+    trainHeadStation: string;
+    departureTime: string;
+    arrivalTime: string;
+}
+
+export interface BartTrip {
+    departureTime: string;
+    arrivalTime: string;
+    legs: BartTripLeg[];
+}
+
+export class BartClient implements AgencyAdapter {
+    readonly info: AgencyInfo = {
+        code: 'bart',
+        name: 'BART',
+        timezone: 'America/Los_Angeles',
+        logo: '/images/bart.png',
+        active: true,
+    };
+
     private apiKey: string;
     private baseUrl = 'https://api.bart.gov/api';
+    private inflight = new InflightRequests();
+    private upstream: UpstreamHttp;
+    private cache: TransitCache | null;
 
-    constructor(apiKey: string) {
+    // The cache, if given, keeps line and station data
+    constructor(apiKey: string, upstream: UpstreamConfig = LIVE_UPSTREAM, cache: TransitCache | null = null) {
         this.apiKey = apiKey;
+        this.upstream = new UpstreamHttp('bart', 'BART', { timeoutMs: 5000, retries: 2 }, upstream);
+        this.cache = cache;
+    }
+
+    async getPredictions(query: PredictionQuery): Promise<TransitPrediction[]> {
+        const { stop, route, direction, destination, platform, via } = query;
+
+        // For BART, route is required and can be comma-separated
+        if (!route) {
+            throw new AgencyRequestError(
+                "Route parameter is required for BART. Specify one or more line colors (e.g., 'red' or 'red,yellow').",
+                400,
+                'route'
+            );
+        }
+
+        // Direction is required for BART unless a destination or via station
+        // already says which way
+        if (direction ? !['n', 's'].includes(direction.toLowerCase()) : !destination && !via) {
+            throw new AgencyRequestError(
+                "Direction parameter is required for BART unless destination or via is given. Use 'n' for north or 's' for south.",
+                400,
+                'direction'
+            );
+        }
+
+        const lines = route.split(',').map(l => l.trim());
+        return this.getEstimates(stop.toUpperCase(), lines, {
+            direction: direction ? direction.toLowerCase() as 'n' | 's' : undefined,
+            destinations: splitList(destination).map(code => code.toUpperCase()),
+            platforms: splitList(platform),
+            via: via?.trim().toUpperCase() || undefined,
+        });
     }
 
-    async getPredictions(
+    async getEstimates(
         station: string,
         lines: string[],
-        direction: 'n' | 's'
-    ): Promise<BartPrediction[]> {
+        filters: BartEstimateFilters = {}
+    ): Promise<TransitPrediction[]> {
+        const { direction, destinations = [], platforms = [], via } = filters;
         try {
-            const url = `${this.baseUrl}/etd.aspx?cmd=etd&orig=${station}&key=${this.apiKey}&json=y`;
-            const response = await fetch(url);
+            // Which trains call at the via station depends on the line's route
+            const lineData = via ? await this.viaLines(lines, via) : [];
+
+            const data = await this.fetchJson<BartEtdResponse>('etd.aspx', { cmd: 'etd', orig: station });
 
-            if (!response.ok) {
-                throw new Error(`BART API error: ${response.status}`);
+            // An unknown station comes back as a message rather than a status
+            if (data?.root?.message?.error && !data.root.station) {
+                throw new UnknownStopError(`Station ${station} not found`);
             }
 
-            const data = await response.json();
-            
             // Handle the nested structure from BART API
             if (!data?.root?.station?.[0]) {
                 return [];
             }
 
             const stationData = data.root.station[0];
-            const predictions: BartPrediction[] = [];
+            const predictions: TransitPrediction[] = [];
+
+            // Estimates count minutes from when BART generated them, not from now
+            const now = Date.now();
+            const generatedAt = parseEtdTime(data, this.info.timezone);
+            const freshness = predictionFreshness(generatedAt, now);
+            const estimatedFrom = generatedAt ? generatedAt.getTime() : now;
 
             for (const etd of stationData.etd || []) {
                 for (const estimate of etd.estimate || []) {
                     // Filter by direction (API returns "North"/"South", we expect "n"/"s")
                     const apiDirection = estimate.direction.toLowerCase().charAt(0);
                     const lineColor = estimate.color.toLowerCase();
-                    
-                    if (apiDirection !== direction) {
+
+                    if (direction && apiDirection !== direction) {
                         continue;
                     }
 
@@ -81,14 +324,25 @@ export class BartClient {
                         continue;
                     }
 
+                    if (destinations.length > 0 && !destinations.includes(etd.abbreviation.toUpperCase())) {
+                        continue;
+                    }
+
+                    if (platforms.length > 0 && !platforms.includes(estimate.platform)) {
+                        continue;
+                    }
+
+                    if (via && !callsAtLater(lineData, lineColor, apiDirection, stationData.abbr, etd.abbreviation, via)) {
+                        continue;
+                    }
+
                     // Skip cancelled trains
                     if (estimate.cancelflag === '1') {
                         continue;
                     }
 
-                    const now = new Date();
                     const minutesUntil = estimate.minutes === 'Leaving' ? 0 : parseInt(estimate.minutes);
-                    const arrivalTime = new Date(now.getTime() + minutesUntil * 60 * 1000);
+                    const arrivalTime = new Date(estimatedFrom + minutesUntil * 60 * 1000);
 
                     const prediction = {
                         arrivalTime: arrivalTime.toISOString(),
@@ -98,22 +352,658 @@ export class BartClient {
                         route: lineColor.toUpperCase(),
                         direction: etd.destination,
                         vehicleId: '', // BART doesn't provide vehicle IDs in ETD
-                        minutesUntilArrival: minutesUntil,
+                        minutesUntilArrival: Math.max(0, Math.round((arrivalTime.getTime() - now) / 60000)),
+                        source: 'realtime' as const,
+                        ...freshness,
                     };
-                    
+
                     predictions.push(prediction);
                 }
             }
 
             // Sort by arrival time
-            predictions.sort((a, b) => 
+            predictions.sort((a, b) =>
                 new Date(a.arrivalTime).getTime() - new Date(b.arrivalTime).getTime()
             );
-            
+
             return predictions;
         } catch (error) {
             console.error('BART API error:', error);
             throw error;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Estimated train positions on a line. BART doesn't publish positions,
+     * so trains are inferred from every station's departure estimates: when
+     * a station's next train on the line is due well before the previous
+     * station's next train could get there, it's a different train between
+     * the two, placed by how far out it is.
+     */
+    async getVehicles(route: string): Promise<TransitVehicle[]> {
+        const [routeInfos, stations, data] = await Promise.all([
+            this.getLineRouteInfo(route),
+            this.getStations(),
+            this.fetchJson<BartEtdResponse>('etd.aspx', { cmd: 'etd', orig: 'ALL' }),
+        ]);
+        const stationsByCode = new Map(stations.map(station => [station.code, station]));
+        const generatedAt = parseEtdTime(data, this.info.timezone);
+        const color = route.toLowerCase();
+
+        // Minutes until the line's next train toward each destination, by station
+        const nextTrain = new Map<string, number>();
+        for (const station of data?.root?.station || []) {
+            for (const etd of station.etd || []) {
+                for (const estimate of etd.estimate || []) {
+                    if (estimate.color.toLowerCase() !== color || estimate.cancelflag === '1') {
+                        continue;
+                    }
+                    const minutes = estimate.minutes === 'Leaving' ? 0 : parseInt(estimate.minutes);
+                    const key = `${station.abbr}|${etd.abbreviation}`;
+                    if (!nextTrain.has(key) || minutes < nextTrain.get(key)) {
+                        nextTrain.set(key, minutes);
+                    }
+                }
+            }
+        }
+
+        const vehicles: TransitVehicle[] = [];
+        for (const info of routeInfos) {
+            const path = info.config.station;
+            const destination = path[path.length - 1];
+            let previousMinutes = Infinity;
+
+            // Trains at the terminal are starting the other way, so stop short of it
+            for (let i = 0; i < path.length - 1; i++) {
+                const from = stationsByCode.get(path[i - 1]);
+                const to = stationsByCode.get(path[i]);
+                const minutes = nextTrain.get(`${path[i]}|${destination}`);
+                const isNewTrain = minutes !== undefined &&
+                    minutes < previousMinutes + segmentMinutes(from, to) / 2 &&
+                    // At the origin, only a train that's leaving is on the line yet
+                    (i > 0 || minutes === 0);
+                previousMinutes = minutes ?? Infinity;
+                if (!isNewTrain) {
+                    continue;
+                }
+
+                const position = trainPosition(from, to, minutes);
+                if (!position) {
+                    continue;
+                }
+                vehicles.push({
+                    vehicleId: '',
+                    route: color.toUpperCase(),
+                    ...position,
+                    speed: null,
+                    tripId: null,
+                    destination: stationsByCode.get(destination)?.name || destination,
+                    nextStopId: path[i],
+                    updatedAt: generatedAt ? generatedAt.toISOString() : null,
+                    source: 'estimated',
+                });
+            }
+        }
+
+        return vehicles;
+    }
+
+    async getStations(): Promise<BartStation[]> {
+        const data = await this.fetchJson<BartStationsResponse>('stn.aspx', { cmd: 'stns' });
+
+        if (!data?.root?.stations?.station) {
+            return [];
+        }
+
+        const stations = data.root.stations.station.map(station => ({
+            code: station.abbr,
+            name: station.name,
+            lat: station.gtfs_latitude ? parseFloat(station.gtfs_latitude) : null,
+            lon: station.gtfs_longitude ? parseFloat(station.gtfs_longitude) : null,
+        }));
+
+        // Sort alphabetically by name
+        stations.sort((a, b) => a.name.localeCompare(b.name));
+
+        return stations;
+    }
+
+    /**
+     * Every line with its routes each way, from BART's published routes
+     * rather than live estimates, so lines are known even when no trains
+     * are running. One request per route, so callers should cache it.
+     */
+    async getLines(): Promise<BartLine[]> {
+        const infos = await Promise.all((await this.getRouteList()).map(route => this.getRouteInfo(route)));
+        const lines = new Map<string, BartLine>();
+
+        for (const info of infos) {
+            const color = info.color.toLowerCase();
+            if (!lines.has(color)) {
+                lines.set(color, { color, name: lineName(color), hexcolor: info.hexcolor, routes: [] });
+            }
+            lines.get(color).routes.push({
+                number: info.number,
+                name: info.name,
+                direction: (info.direction || '').toLowerCase().charAt(0),
+                origin: info.origin,
+                destination: info.destination,
+                stations: info.config.station,
+            });
+        }
+
+        return Array.from(lines.values()).sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * getLines and getStations through the cache when there is one. Both
+     * change a few times a year but take several requests or a large one.
+     */
+    async getCachedLines(): Promise<BartLine[]> {
+        return this.cache ? this.cache.get('lines', 'bart', () => this.getLines()) : this.getLines();
+    }
+
+    async getCachedStations(): Promise<BartStation[]> {
+        return this.cache ? this.cache.get('stations', 'bart', () => this.getStations()) : this.getStations();
+    }
+
+    /**
+     * The requested lines, from the cache when there is one. Throws if none
+     * of them calls at the via station, which is a mistake in the query
+     * rather than a reason to return no trains.
+     */
+    private async viaLines(colors: string[], via: string): Promise<BartLine[]> {
+        const all = await this.getCachedLines();
+        const requested = colors.map(color => color.toLowerCase());
+        const lines = all.filter(line => requested.includes(line.color));
+
+        if (!lines.some(line => line.routes.some(route => route.stations.includes(via)))) {
+            throw new AgencyRequestError(`Station ${via} is not on route ${colors.join(',')}`, 400, 'via');
+        }
+        return lines;
+    }
+
+    async getRoutes(): Promise<TransitRoute[]> {
+        // BART publishes one route per line and direction; riders pick lines by color
+        const routes = await this.getRouteList();
+        const colors = new Map<string, TransitRoute>();
+
+        for (const route of routes) {
+            const color = route.color.toLowerCase();
+            if (!colors.has(color)) {
+                colors.set(color, {
+                    routeCode: color,
+                    routeName: lineName(color),
+                    routeType: 'rail',
+                    active: true,
+                });
+            }
+        }
+
+        return Array.from(colors.values()).sort((a, b) => a.routeName.localeCompare(b.routeName));
+    }
+
+    async getStops(route: string): Promise<TransitStop[]> {
+        const [routeInfos, stations] = await Promise.all([
+            this.getLineRouteInfo(route),
+            this.getStations(),
+        ]);
+
+        const served = new Set(routeInfos.flatMap(info => info.config.station));
+
+        return stations
+            .filter(station => served.has(station.code))
+            .map(station => ({
+                stopId: station.code,
+                stopCode: station.code,
+                stopName: station.name,
+                lat: station.lat,
+                lon: station.lon,
+            }));
+    }
+
+    /**
+     * Every station is a group of its own, with a direction for each
+     * destination the line's trains run to from it.
+     */
+    async getStopGroups(route: string): Promise<StopGroup[]> {
+        const [routeInfos, stations] = await Promise.all([
+            this.getLineRouteInfo(route),
+            this.getStations(),
+        ]);
+        const byCode = new Map(stations.map(s => [s.code, s]));
+
+        return buildStopGroups(this.info.code, routeInfos.map(info => ({
+            direction: (info.direction || '').toLowerCase().charAt(0),
+            destination: byCode.get(info.destination)?.name || info.destination,
+            // Trains terminating at a station don't offer a direction to board
+            stops: info.config.station.slice(0, -1)
+                .filter(code => byCode.has(code))
+                .map(code => {
+                    const station = byCode.get(code);
+                    return {
+                        stopId: station.code,
+                        stopCode: station.code,
+                        stopName: station.name,
+                        lat: station.lat,
+                        lon: station.lon,
+                    };
+                }),
+        })));
+    }
+
+    async getStopDirections(route: string, stop: string): Promise<TransitStopDirection[]> {
+        const station = stop.toUpperCase();
+        const [routeInfos, stations] = await Promise.all([
+            this.getLineRouteInfo(route),
+            this.getStations(),
+        ]);
+        const names = new Map(stations.map(s => [s.code, s.name]));
+        // One entry per direction and destination: a line can run short
+        // trips that end before its terminal
+        const directions = new Map<string, TransitStopDirection>();
+
+        for (const info of routeInfos) {
+            const stationOrder = info.config.station;
+            const index = stationOrder.indexOf(station);
+
+            // Trains terminating here don't offer a direction to board
+            if (index === -1 || index === stationOrder.length - 1) {
+                continue;
+            }
+
+            const direction = (info.direction || '').toLowerCase().charAt(0);
+            if (direction !== 'n' && direction !== 's') {
+                continue;
+            }
+
+            const key = `${direction}|${info.destination}`;
+            if (!directions.has(key)) {
+                directions.set(key, {
+                    direction,
+                    destination: names.get(info.destination) || info.destination,
+                    destinationId: info.destination,
+                    stopId: station,
+                });
+            }
+        }
+
+        if (directions.size === 0) {
+            throw new UnknownStopError(`Stop ${stop} not found on route ${route}`);
+        }
+
+        return Array.from(directions.values()).sort((a, b) =>
+            a.direction.localeCompare(b.direction) || a.destination.localeCompare(b.destination)
+        );
+    }
+
+    /**
+     * BART publishes no track geometry, so each direction's path runs
+     * straight from station to station in the order the line serves them.
+     */
+    async getRouteShapes(route: string): Promise<RouteShape[]> {
+        const [routeInfos, stations] = await Promise.all([
+            this.getLineRouteInfo(route),
+            this.getStations(),
+        ]);
+        const byCode = new Map(stations.map(s => [s.code, s]));
+        const shapes = new Map<string, RouteShape>();
+
+        for (const info of routeInfos) {
+            const direction = (info.direction || '').toLowerCase().charAt(0);
+            if (direction !== 'n' && direction !== 's') {
+                continue;
+            }
+
+            const stops = info.config.station
+                .map(code => byCode.get(code))
+                .filter(Boolean)
+                .map(station => ({
+                    stopId: station.code,
+                    stopCode: station.code,
+                    stopName: station.name,
+                    lat: station.lat,
+                    lon: station.lon,
+                }));
+
+            // Where a line has more than one route each way, keep the longest
+            if (stops.length > (shapes.get(direction)?.stops.length ?? 0)) {
+                shapes.set(direction, {
+                    direction,
+                    destination: byCode.get(info.destination)?.name || info.destination,
+                    path: stops
+                        .filter(stop => stop.lat !== null && stop.lon !== null)
+                        .map(stop => ({ lat: stop.lat, lon: stop.lon })),
+                    stops,
+                });
+            }
+        }
+
+        return Array.from(shapes.values()).sort((a, b) => a.direction.localeCompare(b.direction));
+    }
+
+    async getAlerts(query: AlertQuery): Promise<ServiceAlert[]> {
+        const data = await this.fetchJson<{ root: { bsa: BartAdvisory | BartAdvisory[] } }>('bsa.aspx', { cmd: 'bsa' });
+
+        return toArray(data?.root?.bsa)
+            // With nothing to report BART returns a single "No delays reported." entry without an id
+            .filter(advisory => advisory['@id'])
+            .map(advisory => ({
+                id: advisory['@id'],
+                agency: this.info.code,
+                severity: ADVISORY_SEVERITY[advisory.type] || 'info',
+                // The SMS text is BART's short form of the advisory
+                header: advisory.sms_text?.['#cdata-section'] || `BART ${(advisory.type || 'advisory').toLowerCase()}`,
+                description: advisory.description?.['#cdata-section'] || '',
+                routes: [],
+                // "BART" marks a system-wide advisory
+                stops: advisory.station && advisory.station !== 'BART' ? [advisory.station.toUpperCase()] : [],
+                activeFrom: parseBartTimestamp(advisory.posted),
+                activeUntil: parseBartTimestamp(advisory.expires),
+                url: 'https://www.bart.gov/schedules/advisories',
+            }))
+            .filter(alert => alertApplies(alert, query));
+    }
+
+    async getSchedule(query: ScheduleQuery): Promise<ScheduledDeparture[]> {
+        const station = query.stop.toUpperCase();
+        const [year, month, day] = query.date.split('-');
+
+        // Schedule items name BART's numbered routes; map them back to the
+        // requested line colors and their direction of travel
+        const routes = new Map<string, { color: string, direction: string }>();
+        for (const color of query.route.split(',').map(l => l.trim().toLowerCase())) {
+            for (const info of await this.getLineRouteInfo(color)) {
+                routes.set(info.number, { color, direction: (info.direction || '').toLowerCase().charAt(0) });
+            }
+        }
+
+        const [data, stations] = await Promise.all([
+            this.fetchJson<BartStationScheduleResponse>('sched.aspx', {
+                cmd: 'stnsched',
+                orig: station,
+                date: `${month}/${day}/${year}`,
+            }),
+            this.getStations(),
+        ]);
+        const names = new Map(stations.map(s => [s.code, s.name]));
+        const stationData = data?.root?.station;
+
+        const departures: ScheduledDeparture[] = [];
+        for (const item of toArray(stationData?.item)) {
+            const route = routes.get(item['@line'].replace(/^ROUTE\s*/i, ''));
+            const destination = item['@trainHeadStation'];
+            if (!route || destination === station) {
+                continue;
+            }
+
+            departures.push({
+                departureTime: zonedTimeToUtc(query.date, toServiceDayTime(item['@origTime']), this.info.timezone).toISOString(),
+                stopId: station,
+                stopName: stationData.name,
+                route: route.color.toUpperCase(),
+                direction: route.direction,
+                destination: names.get(destination) || destination,
+                destinationId: destination,
+            });
+        }
+
+        return departures.sort((a, b) => a.departureTime.localeCompare(b.departureTime));
+    }
+
+    /**
+     * BART's stnsched already follows its holiday calendar, so this only
+     * says which timetable that is.
+     */
+    async getServiceDay(date: string): Promise<ServiceDay> {
+        const data = await this.fetchJson<{ root: { holidays: { holiday: BartHoliday | BartHoliday[] } } }>(
+            'sched.aspx',
+            { cmd: 'holiday' }
+        );
+        const [year, month, day] = date.split('-');
+        const holiday = toArray(data?.root?.holidays?.holiday)
+            .find(h => h.date.trim() === `${month}/${day}/${year}`);
+
+        if (!holiday) {
+            return { date, schedule: weekdaySchedule(date), holiday: null };
+        }
+        return {
+            date,
+            schedule: holiday.schedule_type.toLowerCase() === 'saturday' ? 'saturday' : 'sunday',
+            holiday: holiday.name,
+        };
+    }
+
+    /**
+     * Scheduled trips between two stations departing after a time, from
+     * BART's own planner, including any train-to-train transfers.
+     */
+    async planTrip(origin: string, destination: string, after: Date): Promise<BartTrip[]> {
+        const [year, month, day] = zonedDate(after, this.info.timezone).split('-');
+        const time = after.toLocaleTimeString('en-US', {
+            timeZone: this.info.timezone,
+            hour: 'numeric',
+            minute: '2-digit',
+        }).replace(/\s/g, '').toLowerCase();
+
+        const [data, routes] = await Promise.all([
+            this.fetchJson<BartDepartResponse>('sched.aspx', {
+                cmd: 'depart',
+                orig: origin.toUpperCase(),
+                dest: destination.toUpperCase(),
+                date: `${month}/${day}/${year}`,
+                time,
+                b: '0',
+                a: '3',
+            }),
+            this.getRouteList(),
+        ]);
+        const colors = new Map(routes.map(route => [route.number, route.color.toLowerCase()]));
+
+        return toArray(data?.root?.schedule?.request?.trip).map(trip => ({
+            departureTime: parseBartScheduleTime(trip['@origTimeDate'], trip['@origTimeMin'], this.info.timezone),
+            arrivalTime: parseBartScheduleTime(trip['@destTimeDate'], trip['@destTimeMin'], this.info.timezone),
+            legs: toArray(trip.leg).map(leg => ({
+                origin: leg['@origin'],
+                destination: leg['@destination'],
+                line: colors.get(leg['@line'].replace(/^ROUTE\s*/i, '')) || leg['@line'],
+                trainHeadStation: leg['@trainHeadStation'],
+                departureTime: parseBartScheduleTime(leg['@origTimeDate'], leg['@origTimeMin'], this.info.timezone),
+                arrivalTime: parseBartScheduleTime(leg['@destTimeDate'], leg['@destTimeMin'], this.info.timezone),
+            })),
+        }));
+    }
+
+    private async getRouteList(): Promise<BartRoute[]> {
+        const data = await this.fetchJson<{ root: { routes: { route: BartRoute | BartRoute[] } } }>(
+            'route.aspx',
+            { cmd: 'routes' }
+        );
+        return toArray(data?.root?.routes?.route);
+    }
+
+    private async getLineRouteInfo(color: string): Promise<BartRouteInfo[]> {
+        const routes = (await this.getRouteList())
+            .filter(route => route.color.toLowerCase() === color.toLowerCase());
+
+        if (routes.length === 0) {
+            throw new UnknownRouteError(color);
+        }
+
+        return Promise.all(routes.map(route => this.getRouteInfo(route)));
+    }
+
+    private async getRouteInfo(route: BartRoute): Promise<BartRouteInfo> {
+        const data = await this.fetchJson<{ root: { routes: { route: BartRouteInfo | BartRouteInfo[] } } }>(
+            'route.aspx',
+            { cmd: 'routeinfo', route: route.number }
+        );
+        const info = toArray(data?.root?.routes?.route)[0];
+        return {
+            ...info,
+            direction: info.direction || route.direction,
+            config: { station: toArray(info.config?.station) },
+        };
+    }
+
+    private fetchJson<T>(endpoint: string, params: Record<string, string>): Promise<T> {
+        const url = new URL(`${this.baseUrl}/${endpoint}`);
+        for (const [key, value] of Object.entries(params)) {
+            url.searchParams.append(key, value);
+        }
+
+        const key = url.toString();
+        return this.inflight.run(key, () => {
+            url.searchParams.append('key', this.apiKey);
+            url.searchParams.append('json', 'y');
+            return this.upstream.get(url.toString(), key, response => response.json() as Promise<T>);
+        });
+    }
+}
+
+// "YELLOW" or "yellow" to "Yellow Line"
+function lineName(color: string): string {
+    return `${color.charAt(0).toUpperCase()}${color.slice(1).toLowerCase()} Line`;
+}
+
+/**
+ * The lines trains can be boarded on at a station, and where each goes from
+ * there. Routes that end at the station don't count.
+ */
+export function linesAtStation(lines: BartLine[], stations: BartStation[], station: string): BartStationLine[] {
+    const code = station.toUpperCase();
+    if (!stations.some(s => s.code === code)) {
+        throw new UnknownStopError(`Station ${station} not found`, 'station');
+    }
+    const names = new Map(stations.map(s => [s.code, s.name]));
+
+    return lines
+        .map(line => ({
+            color: line.color,
+            name: line.name,
+            hexcolor: line.hexcolor,
+            directions: line.routes
+                .filter(route => {
+                    const index = route.stations.indexOf(code);
+                    return index !== -1 && index < route.stations.length - 1;
+                })
+                .map(route => ({
+                    direction: route.direction,
+                    route: route.number,
+                    routeName: route.name,
+                    destination: route.destination,
+                    destinationName: names.get(route.destination) || route.destination,
+                }))
+                .sort((a, b) => a.direction.localeCompare(b.direction)),
+        }))
+        .filter(line => line.directions.length > 0);
+}
+
+/**
+ * Whether a train on a line, heading one way from a station toward a
+ * destination, calls at the via station afterwards. Any of the line's routes
+ * that way through the station will do, as long as via comes before the
+ * train's destination.
+ */
+function callsAtLater(
+    lines: BartLine[],
+    color: string,
+    direction: string,
+    origin: string,
+    destination: string,
+    via: string
+): boolean {
+    const line = lines.find(l => l.color === color);
+    return !!line && line.routes
+        .filter(route => route.direction === direction)
+        .some(route => {
+            const from = route.stations.indexOf(origin);
+            const to = route.stations.indexOf(via);
+            const end = route.stations.indexOf(destination);
+            return from !== -1 && to > from && (end === -1 || to <= end);
+        });
+}
+
+// "a, b" to ["a", "b"]
+function splitList(value: string | undefined): string[] {
+    return value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+}
+
+// Advisory times look like "Thu Oct 19 2026 03:20 AM PDT"
+function parseBartTimestamp(value: string | undefined): string | null {
+    const time = value ? Date.parse(value) : NaN;
+    return isNaN(time) ? null : new Date(time).toISOString();
+}
+
+// Converts "8:05 PM" to "20:05" and "08:38:47 PM" to "20:38:47"
+function to24HourTime(time: string): string {
+    const [, hourText, minutes, seconds, meridiem] = /(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)/i.exec(time);
+    const hours = parseInt(hourText) % 12 + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+    return seconds ? `${hours}:${minutes}:${seconds}` : `${hours}:${minutes}`;
+}
+
+// Converts "12:15 AM" to "24:15": trains after midnight run on the previous
+// service day, which starts around 4 AM
+function toServiceDayTime(time: string): string {
+    const [hours, minutes] = to24HourTime(time).split(':');
+    return `${parseInt(hours) < 3 ? parseInt(hours) + 24 : hours}:${minutes}`;
+}
+
+// Planner and estimate times come as a calendar date ("10/18/2026 ") and a
+// time ("8:05 PM"), in the agency's zone whatever abbreviation follows
+function parseBartScheduleTime(date: string, time: string, timezone: string): string {
+    const [month, day, year] = date.trim().split('/');
+    return zonedTimeToUtc(`${year}-${month}-${day}`, to24HourTime(time), timezone).toISOString();
+}
+
+// When a set of departure estimates was generated, if BART says
+function parseEtdTime(data: BartEtdResponse, timezone: string): Date | null {
+    if (!data?.root?.date || !/\d:\d{2}:\d{2}\s*(AM|PM)/i.test(data.root.time || '')) {
+        return null;
+    }
+    return new Date(parseBartScheduleTime(data.root.date, data.root.time, timezone));
+}
+
+// Average speed between stations including stops, for placing trains
+const TRAIN_METERS_PER_MINUTE = 750;
+
+// Rough minutes a train takes between two stations, or 0 if either is unplaced
+function segmentMinutes(from: BartStation | undefined, to: BartStation | undefined): number {
+    if (!from || !to || from.lat === null || from.lon === null || to.lat === null || to.lon === null) {
+        return 0;
+    }
+    return distanceMeters(from.lat, from.lon, to.lat, to.lon) / TRAIN_METERS_PER_MINUTE;
+}
+
+// Where a train due at a station in some minutes is, coming from the station
+// before it (if any), and which way it's heading
+function trainPosition(
+    from: BartStation | undefined,
+    to: BartStation | undefined,
+    minutes: number
+): { lat: number; lon: number; heading: number | null } | null {
+    if (!to || to.lat === null || to.lon === null) {
+        return null;
+    }
+    if (!from || from.lat === null || from.lon === null) {
+        return { lat: to.lat, lon: to.lon, heading: null };
+    }
+
+    const heading = Math.round(bearingDegrees(from.lat, from.lon, to.lat, to.lon));
+    const travel = segmentMinutes(from, to);
+    // A train further out than the trip between stations takes is still at the previous one
+    const progress = travel > 0 ? Math.max(0, 1 - minutes / travel) : 1;
+    return {
+        lat: from.lat + (to.lat - from.lat) * progress,
+        lon: from.lon + (to.lon - from.lon) * progress,
+        heading,
+    };
+}
+
+// BART's XML-to-JSON conversion collapses single-element lists into objects
+function toArray<T>(value: T | T[] | undefined): T[] {
+    if (value === undefined || value === null) {
+        return [];
+    }
+    return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,439 @@
+import {
+	UnknownRouteError,
+	UnknownStopError,
+	weekdaySchedule,
+	type AgencyAdapter,
+	type AgencyInfo,
+	type PredictionQuery,
+	type RouteShape,
+	type ScheduleQuery,
+	type ScheduledDeparture,
+	type ServiceDay,
+	type ServiceAlert,
+	type StopGroup,
+	type TransitPrediction,
+	type TransitRoute,
+	type TransitStop,
+	type TransitStopDirection,
+	type TransitVehicle,
+} from "./AgencyAdapter";
+import { GtfsRealtimeClient, stopTimeKey, type IncompleteTrips, type StaticTrips } from "./GtfsRealtimeClient";
+import { LIVE_UPSTREAM, type UpstreamConfig } from "./UpstreamHttp";
+import { addDays, zonedDate, zonedTimeToUtc } from "./time";
+import { buildStopGroups } from "../stops/stopGroups";
+
+export interface GtfsFeed {
+	feed_id: string;
+	name: string;
+	timezone: string;
+	url: string | null;
+	realtime_url: string | null;
+	imported_at: string;
+}
+
+// GTFS route_type values (https://gtfs.org/schedule/reference/#routestxt)
+const ROUTE_TYPES: Record<number, string> = {
+	0: "tram",
+	1: "subway",
+	2: "rail",
+	3: "bus",
+	4: "ferry",
+	5: "cable_tram",
+	6: "aerial_lift",
+	7: "funicular",
+	11: "trolleybus",
+	12: "monorail",
+};
+
+interface ScheduleRow {
+	departure_time: string | null;
+	arrival_time: string | null;
+	stop_id: string;
+	stop_code: string | null;
+	stop_name: string;
+	direction_id: number | null;
+	headsign: string | null;
+}
+
+// gtfs_calendar columns, indexed by Date.getUTCDay()
+const WEEKDAY_COLUMNS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+// D1 allows at most 100 bound parameters per statement
+const MAX_BOUND_PARAMETERS = 100;
+const MAX_BOUND_IDS = 90;
+
+/**
+ * Serves routes, stops, directions and schedules for a GTFS static feed
+ * imported into D1, and predictions from the feed's GTFS-Realtime
+ * TripUpdates URL if it has one.
+ */
+export class GtfsClient implements AgencyAdapter {
+	readonly info: AgencyInfo;
+	private readonly db: D1Database;
+	private readonly feedId: string;
+	private readonly realtime: GtfsRealtimeClient | null;
+
+	constructor(db: D1Database, feed: GtfsFeed, upstream: UpstreamConfig = LIVE_UPSTREAM) {
+		this.db = db;
+		this.feedId = feed.feed_id;
+		this.realtime = feed.realtime_url
+			? new GtfsRealtimeClient(feed.feed_id, feed.name, feed.realtime_url, upstream)
+			: null;
+		this.info = {
+			code: feed.feed_id,
+			name: feed.name,
+			timezone: feed.timezone,
+			logo: null,
+			active: true,
+		};
+	}
+
+	static async getFeed(db: D1Database, feedId: string): Promise<GtfsFeed | null> {
+		return db.prepare("SELECT * FROM gtfs_feeds WHERE feed_id = ?").bind(feedId).first<GtfsFeed>();
+	}
+
+	static async listFeeds(db: D1Database): Promise<GtfsFeed[]> {
+		const { results } = await db.prepare("SELECT * FROM gtfs_feeds ORDER BY name").all<GtfsFeed>();
+		return results;
+	}
+
+	async getPredictions(query: PredictionQuery): Promise<TransitPrediction[]> {
+		// Without a realtime feed there is nothing live; callers fall back to the schedule
+		if (!this.realtime) {
+			return [];
+		}
+
+		const stopIds = query.stop.split(",").map(id => id.trim());
+		const feed = await this.realtime.getFeed();
+		const now = Date.now();
+		const trips = await this.staticTrips(GtfsRealtimeClient.incompleteTrips(feed, stopIds), stopIds, now);
+		const predictions = GtfsRealtimeClient.toPredictions(feed, stopIds, query.route, now, trips);
+
+		// The realtime feed only carries IDs; names and headsigns come from the static feed
+		const stopNames = await this.lookup("gtfs_stops", "stop_id", "name", stopIds);
+		const headsigns = await this.lookup("gtfs_trips", "trip_id", "headsign", predictions.map(p => p.tripId));
+
+		const direction = query.direction?.toLowerCase();
+
+		return predictions
+			.map(prediction => ({
+				...prediction,
+				stopName: stopNames.get(prediction.stopId) || prediction.stopId,
+				direction: headsigns.get(prediction.tripId) || prediction.direction,
+			}))
+			// Direction may be a GTFS direction_id or part of the headsign
+			.filter(p => !direction ||
+				p.directionId?.toString() === direction ||
+				p.direction.toLowerCase().includes(direction))
+			.map(({ tripId, directionId, ...prediction }) => prediction);
+	}
+
+	async getRoutes(): Promise<TransitRoute[]> {
+		const { results } = await this.db.prepare(
+			"SELECT route_id, short_name, long_name, route_type FROM gtfs_routes WHERE feed_id = ?"
+		).bind(this.feedId).all<{ route_id: string; short_name: string | null; long_name: string | null; route_type: number | null }>();
+
+		return results.map(route => ({
+			routeCode: route.route_id,
+			routeName: route.short_name && route.long_name
+				? `${route.short_name} - ${route.long_name}`
+				: route.long_name || route.short_name || route.route_id,
+			routeType: route.route_type === null ? null : ROUTE_TYPES[route.route_type] ?? null,
+			active: true,
+		})).sort((a, b) => a.routeCode.localeCompare(b.routeCode, undefined, { numeric: true }));
+	}
+
+	async getStops(route: string): Promise<TransitStop[]> {
+		const { results } = await this.db.prepare(
+			`SELECT DISTINCT s.stop_id, s.stop_code, s.name, s.lat, s.lon
+			FROM gtfs_route_stops rs
+			JOIN gtfs_stops s ON s.feed_id = rs.feed_id AND s.stop_id = rs.stop_id
+			WHERE rs.feed_id = ? AND rs.route_id = ?
+			ORDER BY s.name`
+		).bind(this.feedId, route).all<{ stop_id: string; stop_code: string | null; name: string; lat: number | null; lon: number | null }>();
+
+		if (results.length === 0) {
+			throw new UnknownRouteError(route);
+		}
+
+		return results.map(stop => ({
+			stopId: stop.stop_id,
+			stopCode: stop.stop_code || stop.stop_id,
+			stopName: stop.name,
+			lat: stop.lat,
+			lon: stop.lon,
+		}));
+	}
+
+	async getStopDirections(route: string, stop: string): Promise<TransitStopDirection[]> {
+		// Accept comma-separated stop IDs like the other agencies do
+		const stopIds = stop.split(",").map(id => id.trim());
+
+		const rows: Array<{ direction_id: number; headsign: string | null; stop_id: string }> = [];
+		for (const chunk of chunked(stopIds, MAX_BOUND_IDS)) {
+			const { results } = await this.db.prepare(
+				`SELECT direction_id, headsign, stop_id FROM gtfs_route_stops
+				WHERE feed_id = ? AND route_id = ? AND stop_id IN (${chunk.map(() => "?").join(", ")})
+				ORDER BY direction_id`
+			).bind(this.feedId, route, ...chunk).all<{ direction_id: number; headsign: string | null; stop_id: string }>();
+			rows.push(...results);
+		}
+
+		// Each direction once, at the first of the stops it calls at
+		const directionsMap = new Map<number, TransitStopDirection>();
+		for (const row of rows.sort((a, b) => a.direction_id - b.direction_id)) {
+			if (!directionsMap.has(row.direction_id)) {
+				directionsMap.set(row.direction_id, {
+					direction: row.direction_id.toString(),
+					destination: row.headsign || "",
+					destinationId: null,
+					stopId: row.stop_id,
+				});
+			}
+		}
+
+		if (directionsMap.size === 0) {
+			throw new UnknownStopError(`Stop ${stop} not found on route ${route}`);
+		}
+
+		return Array.from(directionsMap.values());
+	}
+
+	/**
+	 * With publicCodes, stops are matched by stop_code and routes by short
+	 * name too, for agencies whose own APIs use those rather than the feed's
+	 * IDs. Departures then give the stop code as their stop ID.
+	 */
+	async getSchedule(query: ScheduleQuery, options: { publicCodes?: boolean } = {}): Promise<ScheduledDeparture[]> {
+		const stopIds = query.stop.split(",").map(id => id.trim());
+		const services = servicesOn(this.feedId, query.date);
+		const routeMatch = options.publicCodes
+			? "t.route_id IN (SELECT route_id FROM gtfs_routes WHERE feed_id = ? AND (route_id = ? OR short_name = ?))"
+			: "t.route_id = ?";
+		const routeParams = options.publicCodes ? [this.feedId, query.route, query.route] : [query.route];
+
+		// Large stop groups take several queries, each within the parameter limit
+		const fixedParams = services.params.length + routeParams.length + (options.publicCodes ? 2 : 1);
+		const rows: ScheduleRow[] = [];
+		for (const chunk of chunked(stopIds, MAX_BOUND_PARAMETERS - fixedParams)) {
+			const placeholders = chunk.map(() => "?").join(", ");
+			// As a list of stop IDs either way, so the stop_times index is used
+			const stopMatch = options.publicCodes
+				? `st.stop_id IN (SELECT stop_id FROM gtfs_stops WHERE feed_id = ? AND stop_code IN (${placeholders}))`
+				: `st.stop_id IN (${placeholders})`;
+			const stopParams = options.publicCodes ? [this.feedId, ...chunk] : chunk;
+
+			// Trips ending at the stop don't depart it
+			const { results } = await this.db.prepare(
+				`WITH services AS (${services.sql})
+				SELECT st.departure_time, st.arrival_time, st.stop_id, s.stop_code, s.name AS stop_name, t.direction_id, t.headsign
+				FROM gtfs_stop_times st
+				JOIN gtfs_trips t ON t.feed_id = st.feed_id AND t.trip_id = st.trip_id
+				JOIN gtfs_stops s ON s.feed_id = st.feed_id AND s.stop_id = st.stop_id
+				WHERE st.feed_id = ? AND ${stopMatch} AND ${routeMatch}
+					AND t.service_id IN (SELECT service_id FROM services)
+					AND st.stop_sequence < (SELECT MAX(stop_sequence) FROM gtfs_stop_times WHERE feed_id = st.feed_id AND trip_id = st.trip_id)`
+			).bind(...services.params, this.feedId, ...stopParams, ...routeParams).all<ScheduleRow>();
+			rows.push(...results);
+		}
+
+		return rows
+			.filter(row => row.departure_time || row.arrival_time)
+			.map(row => ({
+				departureTime: zonedTimeToUtc(query.date, row.departure_time || row.arrival_time, this.info.timezone).toISOString(),
+				stopId: options.publicCodes && row.stop_code ? row.stop_code : row.stop_id,
+				stopName: row.stop_name,
+				route: query.route,
+				direction: row.direction_id === null ? "" : row.direction_id.toString(),
+				destination: row.headsign || "",
+				destinationId: null,
+			}))
+			.sort((a, b) => a.departureTime.localeCompare(b.departureTime));
+	}
+
+	/**
+	 * A weekday is taken as a holiday when calendar_dates.txt removes
+	 * service the week would run. It runs the weekend timetable whose days
+	 * the services added instead keep. GTFS doesn't name holidays.
+	 */
+	async getServiceDay(date: string): Promise<ServiceDay> {
+		const schedule = weekdaySchedule(date);
+		if (schedule !== "weekday") {
+			return { date, schedule, holiday: null };
+		}
+
+		const [year, month, day] = date.split("-").map(n => parseInt(n));
+		const weekday = WEEKDAY_COLUMNS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+		const serviceDate = date.replace(/-/g, "");
+		const { results } = await this.db.prepare(
+			`SELECT cd.exception_type, c.${weekday} AS weekday, c.saturday, c.sunday
+			FROM gtfs_calendar_dates cd
+			LEFT JOIN gtfs_calendar c ON c.feed_id = cd.feed_id AND c.service_id = cd.service_id
+			WHERE cd.feed_id = ? AND cd.date = ?`
+		).bind(this.feedId, serviceDate).all<{ exception_type: number; weekday: number | null; saturday: number | null; sunday: number | null }>();
+
+		if (!results.some(row => row.exception_type === 2 && row.weekday === 1)) {
+			return { date, schedule, holiday: null };
+		}
+		const added = results.filter(row => row.exception_type === 1);
+		const saturdayOnly = added.some(row => row.saturday === 1) && !added.some(row => row.sunday === 1);
+		return { date, schedule: saturdayOnly ? "saturday" : "sunday", holiday: "Holiday" };
+	}
+
+	/**
+	 * shapes.txt isn't imported, so each direction's path joins the stops of
+	 * its trip with the most stops.
+	 */
+	async getRouteShapes(route: string): Promise<RouteShape[]> {
+		const { results: trips } = await this.db.prepare(
+			`SELECT t.trip_id, t.direction_id, t.headsign, COUNT(*) AS stop_count
+			FROM gtfs_trips t
+			JOIN gtfs_stop_times st ON st.feed_id = t.feed_id AND st.trip_id = t.trip_id
+			WHERE t.feed_id = ? AND t.route_id = ?
+			GROUP BY t.trip_id
+			ORDER BY stop_count DESC`
+		).bind(this.feedId, route).all<{ trip_id: string; direction_id: number | null; headsign: string | null; stop_count: number }>();
+
+		if (trips.length === 0) {
+			throw new UnknownRouteError(route);
+		}
+
+		const longestTrips = new Map<string, typeof trips[number]>();
+		for (const trip of trips) {
+			const direction = trip.direction_id === null ? "" : trip.direction_id.toString();
+			if (!longestTrips.has(direction)) {
+				longestTrips.set(direction, trip);
+			}
+		}
+
+		const shapes: RouteShape[] = [];
+		for (const [direction, trip] of longestTrips) {
+			const { results } = await this.db.prepare(
+				`SELECT s.stop_id, s.stop_code, s.name, s.lat, s.lon
+				FROM gtfs_stop_times st
+				JOIN gtfs_stops s ON s.feed_id = st.feed_id AND s.stop_id = st.stop_id
+				WHERE st.feed_id = ? AND st.trip_id = ?
+				ORDER BY st.stop_sequence`
+			).bind(this.feedId, trip.trip_id).all<{ stop_id: string; stop_code: string | null; name: string; lat: number | null; lon: number | null }>();
+
+			const stops = results.map(stop => ({
+				stopId: stop.stop_id,
+				stopCode: stop.stop_code || stop.stop_id,
+				stopName: stop.name,
+				lat: stop.lat,
+				lon: stop.lon,
+			}));
+			shapes.push({
+				direction,
+				destination: trip.headsign || stops[stops.length - 1]?.stopName || "",
+				path: stops
+					.filter(stop => stop.lat !== null && stop.lon !== null)
+					.map(stop => ({ lat: stop.lat, lon: stop.lon })),
+				stops,
+			});
+		}
+
+		return shapes.sort((a, b) => a.direction.localeCompare(b.direction));
+	}
+
+	/**
+	 * Stops grouped by name along each direction's longest trip, as for
+	 * shapes, so stops only short trips serve are left out.
+	 */
+	async getStopGroups(route: string): Promise<StopGroup[]> {
+		return buildStopGroups(this.info.code, await this.getRouteShapes(route));
+	}
+
+	async getAlerts(): Promise<ServiceAlert[]> {
+		// Imported feeds only carry TripUpdates, not GTFS-Realtime service alerts
+		return [];
+	}
+
+	async getVehicles(): Promise<TransitVehicle[]> {
+		// Nor VehiclePositions
+		return [];
+	}
+
+	/**
+	 * Routes and scheduled stop times from the static feed for the trips a
+	 * realtime feed leaves incomplete.
+	 */
+	private async staticTrips(incomplete: IncompleteTrips, stopIds: string[], now: number): Promise<StaticTrips> {
+		const routes = await this.lookup("gtfs_trips", "trip_id", "route_id", incomplete.withoutRoute);
+		const stopTimes: StaticTrips["stopTimes"] = new Map();
+		const today = zonedDate(new Date(now), this.info.timezone);
+
+		for (const chunk of chunked(Array.from(incomplete.delayOnly.keys()), MAX_BOUND_IDS)) {
+			const { results } = await this.db.prepare(
+				`SELECT trip_id, stop_id, arrival_time, departure_time FROM gtfs_stop_times
+				WHERE feed_id = ? AND trip_id IN (${chunk.map(() => "?").join(", ")})`
+			).bind(this.feedId, ...chunk).all<{ trip_id: string; stop_id: string; arrival_time: string | null; departure_time: string | null }>();
+
+			for (const row of results.filter(row => stopIds.includes(row.stop_id))) {
+				const startDate = incomplete.delayOnly.get(row.trip_id);
+				// Without a start date, a time past midnight belongs to a trip
+				// that started the day before
+				const serviceDay = (time: string) => startDate
+					? `${startDate.slice(0, 4)}-${startDate.slice(4, 6)}-${startDate.slice(6, 8)}`
+					: parseInt(time) >= 24 ? addDays(today, -1) : today;
+				const seconds = (time: string | null) => time
+					? zonedTimeToUtc(serviceDay(time), time, this.info.timezone).getTime() / 1000
+					: null;
+				stopTimes.set(stopTimeKey(row.trip_id, row.stop_id), {
+					arrival: seconds(row.arrival_time),
+					departure: seconds(row.departure_time),
+				});
+			}
+		}
+
+		return { routes, stopTimes };
+	}
+
+	private async lookup(table: string, keyColumn: string, valueColumn: string, keys: string[]): Promise<Map<string, string>> {
+		const values = new Map<string, string>();
+		const uniqueKeys = Array.from(new Set(keys.filter(Boolean)));
+
+		for (const chunk of chunked(uniqueKeys, MAX_BOUND_IDS)) {
+			const { results } = await this.db.prepare(
+				`SELECT ${keyColumn} AS key, ${valueColumn} AS value FROM ${table}
+				WHERE feed_id = ? AND ${keyColumn} IN (${chunk.map(() => "?").join(", ")})`
+			).bind(this.feedId, ...chunk).all<{ key: string; value: string | null }>();
+
+			for (const row of results) {
+				if (row.value) {
+					values.set(row.key, row.value);
+				}
+			}
+		}
+
+		return values;
+	}
+}
+
+function chunked<T>(items: T[], size: number): T[][] {
+	const chunks: T[][] = [];
+	for (let i = 0; i < items.length; i += size) {
+		chunks.push(items.slice(i, i + size));
+	}
+	return chunks;
+}
+
+/**
+ * SQL selecting the service_ids that run on a YYYY-MM-DD date: those
+ * calendar.txt runs on its weekday, plus calendar_dates.txt's additions for
+ * the date, less its removals. Its parameters come before the query's own.
+ */
+function servicesOn(feedId: string, date: string): { sql: string; params: string[] } {
+	const [year, month, day] = date.split("-").map(n => parseInt(n));
+	const weekday = WEEKDAY_COLUMNS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+	const serviceDate = date.replace(/-/g, "");
+
+	return {
+		sql: `SELECT service_id FROM gtfs_calendar
+			WHERE feed_id = ? AND ${weekday} = 1 AND start_date <= ? AND end_date >= ?
+				AND service_id NOT IN (SELECT service_id FROM gtfs_calendar_dates WHERE feed_id = ? AND date = ? AND exception_type = 2)
+			UNION
+			SELECT service_id FROM gtfs_calendar_dates WHERE feed_id = ? AND date = ? AND exception_type = 1`,
+		params: [feedId, serviceDate, serviceDate, feedId, serviceDate, feedId, serviceDate],
+	};
+}
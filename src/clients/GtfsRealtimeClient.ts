@@ -0,0 +1,201 @@
+import { transit_realtime } from "gtfs-realtime-bindings";
+import { predictionFreshness, type TransitPrediction } from "./AgencyAdapter";
+import { InflightRequests } from "./InflightRequests";
+import { LIVE_UPSTREAM, UpstreamHttp, type UpstreamConfig } from "./UpstreamHttp";
+
+export interface GtfsRealtimePrediction extends TransitPrediction {
+	tripId: string;
+	directionId: number | null;
+}
+
+/**
+ * What the static feed says about trips a realtime feed describes only in
+ * part, filled in by callers that have it.
+ */
+export interface StaticTrips {
+	// route_id of trips the feed gives by trip_id alone
+	routes: Map<string, string>;
+	// Scheduled times in epoch seconds, by stopTimeKey, that delay-only
+	// stop updates count from
+	stopTimes: Map<string, { arrival: number | null; departure: number | null }>;
+}
+
+export interface IncompleteTrips {
+	// Trips without a route_id
+	withoutRoute: string[];
+	// Trips with a delay but no time at one of the stops, with their start
+	// date (YYYYMMDD) when the feed gives one
+	delayOnly: Map<string, string | null>;
+}
+
+export function stopTimeKey(tripId: string, stopId: string): string {
+	return `${tripId}|${stopId}`;
+}
+
+const { ScheduleRelationship: StopScheduleRelationship } = transit_realtime.TripUpdate.StopTimeUpdate;
+const { ScheduleRelationship: TripScheduleRelationship } = transit_realtime.TripDescriptor;
+
+/**
+ * Reads predictions from a GTFS-Realtime TripUpdates protobuf feed.
+ */
+export class GtfsRealtimeClient {
+	private readonly feedUrl: string;
+	private readonly inflight = new InflightRequests();
+	private readonly upstream: UpstreamHttp;
+
+	constructor(feedId: string, name: string, feedUrl: string, upstream: UpstreamConfig = LIVE_UPSTREAM) {
+		this.feedUrl = feedUrl;
+		// Feeds can be large, so allow longer than the JSON APIs
+		this.upstream = new UpstreamHttp(feedId, `${name} realtime feed`, { timeoutMs: 8000, retries: 1 }, upstream);
+	}
+
+	getFeed(): Promise<transit_realtime.FeedMessage> {
+		return this.inflight.run(this.feedUrl, () => this.upstream.get(this.feedUrl, this.feedUrl, async (response) =>
+			GtfsRealtimeClient.decode(new Uint8Array(await response.arrayBuffer()))
+		));
+	}
+
+	static decode(buffer: Uint8Array): transit_realtime.FeedMessage {
+		return transit_realtime.FeedMessage.decode(buffer);
+	}
+
+	/**
+	 * The trips whose updates at the given stops need static data to be
+	 * read: see StaticTrips.
+	 */
+	static incompleteTrips(feed: transit_realtime.FeedMessage, stopIds: string[]): IncompleteTrips {
+		const withoutRoute = new Set<string>();
+		const delayOnly = new Map<string, string | null>();
+
+		for (const entity of feed.entity) {
+			const trip = entity.tripUpdate?.trip;
+			if (!trip?.tripId || entity.isDeleted) {
+				continue;
+			}
+			if (!trip.routeId) {
+				withoutRoute.add(trip.tripId);
+			}
+			const updates = (entity.tripUpdate.stopTimeUpdate || []).filter((update) => stopIds.includes(update.stopId));
+			if (updates.some((update) => isDelayOnly(update.arrival) || isDelayOnly(update.departure))) {
+				delayOnly.set(trip.tripId, trip.startDate || null);
+			}
+		}
+
+		return { withoutRoute: Array.from(withoutRoute), delayOnly };
+	}
+
+	/**
+	 * Maps the stop_time_updates for the given stops (and optionally one
+	 * route) into predictions, soonest first. Stop names and directions are
+	 * left as IDs; callers with static data can replace them, and pass the
+	 * trips the feed leaves incomplete so their updates aren't dropped.
+	 */
+	static toPredictions(
+		feed: transit_realtime.FeedMessage,
+		stopIds: string[],
+		route?: string,
+		now: number = Date.now(),
+		trips: StaticTrips | null = null
+	): GtfsRealtimePrediction[] {
+		const predictions: GtfsRealtimePrediction[] = [];
+		const feedSeconds = toSeconds(feed.header?.timestamp);
+
+		for (const entity of feed.entity) {
+			const tripUpdate = entity.tripUpdate;
+			if (!tripUpdate || entity.isDeleted) {
+				continue;
+			}
+
+			const trip = tripUpdate.trip;
+			if (trip.scheduleRelationship === TripScheduleRelationship.CANCELED) {
+				continue;
+			}
+			const routeId = trip.routeId || trips?.routes.get(trip.tripId) || "";
+			if (route && routeId !== route) {
+				continue;
+			}
+
+			// Trip updates may carry their own measurement time; else use the feed's
+			const generatedSeconds = toSeconds(tripUpdate.timestamp) ?? feedSeconds;
+			const freshness = predictionFreshness(generatedSeconds === null ? null : new Date(generatedSeconds * 1000), now);
+
+			// Unset proto2 fields read as their default, so check presence explicitly
+			const directionId = Object.prototype.hasOwnProperty.call(trip, "directionId") ? trip.directionId : null;
+
+			for (const update of tripUpdate.stopTimeUpdate || []) {
+				if (!update.stopId || !stopIds.includes(update.stopId)) {
+					continue;
+				}
+				if (update.scheduleRelationship === StopScheduleRelationship.SKIPPED ||
+					update.scheduleRelationship === StopScheduleRelationship.NO_DATA) {
+					continue;
+				}
+
+				// Feeds may publish only one of arrival/departure for a stop, and
+				// either as a delay to the schedule rather than a time
+				const scheduled = trips?.stopTimes.get(stopTimeKey(trip.tripId, update.stopId));
+				const arrivalSeconds = eventSeconds(update.arrival, scheduled?.arrival ?? scheduled?.departure) ??
+					eventSeconds(update.departure, scheduled?.departure ?? scheduled?.arrival);
+				const departureSeconds = eventSeconds(update.departure, scheduled?.departure ?? scheduled?.arrival) ?? arrivalSeconds;
+				if (arrivalSeconds === null) {
+					continue;
+				}
+
+				const arrivalTime = arrivalSeconds * 1000;
+				const departureTime = departureSeconds * 1000;
+
+				// Vehicles that already left the stop are no longer predictions
+				if (departureTime < now) {
+					continue;
+				}
+
+				predictions.push({
+					arrivalTime: new Date(arrivalTime).toISOString(),
+					departureTime: new Date(departureTime).toISOString(),
+					stopName: update.stopId,
+					stopId: update.stopId,
+					route: routeId,
+					direction: directionId === null ? "" : directionId.toString(),
+					vehicleId: tripUpdate.vehicle?.id || tripUpdate.vehicle?.label || "",
+					minutesUntilArrival: Math.max(0, Math.round((arrivalTime - now) / 60000)),
+					source: "realtime",
+					...freshness,
+					tripId: trip.tripId || "",
+					directionId,
+				});
+			}
+		}
+
+		predictions.sort((a, b) =>
+			new Date(a.arrivalTime).getTime() - new Date(b.arrivalTime).getTime()
+		);
+
+		return predictions;
+	}
+}
+
+// A time, else the scheduled time moved by a delay. Unset proto2 fields
+// read as their default, so the delay's presence is checked explicitly.
+function eventSeconds(
+	event: transit_realtime.TripUpdate.IStopTimeEvent | null | undefined,
+	scheduledSeconds: number | null | undefined
+): number | null {
+	const time = toSeconds(event?.time);
+	if (time !== null || !isDelayOnly(event) || scheduledSeconds === null || scheduledSeconds === undefined) {
+		return time;
+	}
+	return scheduledSeconds + event.delay;
+}
+
+function isDelayOnly(event: transit_realtime.TripUpdate.IStopTimeEvent | null | undefined): boolean {
+	return !!event && toSeconds(event.time) === null && Object.prototype.hasOwnProperty.call(event, "delay");
+}
+
+// int64 fields decode to either a number or a Long depending on the runtime
+function toSeconds(value: number | { toNumber(): number } | null | undefined): number | null {
+	if (value === null || value === undefined) {
+		return null;
+	}
+	const seconds = typeof value === "number" ? value : value.toNumber();
+	return seconds > 0 ? seconds : null;
+}
@@ -0,0 +1,21 @@
+/**
+ * Shares one upstream request between concurrent callers asking for the same
+ * key, e.g. several BART favorites at one station in a batch. Entries are
+ * dropped once settled, so later calls always fetch fresh data.
+ */
+export class InflightRequests {
+	private readonly pending = new Map<string, Promise<unknown>>();
+
+	run<T>(key: string, load: () => Promise<T>): Promise<T> {
+		const existing = this.pending.get(key);
+		if (existing) {
+			return existing as Promise<T>;
+		}
+
+		const request = load().finally(() => {
+			this.pending.delete(key);
+		});
+		this.pending.set(key, request);
+		return request;
+	}
+}
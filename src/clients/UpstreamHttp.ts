@@ -0,0 +1,297 @@
+import { findFixture, fixtureBody, fixtureResponse, RECORDING_PREFIX, type UpstreamFixture } from "./upstreamFixtures";
+
+export interface UpstreamPolicy {
+	// Milliseconds before one attempt is abandoned
+	timeoutMs: number;
+	// Extra attempts after a timeout, network error or 5xx
+	retries: number;
+}
+
+export type UpstreamMode = "live" | "mock" | "record";
+
+/**
+ * Where agency responses come from, set by UPSTREAM_MODE for local
+ * development: the agency itself (live, the default), the recorded fixtures
+ * in fixtures/upstream (mock), or the agency with every response also saved
+ * to KV for `npm run fixtures:export` to add to the fixtures (record).
+ */
+export interface UpstreamConfig {
+	mode: UpstreamMode;
+	recordings: KVNamespace | null;
+}
+
+export const LIVE_UPSTREAM: UpstreamConfig = { mode: "live", recordings: null };
+
+export function upstreamConfig(env: Env): UpstreamConfig {
+	const mode = env.UPSTREAM_MODE === "mock" || env.UPSTREAM_MODE === "record" ? env.UPSTREAM_MODE : "live";
+	return { mode, recordings: env.TRANSIT_CACHE };
+}
+
+/**
+ * Thrown when an agency's API answers with something we can't use, such as
+ * a 4xx for a request we built. Endpoints return it as a 502.
+ */
+export class UpstreamError extends Error {
+	readonly status: 429 | 502 | 503 = 502;
+	readonly agency: string;
+	// Status the agency answered with, if it answered at all
+	readonly upstreamStatus: number | null;
+	// Seconds the client should wait before trying again
+	readonly retryAfter: number | null;
+
+	constructor(message: string, agency: string, upstreamStatus: number | null = null, retryAfter: number | null = null) {
+		super(message);
+		this.name = "UpstreamError";
+		this.agency = agency;
+		this.upstreamStatus = upstreamStatus;
+		this.retryAfter = retryAfter;
+	}
+}
+
+/**
+ * The agency timed out, failed with a 5xx or has its circuit open.
+ */
+export class UpstreamUnavailableError extends UpstreamError {
+	readonly status = 503;
+
+	constructor(message: string, agency: string, upstreamStatus: number | null = null, retryAfter: number | null = null) {
+		super(message, agency, upstreamStatus, retryAfter);
+		this.name = "UpstreamUnavailableError";
+	}
+}
+
+/**
+ * The agency is rate limiting our API key.
+ */
+export class QuotaExceededError extends UpstreamError {
+	readonly status = 429;
+	declare readonly retryAfter: number;
+
+	constructor(message: string, agency: string, retryAfter: number) {
+		super(message, agency, 429, retryAfter);
+		this.name = "QuotaExceededError";
+	}
+}
+
+interface Circuit {
+	consecutiveFailures: number;
+	openUntil: number;
+}
+
+interface LastGood {
+	value: unknown;
+	storedAt: number;
+}
+
+// Failed requests in a row (each after its retries) that open the circuit
+const FAILURE_THRESHOLD = 5;
+const OPEN_MS = 30 * 1000;
+// Used when a 429 doesn't say how long to back off
+const QUOTA_BACKOFF_SECONDS = 60;
+const RETRY_BASE_DELAY_MS = 250;
+// Old enough that predictions served from it would mislead
+const LAST_GOOD_MAX_AGE_MS = 15 * 60 * 1000;
+const LAST_GOOD_MAX_ENTRIES = 200;
+
+// Both live for the isolate, not the request, so every client of an agency
+// shares them. Each isolate learns an agency is down on its own.
+const circuits = new Map<string, Circuit>();
+const lastGood = new Map<string, LastGood>();
+
+/**
+ * Fetches from one agency's API with a timeout per attempt and a few
+ * jittered retries. After repeated failures the agency's circuit opens and
+ * requests stop going upstream for a while. Whenever a request fails for
+ * the agency's sake rather than ours, the last good response for the same
+ * key is served instead if there is a recent one.
+ */
+export class UpstreamHttp {
+	private readonly agency: string;
+	private readonly name: string;
+	private readonly policy: UpstreamPolicy;
+	private readonly config: UpstreamConfig;
+
+	constructor(agency: string, name: string, policy: UpstreamPolicy, config = LIVE_UPSTREAM) {
+		this.agency = agency;
+		this.name = name;
+		this.policy = policy;
+		this.config = config;
+	}
+
+	/**
+	 * Fetches the URL and reads the response. The key identifies the request
+	 * without credentials, for keeping its last good response.
+	 */
+	async get<T>(url: string, key: string, read: (response: Response) => Promise<T>): Promise<T> {
+		const circuit = this.circuit();
+		const now = Date.now();
+		if (circuit.openUntil > now) {
+			const retryAfter = Math.ceil((circuit.openUntil - now) / 1000);
+			return this.lastGoodOr(key, new UpstreamUnavailableError(`${this.name} is unavailable`, this.agency, null, retryAfter));
+		}
+
+		try {
+			const value = await this.attempt(url, key, read);
+			circuit.consecutiveFailures = 0;
+			this.remember(key, value);
+			return value;
+		} catch (error) {
+			if (error instanceof QuotaExceededError) {
+				circuit.openUntil = Date.now() + error.retryAfter * 1000;
+			} else if (error instanceof UpstreamUnavailableError) {
+				circuit.consecutiveFailures++;
+				if (circuit.consecutiveFailures >= FAILURE_THRESHOLD) {
+					// Half-open afterwards: the next request is let through, and
+					// one more failure opens it again
+					circuit.consecutiveFailures = FAILURE_THRESHOLD - 1;
+					circuit.openUntil = Date.now() + OPEN_MS;
+				}
+			} else {
+				throw error;
+			}
+			return this.lastGoodOr(key, error);
+		}
+	}
+
+	private async attempt<T>(url: string, key: string, read: (response: Response) => Promise<T>): Promise<T> {
+		for (let attempt = 0; ; attempt++) {
+			const retriesLeft = attempt < this.policy.retries;
+			let response: Response;
+			try {
+				response = await this.send(url, key);
+				if (response.ok) {
+					return await this.read(response, read);
+				}
+			} catch (error) {
+				if (error instanceof UpstreamError) {
+					throw error;
+				}
+				if (!retriesLeft) {
+					console.error(`${this.name} request error:`, error);
+					throw new UpstreamUnavailableError(`${this.name} did not respond`, this.agency);
+				}
+				await backoff(attempt);
+				continue;
+			}
+
+			if (response.status === 429) {
+				const retryAfter = parseInt(response.headers.get("retry-after") ?? "");
+				throw new QuotaExceededError(
+					`${this.name} rate limit exceeded`,
+					this.agency,
+					retryAfter > 0 ? retryAfter : QUOTA_BACKOFF_SECONDS
+				);
+			}
+			if (response.status < 500) {
+				throw new UpstreamError(`${this.name} API error: ${response.status}`, this.agency, response.status);
+			}
+			if (!retriesLeft) {
+				throw new UpstreamUnavailableError(`${this.name} API error: ${response.status}`, this.agency, response.status);
+			}
+			await response.body?.cancel();
+			await backoff(attempt);
+		}
+	}
+
+	/**
+	 * Reads a successful response. One that can't be parsed won't parse any
+	 * better on a retry and doesn't mean the agency is down, so it fails as
+	 * an UpstreamError straight away, skipping the circuit and the last good
+	 * response. A timeout while the body arrives is still a network error.
+	 */
+	private async read<T>(response: Response, read: (response: Response) => Promise<T>): Promise<T> {
+		try {
+			return await read(response);
+		} catch (error) {
+			if (error instanceof UpstreamError || isAbort(error)) {
+				throw error;
+			}
+			console.error(`${this.name} response error:`, error);
+			throw new UpstreamError(`${this.name} sent a response that couldn't be read`, this.agency, response.status);
+		}
+	}
+
+	private async send(url: string, key: string): Promise<Response> {
+		if (this.config.mode === "mock") {
+			const fixture = await findFixture(key);
+			if (!fixture) {
+				throw new UpstreamError(`No ${this.name} fixture for ${key}`, this.agency);
+			}
+			return fixtureResponse(fixture);
+		}
+
+		const response = await fetch(url, { signal: AbortSignal.timeout(this.policy.timeoutMs) });
+		if (this.config.mode === "record") {
+			await this.record(key, response.clone());
+		}
+		return response;
+	}
+
+	private async record(key: string, response: Response): Promise<void> {
+		try {
+			const body = fixtureBody(new Uint8Array(await response.arrayBuffer()));
+
+			// JSON is served as JSON anyway; binary feeds keep their own type
+			const headers: Record<string, string> = {};
+			const contentType = response.headers.get("content-type");
+			if (body.bodyBase64 !== undefined && contentType) {
+				headers["content-type"] = contentType;
+			}
+			const retryAfter = response.headers.get("retry-after");
+			if (retryAfter) {
+				headers["retry-after"] = retryAfter;
+			}
+
+			const fixture: UpstreamFixture = {
+				agency: this.agency,
+				url: key,
+				status: response.status,
+				...(Object.keys(headers).length > 0 ? { headers } : {}),
+				...body,
+			};
+			await this.config.recordings.put(`${RECORDING_PREFIX}${key}`, JSON.stringify(fixture));
+		} catch (error) {
+			// Recording is best effort; the request itself still succeeds
+			console.error(`${this.name} recording error:`, error);
+		}
+	}
+
+	private circuit(): Circuit {
+		let circuit = circuits.get(this.agency);
+		if (!circuit) {
+			circuit = { consecutiveFailures: 0, openUntil: 0 };
+			circuits.set(this.agency, circuit);
+		}
+		return circuit;
+	}
+
+	private remember(key: string, value: unknown): void {
+		const cacheKey = `${this.agency}|${key}`;
+		// Re-inserting keeps the map in least recently stored order
+		lastGood.delete(cacheKey);
+		lastGood.set(cacheKey, { value, storedAt: Date.now() });
+		if (lastGood.size > LAST_GOOD_MAX_ENTRIES) {
+			lastGood.delete(lastGood.keys().next().value);
+		}
+	}
+
+	private lastGoodOr<T>(key: string, error: UpstreamError): T {
+		const entry = lastGood.get(`${this.agency}|${key}`);
+		if (entry && Date.now() - entry.storedAt < LAST_GOOD_MAX_AGE_MS) {
+			console.error(`${error.message}, serving the last good response:`, key);
+			return entry.value as T;
+		}
+		throw error;
+	}
+}
+
+function isAbort(error: unknown): boolean {
+	return error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError");
+}
+
+// Full jitter: anywhere up to the exponential delay, so clients that failed
+// together don't retry together
+function backoff(attempt: number): Promise<void> {
+	const delay = Math.random() * RETRY_BASE_DELAY_MS * 2 ** attempt;
+	return new Promise((resolve) => setTimeout(resolve, delay));
+}
@@ -0,0 +1,102 @@
+import type { AgencyAdapter } from "./AgencyAdapter";
+import { AcTransitClient } from "./AcTransitClient";
+import { BartClient } from "./BartClient";
+import { GtfsClient } from "./GtfsClient";
+import { upstreamConfig } from "./UpstreamHttp";
+import { CachedAgencyAdapter } from "../cache/CachedAgencyAdapter";
+import { TransitCache } from "../cache/TransitCache";
+import { StaticSnapshots } from "../sync/StaticSnapshots";
+
+type AgencyAdapterFactory = (env: Env, ctx?: ExecutionContext) => AgencyAdapter;
+
+// Agencies are listed in the order they appear in /api/transit/agencies,
+// followed by any imported GTFS feeds
+const adapters = new Map<string, AgencyAdapterFactory>([
+	["actransit", acTransitClient],
+	["bart", bartClient],
+]);
+
+// Built-in agencies whose timetable comes from their GTFS feed, imported
+// under the agency's own code, because their APIs only have it trip by trip
+const TIMETABLE_FEEDS = new Set(["actransit"]);
+
+/**
+ * AC Transit's and BART's own clients, for what only they offer, such as
+ * following a bus between stops or BART's trip planner. What every agency
+ * offers should go through getAgencyAdapter, which caches static data.
+ */
+export function acTransitClient(env: Env): AcTransitClient {
+	return new AcTransitClient(env.AC_TRANSIT_API_KEY, upstreamConfig(env), env.DB);
+}
+
+export function bartClient(env: Env, ctx?: ExecutionContext): BartClient {
+	return new BartClient(env.BART_API_KEY, upstreamConfig(env), transitCache(env, ctx));
+}
+
+/**
+ * The transit cache, or null in mock and record modes. Those want every
+ * request to reach the upstream, so neither is answered from what an
+ * earlier session cached.
+ */
+export function transitCache(env: Env, ctx?: ExecutionContext): TransitCache | null {
+	return upstreamConfig(env).mode === "live" ? new TransitCache(env.TRANSIT_CACHE, ctx) : null;
+}
+
+/**
+ * The synced static snapshots, or null in mock and record modes, for the
+ * same reason as the cache: those modes read routes and stops from the
+ * upstream, not from whatever a sync stored.
+ */
+export function staticSnapshots(env: Env): StaticSnapshots | null {
+	return upstreamConfig(env).mode === "live" ? new StaticSnapshots(env.DB) : null;
+}
+
+export function registerAgencyAdapter(code: string, factory: AgencyAdapterFactory) {
+	adapters.set(code.toLowerCase(), factory);
+}
+
+export function isBuiltInAgency(code: string): boolean {
+	return adapters.has(code.toLowerCase());
+}
+
+/**
+ * Whether a GTFS feed may be imported under a built-in agency's code, as
+ * that agency's timetable rather than as an agency of its own.
+ */
+export function takesTimetableFeed(code: string): boolean {
+	return TIMETABLE_FEEDS.has(code.toLowerCase());
+}
+
+/**
+ * Returns the adapter for an agency code, with static data served from the
+ * transit cache. Codes without a built-in adapter are looked up among the
+ * imported GTFS feeds. Pass the execution context so stale entries refresh
+ * in the background instead of delaying the response.
+ */
+export async function getAgencyAdapter(env: Env, code: string, ctx?: ExecutionContext): Promise<AgencyAdapter | undefined> {
+	const factory = adapters.get(code.toLowerCase());
+	if (factory) {
+		return withCache(factory(env, ctx), env, ctx);
+	}
+
+	const feed = await GtfsClient.getFeed(env.DB, code.toLowerCase());
+	return feed ? withCache(new GtfsClient(env.DB, feed, upstreamConfig(env)), env, ctx) : undefined;
+}
+
+export async function listAgencyAdapters(env: Env, ctx?: ExecutionContext): Promise<AgencyAdapter[]> {
+	const builtIn = Array.from(adapters.values()).map((factory) => factory(env, ctx));
+	const feeds = (await GtfsClient.listFeeds(env.DB))
+		// Timetables for built-in agencies aren't agencies themselves
+		.filter((feed) => !isBuiltInAgency(feed.feed_id))
+		.map((feed) => new GtfsClient(env.DB, feed, upstreamConfig(env)));
+	return [...builtIn, ...feeds].map((adapter) => withCache(adapter, env, ctx));
+}
+
+export function unsupportedAgencyMessage(code: string): string {
+	return `Unsupported agency: ${code}. See /api/transit/agencies for supported agencies.`;
+}
+
+function withCache(adapter: AgencyAdapter, env: Env, ctx?: ExecutionContext): AgencyAdapter {
+	const cache = transitCache(env, ctx);
+	return cache ? new CachedAgencyAdapter(adapter, cache) : adapter;
+}
@@ -0,0 +1,106 @@
+// Workers run on UTC, so agency-local wall-clock times are converted with
+// Intl rather than the runtime's local time zone
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+	let format = formatters.get(timeZone);
+	if (!format) {
+		format = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "2-digit",
+			day: "2-digit",
+			hour: "2-digit",
+			minute: "2-digit",
+			second: "2-digit",
+		});
+		formatters.set(timeZone, format);
+	}
+	return format;
+}
+
+function zonedParts(instant: Date, timeZone: string): Record<string, number> {
+	const parts: Record<string, number> = {};
+	for (const part of formatter(timeZone).formatToParts(instant)) {
+		if (part.type !== "literal") {
+			parts[part.type] = parseInt(part.value);
+		}
+	}
+	return parts;
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function zoneOffset(instant: Date, timeZone: string): number {
+	const parts = zonedParts(instant, timeZone);
+	const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+	return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The instant a wall-clock time occurs in a time zone. date is YYYY-MM-DD and
+ * time is H:MM or H:MM:SS; hours past 23 roll into the next day, as GTFS
+ * uses them for trips after midnight, so 26:30 is 2:30 the next morning. A
+ * time the clocks skip when they spring forward is taken as that long after
+ * the change (2:30 becomes 3:30), and a time they repeat when they fall back
+ * is the first of the two.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+	const [year, month, day] = date.split("-").map(n => parseInt(n));
+	const [hours, minutes, seconds = 0] = time.split(":").map(n => parseInt(n));
+	const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+	// A day either side of the wall-clock time is clear of any DST change
+	// around it, giving the offsets before and after
+	const before = zoneOffset(new Date(wallClock - DAY_MS), timeZone);
+	const after = zoneOffset(new Date(wallClock + DAY_MS), timeZone);
+	for (const offset of [before, after]) {
+		const instant = wallClock - offset;
+		if (zoneOffset(new Date(instant), timeZone) === offset) {
+			return new Date(instant);
+		}
+	}
+	// Skipped over, so the clocks still read the offset from before
+	return new Date(wallClock - before);
+}
+
+/**
+ * The calendar date (YYYY-MM-DD) in a time zone at an instant.
+ */
+export function zonedDate(instant: Date, timeZone: string): string {
+	const parts = zonedParts(instant, timeZone);
+	return [
+		parts.year.toString(),
+		parts.month.toString().padStart(2, "0"),
+		parts.day.toString().padStart(2, "0"),
+	].join("-");
+}
+
+/**
+ * The hour of day (0-23) in a time zone at an instant.
+ */
+export function zonedHour(instant: Date, timeZone: string): number {
+	return zonedParts(instant, timeZone).hour;
+}
+
+/**
+ * Whether a string is a YYYY-MM-DD date that exists on the calendar.
+ */
+export function isCalendarDate(date: string): boolean {
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+		return false;
+	}
+	// Out-of-range months and days roll over rather than failing
+	return addDays(date, 0) === date;
+}
+
+/**
+ * Adds days to a YYYY-MM-DD date.
+ */
+export function addDays(date: string, days: number): string {
+	const [year, month, day] = date.split("-").map(n => parseInt(n));
+	return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
@@ -0,0 +1,75 @@
+/**
+ * One recorded agency response. Fixtures live in
+ * fixtures/upstream/<agency>.json, one array per agency.
+ */
+export interface UpstreamFixture {
+	agency: string;
+	// Request URL without credentials, exactly as the client builds it
+	url: string;
+	status: number;
+	headers?: Record<string, string>;
+	// Parsed JSON body
+	body?: unknown;
+	// Base64 of a binary body (GTFS-Realtime feeds), in place of body
+	bodyBase64?: string;
+}
+
+// KV key prefix for responses captured in record mode
+export const RECORDING_PREFIX = "fixture:";
+
+let fixtures: Promise<Map<string, UpstreamFixture>> | null = null;
+
+// Imported on first use rather than with the module, so only mock mode
+// loads them; the bundler defers a dynamic import until it runs
+function loadFixtures(): Promise<Map<string, UpstreamFixture>> {
+	fixtures ??= Promise.all([
+		import("../../fixtures/upstream/actransit.json"),
+		import("../../fixtures/upstream/bart.json"),
+		// Imported GTFS feeds' codes aren't known ahead, so they share one file
+		import("../../fixtures/upstream/gtfs.json"),
+	]).then((files) => new Map(
+		files.flatMap((file) => file.default as UpstreamFixture[]).map((fixture) => [fixture.url, fixture])
+	));
+	return fixtures;
+}
+
+export async function findFixture(url: string): Promise<UpstreamFixture | undefined> {
+	return (await loadFixtures()).get(url);
+}
+
+export function fixtureResponse(fixture: UpstreamFixture): Response {
+	if (fixture.bodyBase64 !== undefined) {
+		return new Response(fromBase64(fixture.bodyBase64), {
+			status: fixture.status,
+			headers: { "content-type": "application/octet-stream", ...fixture.headers },
+		});
+	}
+	return new Response(JSON.stringify(fixture.body), {
+		status: fixture.status,
+		headers: { "content-type": "application/json", ...fixture.headers },
+	});
+}
+
+/**
+ * The fixture a response is recorded as: parsed if it is JSON, else base64.
+ */
+export function fixtureBody(bytes: Uint8Array): Pick<UpstreamFixture, "body" | "bodyBase64"> {
+	try {
+		return { body: JSON.parse(new TextDecoder().decode(bytes)) };
+	} catch {
+		return { bodyBase64: toBase64(bytes) };
+	}
+}
+
+function toBase64(bytes: Uint8Array): string {
+	let binary = "";
+	// In chunks, since spreading a whole feed would overflow the call stack
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+	return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
@@ -1,8 +1,11 @@
-import { Bool, OpenAPIRoute } from "chanfana";
+import { Bool } from "chanfana";
 import { z } from "zod";
-import { type AppContext } from "../types";
+import { type AppContext, errorResponses } from "../types";
+import { listAgencyAdapters } from "../clients/registry";
+import { DAY, type ResponseCachePolicy } from "../cacheHeaders";
+import { ApiRoute } from "./apiRoute";
 
-export class Agencies extends OpenAPIRoute {
+export class Agencies extends ApiRoute {
 	schema = {
 		tags: ["Transit"],
 		summary: "Get list of supported transit agencies",
@@ -16,29 +19,24 @@ export class Agencies extends OpenAPIRoute {
 							agencies: z.array(z.object({
 								code: z.string(),
 								name: z.string(),
+								timezone: z.string(),
+								logo: z.string().nullable(),
 								active: Bool(),
 							})),
 						}),
 					},
 				},
 			},
+			...errorResponses({
+				"500": "Server error",
+			}),
 		},
 	};
 
+	cachePolicy: ResponseCachePolicy = { maxAge: DAY, staleWhileRevalidate: 7 * DAY };
+
 	async handle(c: AppContext) {
-		// Hardcoded list of agencies
-		const agencies = [
-			{
-				code: "actransit",
-				name: "AC Transit",
-				active: true,
-			},
-			{
-				code: "bart",
-				name: "BART",
-				active: true,
-			},
-		];
+		const agencies = (await listAgencyAdapters(c.env)).map((adapter) => adapter.info);
 
 		return {
 			success: true,
@@ -0,0 +1,69 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, DepartureAlert, errorResponses } from "../types";
+import { deviceToken, unauthorizedResponse } from "../auth";
+import { AlertsError, AlertsStore } from "../alerts/AlertsStore";
+import { apiError, errorResponse, internalErrorResponse } from "../errors";
+import { ApiRoute } from "./apiRoute";
+
+export class AlertCancel extends ApiRoute {
+	schema = {
+		tags: ["Alerts"],
+		summary: "Stop watching a departure alert",
+		request: {
+			params: z.object({
+				alertId: Str({ description: "Alert id" }),
+			}),
+			headers: z.object({
+				authorization: Str({ description: "Bearer <device token>", required: false }),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Returns the cancelled alert",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							alert: DepartureAlert,
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"401": "Missing or invalid device token",
+				"404": "Alert not found",
+				"500": "Server error",
+			}),
+		},
+	};
+
+	async handle(c: AppContext) {
+		const token = deviceToken(c);
+		if (!token) {
+			return unauthorizedResponse("Missing or invalid device token");
+		}
+
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { alertId } = data.params;
+
+		try {
+			const store = await AlertsStore.forToken(c.env.DB, token);
+			const alert = await store.cancel(alertId);
+
+			const watcher = c.env.DEPARTURE_ALERTS.get(c.env.DEPARTURE_ALERTS.idFromName(alertId));
+			await watcher.cancel();
+
+			return {
+				success: true,
+				alert,
+			};
+		} catch (error) {
+			console.error("Alert cancel error:", error);
+			if (error instanceof AlertsError) {
+				return errorResponse(error.status, apiError(error.status === 404 ? "not_found" : "invalid_request", error.message));
+			}
+			return internalErrorResponse("Failed to cancel alert");
+		}
+	}
+}
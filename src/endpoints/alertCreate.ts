@@ -0,0 +1,126 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, DepartureAlert, DepartureAlertInput, errorResponses, UPSTREAM_ERRORS } from "../types";
+import { deviceToken, unauthorizedResponse } from "../auth";
+import { getAgencyAdapter } from "../clients/registry";
+import { AlertsError, AlertsStore, finishAlert } from "../alerts/AlertsStore";
+import { agencyErrorResponse, apiError, errorResponse, internalErrorResponse, missingAgencyResponse, unsupportedAgencyResponse, type ApiError } from "../errors";
+import { resolveStop } from "../stops/stopRef";
+import { ApiRoute } from "./apiRoute";
+
+export class AlertCreate extends ApiRoute {
+	schema = {
+		tags: ["Alerts"],
+		summary: "Get notified when the next departure is a few minutes away",
+		request: {
+			headers: z.object({
+				authorization: Str({ description: "Bearer <device token>", required: false }),
+			}),
+			body: {
+				content: {
+					"application/json": {
+						schema: DepartureAlertInput,
+					},
+				},
+			},
+		},
+		responses: {
+			"200": {
+				description: "Returns the alert, which is now being watched",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							alert: DepartureAlert,
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"400": "Invalid delivery target or stop, or alert limit reached",
+				"401": "Missing or invalid device token",
+				"404": "Stop or route not found",
+				...UPSTREAM_ERRORS,
+				"500": "Server error",
+			}),
+		},
+	};
+
+	async handle(c: AppContext) {
+		const token = deviceToken(c);
+		if (!token) {
+			return unauthorizedResponse("Missing or invalid device token");
+		}
+
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { route, direction, headsign, minutesBefore, webhookUrl, email, expiresInMinutes } = data.body;
+
+		const invalidDelivery = deliveryError(webhookUrl, email, c.env.ALERT_EMAIL_RECIPIENTS);
+		if (invalidDelivery) {
+			return errorResponse(400, invalidDelivery);
+		}
+
+		const target = resolveStop(data.body.stop, data.body.agency);
+		if (!target) {
+			return missingAgencyResponse();
+		}
+		const { agency, stop } = target;
+
+		try {
+			const adapter = await getAgencyAdapter(c.env, agency, c.executionCtx);
+			if (!adapter) {
+				return unsupportedAgencyResponse(agency);
+			}
+
+			// Surface a bad stop or route now rather than from the first poll
+			await adapter.getPredictions({ stop, route, direction, headsign });
+
+			const store = await AlertsStore.forToken(c.env.DB, token);
+			const alert = await store.create(
+				{ agency: agency.toLowerCase(), stop, route, direction, headsign, minutesBefore, webhookUrl, email },
+				expiresInMinutes
+			);
+
+			const watcher = c.env.DEPARTURE_ALERTS.get(c.env.DEPARTURE_ALERTS.idFromName(alert.id));
+			try {
+				await watcher.start(alert);
+			} catch (error) {
+				// Nothing is watching it, so it mustn't stay listed as active
+				await finishAlert(c.env.DB, alert.id, "failed");
+				throw error;
+			}
+
+			return {
+				success: true,
+				alert,
+			};
+		} catch (error) {
+			console.error("Alert create error:", error);
+			if (error instanceof AlertsError) {
+				return errorResponse(error.status, apiError(error.status === 404 ? "not_found" : "invalid_request", error.message));
+			}
+			const response = agencyErrorResponse(error, agency);
+			if (response) {
+				return response;
+			}
+			return internalErrorResponse("Failed to create alert");
+		}
+	}
+}
+
+function deliveryError(webhookUrl: string | undefined, email: string | undefined, verifiedRecipients: string | undefined): ApiError | null {
+	if (!webhookUrl === !email) {
+		return apiError("invalid_request", "Provide either webhookUrl or email");
+	}
+	if (webhookUrl && !/^https:\/\//.test(webhookUrl)) {
+		return apiError("invalid_request", "webhookUrl must be an https URL", { param: "webhookUrl" });
+	}
+	if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+		return apiError("invalid_request", "email must be a valid address", { param: "email" });
+	}
+	const verified = verifiedRecipients?.split(",").map((address) => address.trim().toLowerCase()).filter(Boolean);
+	if (email && verified?.length && !verified.includes(email.toLowerCase())) {
+		return apiError("invalid_request", "email must be an address verified for alerts", { param: "email" });
+	}
+	return null;
+}
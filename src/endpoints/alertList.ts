@@ -0,0 +1,56 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, DepartureAlert, errorResponses } from "../types";
+import { deviceToken, unauthorizedResponse } from "../auth";
+import { AlertsStore } from "../alerts/AlertsStore";
+import { internalErrorResponse } from "../errors";
+import { ApiRoute } from "./apiRoute";
+
+export class AlertList extends ApiRoute {
+	schema = {
+		tags: ["Alerts"],
+		summary: "List departure alerts for a device token",
+		request: {
+			headers: z.object({
+				authorization: Str({ description: "Bearer <device token>", required: false }),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Returns alerts, newest first. Finished alerts stay listed for a day after they expire.",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							alerts: DepartureAlert.array(),
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"401": "Missing or invalid device token",
+				"500": "Server error",
+			}),
+		},
+	};
+
+	async handle(c: AppContext) {
+		const token = deviceToken(c);
+		if (!token) {
+			return unauthorizedResponse("Missing or invalid device token");
+		}
+
+		try {
+			const store = await AlertsStore.forToken(c.env.DB, token);
+			const alerts = await store.list();
+
+			return {
+				success: true,
+				alerts,
+			};
+		} catch (error) {
+			console.error("Alerts list error:", error);
+			return internalErrorResponse("Failed to load alerts");
+		}
+	}
+}
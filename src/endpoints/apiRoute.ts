@@ -0,0 +1,28 @@
+import { OpenAPIRoute } from "chanfana";
+import type { z } from "zod";
+import { cacheControl, type ResponseCachePolicy } from "../cacheHeaders";
+import { errorResponse, validationError } from "../errors";
+
+/**
+ * Base for every endpoint, so requests that fail schema validation get the
+ * same error envelope as the endpoints' own errors, and responses say how
+ * long they may be cached.
+ */
+export class ApiRoute extends OpenAPIRoute {
+	// Applies to successful responses; errors are never cached
+	cachePolicy: ResponseCachePolicy | null = null;
+
+	handleValidationError(errors: z.ZodIssue[]): Response {
+		return errorResponse(400, validationError(errors));
+	}
+
+	async execute(...args: Parameters<OpenAPIRoute["execute"]>): Promise<Response> {
+		const response = await super.execute(...args);
+		// WebSocket upgrades and the like come back with immutable headers
+		if (response.status === 101) {
+			return response;
+		}
+		response.headers.set("Cache-Control", cacheControl(response.ok ? this.cachePolicy : null));
+		return response;
+	}
+}
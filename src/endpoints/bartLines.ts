@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { type AppContext, errorResponses, UPSTREAM_ERRORS } from "../types";
+import { agencyErrorResponse, internalErrorResponse } from "../errors";
+import { bartClient } from "../clients/registry";
+import { HOUR, DAY, type ResponseCachePolicy } from "../cacheHeaders";
+import { ApiRoute } from "./apiRoute";
+
+export class BartLines extends ApiRoute {
+    schema = {
+        tags: ["Transit"],
+        summary: "Get BART lines with their routes and stations",
+        responses: {
+            "200": {
+                description: "Lines by color, each with one or more routes per direction",
+                content: {
+                    "application/json": {
+                        schema: z.object({
+                            success: z.boolean(),
+                            lines: z.array(z.object({
+                                color: z.string(),
+                                name: z.string(),
+                                hexcolor: z.string(),
+                                routes: z.array(z.object({
+                                    number: z.string().describe("BART route number"),
+                                    name: z.string().describe("Official route name"),
+                                    direction: z.string().describe("'n' or 's'"),
+                                    origin: z.string().describe("Station code"),
+                                    destination: z.string().describe("Station code"),
+                                    stations: z.array(z.string()).describe("Station codes in the order trains call at them"),
+                                })),
+                            })),
+                        }),
+                    },
+                },
+            },
+            ...errorResponses({
+                ...UPSTREAM_ERRORS,
+                "500": "Server error",
+            }),
+        },
+    };
+
+    cachePolicy: ResponseCachePolicy = { maxAge: 6 * HOUR, staleWhileRevalidate: DAY };
+
+    async handle(c: AppContext) {
+        try {
+            const lines = await bartClient(c.env, c.executionCtx).getCachedLines();
+
+            return {
+                success: true,
+                lines,
+            };
+        } catch (error) {
+            console.error("BART lines error:", error);
+            const response = agencyErrorResponse(error, "bart");
+            if (response) {
+                return response;
+            }
+            return internalErrorResponse("Failed to fetch BART lines");
+        }
+    }
+}
@@ -1,22 +1,28 @@
-import { OpenAPIRoute, Str } from "chanfana";
+import { Str } from "chanfana";
 import { z } from "zod";
-import { type AppContext } from "../types";
+import { type AppContext, errorResponses, UPSTREAM_ERRORS } from "../types";
+import { agencyErrorResponse, internalErrorResponse } from "../errors";
+import { linesAtStation, type BartStation } from "../clients/BartClient";
+import { bartClient, staticSnapshots } from "../clients/registry";
+import { resolveStop } from "../stops/stopRef";
+import { HOUR, DAY, type ResponseCachePolicy } from "../cacheHeaders";
+import { ApiRoute } from "./apiRoute";
 
-export class BartStationLines extends OpenAPIRoute {
+export class BartStationLines extends ApiRoute {
     schema = {
         tags: ["Transit"],
         summary: "Get available lines for a BART station",
         request: {
             query: z.object({
                 station: Str({ 
-                    description: "BART station code",
+                    description: "BART station code, or its stop reference (bart:EMBR)",
                     example: "EMBR"
                 }),
             }),
         },
         responses: {
             "200": {
-                description: "Returns available lines for the station",
+                description: "Lines that can be boarded at the station, from BART's published routes, whether or not trains are running",
                 content: {
                     "application/json": {
                         schema: z.object({
@@ -25,73 +31,52 @@ export class BartStationLines extends OpenAPIRoute {
                                 color: z.string(),
                                 name: z.string(),
                                 hexcolor: z.string(),
+                                directions: z.array(z.object({
+                                    direction: z.string().describe("'n' or 's', as predictions take it"),
+                                    route: z.string().describe("BART route number"),
+                                    routeName: z.string(),
+                                    destination: z.string().describe("Station code"),
+                                    destinationName: z.string(),
+                                })),
                             })),
                         }),
                     },
                 },
             },
+            ...errorResponses({
+                "400": "Invalid parameters",
+                "404": "Station not found",
+                ...UPSTREAM_ERRORS,
+                "500": "Server error",
+            }),
         },
     };
 
+    cachePolicy: ResponseCachePolicy = { maxAge: 6 * HOUR, staleWhileRevalidate: DAY };
+
     async handle(c: AppContext) {
         const data = await this.getValidatedData<typeof this.schema>();
-        const { station } = data.query;
+        const { stop: station } = resolveStop(data.query.station, "bart");
 
         try {
-            // Get current departures to see which lines serve this station
-            const url = `https://api.bart.gov/api/etd.aspx?cmd=etd&orig=${station}&key=${c.env.BART_API_KEY}&json=y`;
-            const response = await fetch(url);
-
-            if (!response.ok) {
-                throw new Error(`BART API error: ${response.status}`);
-            }
-
-            const etdData = await response.json();
-            
-            if (!etdData?.root?.station?.[0]?.etd) {
-                return {
-                    success: true,
-                    lines: [],
-                };
-            }
-
-            // Extract unique lines from current departures
-            const linesSet = new Set<string>();
-            const linesMap = new Map<string, { name: string, hexcolor: string }>();
-
-            for (const etd of etdData.root.station[0].etd) {
-                for (const estimate of etd.estimate || []) {
-                    const color = estimate.color.toLowerCase();
-                    if (!linesSet.has(color)) {
-                        linesSet.add(color);
-                        linesMap.set(color, {
-                            name: `${estimate.color} Line`,
-                            hexcolor: estimate.hexcolor,
-                        });
-                    }
-                }
-            }
-
-            // Convert to array and sort
-            const lines = Array.from(linesMap.entries()).map(([color, info]) => ({
-                color,
-                name: info.name,
-                hexcolor: info.hexcolor,
-            })).sort((a, b) => a.name.localeCompare(b.name));
+            const bart = bartClient(c.env, c.executionCtx);
+            const [lines, stations] = await Promise.all([
+                bart.getCachedLines(),
+                (staticSnapshots(c.env)?.get<BartStation>("bart", "stations") ?? Promise.resolve(null))
+                    .then(snapshot => snapshot ?? bart.getCachedStations()),
+            ]);
 
             return {
                 success: true,
-                lines,
+                lines: linesAtStation(lines, stations, station),
             };
         } catch (error) {
             console.error("BART station lines error:", error);
-            return Response.json(
-                {
-                    success: false,
-                    error: "Failed to fetch station lines",
-                },
-                { status: 500 }
-            );
+            const response = agencyErrorResponse(error, "bart");
+            if (response) {
+                return response;
+            }
+            return internalErrorResponse("Failed to fetch station lines");
         }
     }
-}
\ No newline at end of file
+}
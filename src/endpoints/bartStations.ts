@@ -1,8 +1,13 @@
-import { OpenAPIRoute } from "chanfana";
 import { z } from "zod";
-import { type AppContext } from "../types";
+import { type AppContext, errorResponses, UPSTREAM_ERRORS } from "../types";
+import { agencyErrorResponse, internalErrorResponse } from "../errors";
+import type { BartStation } from "../clients/BartClient";
+import { bartClient, staticSnapshots } from "../clients/registry";
+import { stopRef } from "../stops/stopRef";
+import { DAY, type ResponseCachePolicy } from "../cacheHeaders";
+import { ApiRoute } from "./apiRoute";
 
-export class BartStations extends OpenAPIRoute {
+export class BartStations extends ApiRoute {
     schema = {
         tags: ["Transit"],
         summary: "Get list of BART stations",
@@ -15,54 +20,43 @@ export class BartStations extends OpenAPIRoute {
                             success: z.boolean(),
                             stations: z.array(z.object({
                                 code: z.string(),
+                                stopRef: z.string().describe("Stop reference, as bart:<code>"),
                                 name: z.string(),
                             })),
                         }),
                     },
                 },
             },
+            ...errorResponses({
+                ...UPSTREAM_ERRORS,
+                "500": "Server error",
+            }),
         },
     };
 
+    cachePolicy: ResponseCachePolicy = { maxAge: DAY, staleWhileRevalidate: 7 * DAY };
+
     async handle(c: AppContext) {
         try {
-            const url = `https://api.bart.gov/api/stn.aspx?cmd=stns&key=${c.env.BART_API_KEY}&json=y`;
-            const response = await fetch(url);
-
-            if (!response.ok) {
-                throw new Error(`BART API error: ${response.status}`);
-            }
-
-            const data = await response.json();
-            
-            if (!data?.root?.stations?.station) {
-                return {
-                    success: true,
-                    stations: [],
-                };
-            }
-
-            const stations = data.root.stations.station.map((station: any) => ({
-                code: station.abbr,
+            const allStations = await staticSnapshots(c.env)?.get<BartStation>("bart", "stations")
+                ?? await bartClient(c.env, c.executionCtx).getCachedStations();
+            const stations = allStations.map(station => ({
+                code: station.code,
+                stopRef: stopRef("bart", station.code),
                 name: station.name,
             }));
 
-            // Sort alphabetically by name
-            stations.sort((a: any, b: any) => a.name.localeCompare(b.name));
-
             return {
                 success: true,
                 stations,
             };
         } catch (error) {
             console.error("BART stations error:", error);
-            return Response.json(
-                {
-                    success: false,
-                    error: "Failed to fetch BART stations",
-                },
-                { status: 500 }
-            );
+            const response = agencyErrorResponse(error, "bart");
+            if (response) {
+                return response;
+            }
+            return internalErrorResponse("Failed to fetch BART stations");
         }
     }
 }
\ No newline at end of file
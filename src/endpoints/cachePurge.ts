@@ -0,0 +1,62 @@
+import { Bool, Num, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, errorResponses } from "../types";
+import { isAdminRequest, unauthorizedResponse } from "../auth";
+import { TransitCache } from "../cache/TransitCache";
+import { ApiRoute } from "./apiRoute";
+
+export class CachePurge extends ApiRoute {
+	schema = {
+		tags: ["Admin"],
+		summary: "Purge cached transit data",
+		request: {
+			headers: z.object({
+				authorization: Str({ description: "Bearer ADMIN_SYNC_TOKEN", required: false }),
+			}),
+			body: {
+				content: {
+					"application/json": {
+						schema: z.object({
+							type: z.enum(["routes", "stops", "directions", "shapes", "stations", "lines", "schedules", "alerts"]).optional(),
+							agency: Str({ required: false, example: "actransit" }),
+						}),
+					},
+				},
+			},
+		},
+		responses: {
+			"200": {
+				description: "Cache purged",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							purged: Num({ description: "Number of entries removed" }),
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"400": "Invalid parameters",
+				"401": "Missing or invalid token",
+				"500": "Server error",
+			}),
+		},
+	};
+
+	async handle(c: AppContext) {
+		if (!await isAdminRequest(c)) {
+			return unauthorizedResponse();
+		}
+
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { type, agency } = data.body;
+
+		const purged = await new TransitCache(c.env.TRANSIT_CACHE).purge(type ? [type] : undefined, agency);
+
+		return {
+			success: true,
+			purged,
+		};
+	}
+}
@@ -0,0 +1,70 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, Favorite, FavoriteInput, errorResponses } from "../types";
+import { deviceToken, unauthorizedResponse } from "../auth";
+import { FavoritesError, FavoritesStore } from "../favorites/FavoritesStore";
+import { apiError, errorResponse, internalErrorResponse } from "../errors";
+import { ApiRoute } from "./apiRoute";
+
+export class FavoriteCreate extends ApiRoute {
+	schema = {
+		tags: ["Favorites"],
+		summary: "Add a favorite to the end of the list",
+		request: {
+			headers: z.object({
+				authorization: Str({ description: "Bearer <device token>", required: false }),
+			}),
+			body: {
+				content: {
+					"application/json": {
+						schema: FavoriteInput,
+					},
+				},
+			},
+		},
+		responses: {
+			"200": {
+				description: "Returns the created favorite",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							favorite: Favorite,
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"400": "Invalid favorite, or favorites limit reached",
+				"401": "Missing or invalid device token",
+				"500": "Server error",
+			}),
+		},
+	};
+
+	async handle(c: AppContext) {
+		const token = deviceToken(c);
+		if (!token) {
+			return unauthorizedResponse("Missing or invalid device token");
+		}
+
+		const data = await this.getValidatedData<typeof this.schema>();
+
+		try {
+			const store = await FavoritesStore.forToken(c.env.DB, token);
+			const { agency, stop, route, ...details } = data.body;
+			const favorite = await store.create({ agency, stop, route, ...details });
+
+			return {
+				success: true,
+				favorite,
+			};
+		} catch (error) {
+			console.error("Favorite create error:", error);
+			if (error instanceof FavoritesError) {
+				return errorResponse(error.status, apiError(error.status === 404 ? "not_found" : "invalid_request", error.message));
+			}
+			return internalErrorResponse("Failed to save favorite");
+		}
+	}
+}
@@ -0,0 +1,66 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, Favorite, errorResponses } from "../types";
+import { deviceToken, unauthorizedResponse } from "../auth";
+import { FavoritesError, FavoritesStore } from "../favorites/FavoritesStore";
+import { apiError, errorResponse, internalErrorResponse } from "../errors";
+import { ApiRoute } from "./apiRoute";
+
+export class FavoriteDelete extends ApiRoute {
+	schema = {
+		tags: ["Favorites"],
+		summary: "Delete a favorite",
+		request: {
+			params: z.object({
+				favoriteId: Str({ description: "Favorite id" }),
+			}),
+			headers: z.object({
+				authorization: Str({ description: "Bearer <device token>", required: false }),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Returns the deleted favorite",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							favorite: Favorite,
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"401": "Missing or invalid device token",
+				"404": "Favorite not found",
+				"500": "Server error",
+			}),
+		},
+	};
+
+	async handle(c: AppContext) {
+		const token = deviceToken(c);
+		if (!token) {
+			return unauthorizedResponse("Missing or invalid device token");
+		}
+
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { favoriteId } = data.params;
+
+		try {
+			const store = await FavoritesStore.forToken(c.env.DB, token);
+			const favorite = await store.delete(favoriteId);
+
+			return {
+				success: true,
+				favorite,
+			};
+		} catch (error) {
+			console.error("Favorite delete error:", error);
+			if (error instanceof FavoritesError) {
+				return errorResponse(error.status, apiError(error.status === 404 ? "not_found" : "invalid_request", error.message));
+			}
+			return internalErrorResponse("Failed to delete favorite");
+		}
+	}
+}
@@ -0,0 +1,56 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, Favorite, errorResponses } from "../types";
+import { deviceToken, unauthorizedResponse } from "../auth";
+import { FavoritesStore } from "../favorites/FavoritesStore";
+import { internalErrorResponse } from "../errors";
+import { ApiRoute } from "./apiRoute";
+
+export class FavoriteList extends ApiRoute {
+	schema = {
+		tags: ["Favorites"],
+		summary: "List favorites for a device token",
+		request: {
+			headers: z.object({
+				authorization: Str({ description: "Bearer <device token>", required: false }),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Returns favorites in display order",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							favorites: Favorite.array(),
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"401": "Missing or invalid device token",
+				"500": "Server error",
+			}),
+		},
+	};
+
+	async handle(c: AppContext) {
+		const token = deviceToken(c);
+		if (!token) {
+			return unauthorizedResponse("Missing or invalid device token");
+		}
+
+		try {
+			const store = await FavoritesStore.forToken(c.env.DB, token);
+			const favorites = await store.list();
+
+			return {
+				success: true,
+				favorites,
+			};
+		} catch (error) {
+			console.error("Favorites list error:", error);
+			return internalErrorResponse("Failed to load favorites");
+		}
+	}
+}
@@ -0,0 +1,71 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, Favorite, errorResponses } from "../types";
+import { deviceToken, unauthorizedResponse } from "../auth";
+import { FavoritesError, FavoritesStore } from "../favorites/FavoritesStore";
+import { apiError, errorResponse, internalErrorResponse } from "../errors";
+import { ApiRoute } from "./apiRoute";
+
+export class FavoriteReorder extends ApiRoute {
+	schema = {
+		tags: ["Favorites"],
+		summary: "Reorder favorites",
+		request: {
+			headers: z.object({
+				authorization: Str({ description: "Bearer <device token>", required: false }),
+			}),
+			body: {
+				content: {
+					"application/json": {
+						schema: z.object({
+							ids: z.array(Str()).describe("Every favorite id, in the new order"),
+						}),
+					},
+				},
+			},
+		},
+		responses: {
+			"200": {
+				description: "Returns favorites in the new order",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							favorites: Favorite.array(),
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"400": "Ids don't match the saved favorites",
+				"401": "Missing or invalid device token",
+				"500": "Server error",
+			}),
+		},
+	};
+
+	async handle(c: AppContext) {
+		const token = deviceToken(c);
+		if (!token) {
+			return unauthorizedResponse("Missing or invalid device token");
+		}
+
+		const data = await this.getValidatedData<typeof this.schema>();
+
+		try {
+			const store = await FavoritesStore.forToken(c.env.DB, token);
+			const favorites = await store.reorder(data.body.ids);
+
+			return {
+				success: true,
+				favorites,
+			};
+		} catch (error) {
+			console.error("Favorite reorder error:", error);
+			if (error instanceof FavoritesError) {
+				return errorResponse(error.status, apiError(error.status === 404 ? "not_found" : "invalid_request", error.message));
+			}
+			return internalErrorResponse("Failed to reorder favorites");
+		}
+	}
+}
@@ -0,0 +1,106 @@
+import { Bool, Num, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, errorResponses } from "../types";
+import { isAdminRequest, unauthorizedResponse } from "../auth";
+import { isBuiltInAgency, takesTimetableFeed } from "../clients/registry";
+import { GtfsImportError, importGtfsFeed } from "../gtfs/importFeed";
+import { TransitCache, type CachedDataType } from "../cache/TransitCache";
+import { apiError, errorResponse, internalErrorResponse } from "../errors";
+import { ApiRoute } from "./apiRoute";
+
+export class GtfsImport extends ApiRoute {
+	schema = {
+		tags: ["Admin"],
+		summary: "Import a GTFS static feed (request body is the GTFS zip)",
+		request: {
+			params: z.object({
+				feed: Str({
+					description: "Agency code to serve the feed under (lowercase letters, digits and dashes), or actransit for AC Transit's timetable",
+					example: "muni",
+				}),
+			}),
+			query: z.object({
+				realtimeUrl: Str({
+					description: "GTFS-Realtime TripUpdates URL for predictions (kept from the previous import if omitted)",
+					required: false,
+				}),
+			}),
+			headers: z.object({
+				authorization: Str({ description: "Bearer ADMIN_SYNC_TOKEN", required: false }),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Feed imported",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							feed: z.object({
+								feedId: Str(),
+								name: Str(),
+								timezone: Str(),
+								realtimeUrl: Str().nullable(),
+								agencies: Num(),
+								routes: Num(),
+								stops: Num(),
+								trips: Num(),
+								stopTimes: Num(),
+								services: Num(),
+								serviceExceptions: Num(),
+							}),
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"400": "Invalid feed id or GTFS archive",
+				"401": "Missing or invalid token",
+				"500": "Server error",
+			}),
+		},
+	};
+
+	async handle(c: AppContext) {
+		if (!await isAdminRequest(c)) {
+			return unauthorizedResponse();
+		}
+
+		const data = await this.getValidatedData<typeof this.schema>();
+		const feedId = data.params.feed.toLowerCase();
+		const { realtimeUrl } = data.query;
+
+		if (realtimeUrl && !/^https?:\/\//.test(realtimeUrl)) {
+			return errorResponse(400, apiError("invalid_request", "realtimeUrl must be an http(s) URL", { param: "realtimeUrl" }));
+		}
+
+		if (!/^[a-z0-9-]+$/.test(feedId) || (isBuiltInAgency(feedId) && !takesTimetableFeed(feedId))) {
+			return errorResponse(400, apiError(
+				"invalid_request",
+				`Invalid feed id: ${feedId}. Use lowercase letters, digits and dashes, and not a built-in agency code other than actransit.`,
+				{ param: "feed" }
+			));
+		}
+
+		try {
+			const archive = new Uint8Array(await c.req.arrayBuffer());
+			const feed = await importGtfsFeed(c.env.DB, feedId, archive, realtimeUrl);
+
+			// Drop anything cached from a previous import of this feed. A
+			// built-in agency's feed is only its timetable.
+			const types: CachedDataType[] = takesTimetableFeed(feedId) ? ["schedules"] : ["routes", "stops", "directions", "shapes", "schedules"];
+			await new TransitCache(c.env.TRANSIT_CACHE).purge(types, feedId);
+
+			return {
+				success: true,
+				feed,
+			};
+		} catch (error) {
+			console.error("GTFS import error:", error);
+			if (error instanceof GtfsImportError) {
+				return errorResponse(400, apiError("invalid_request", error.message, { param: "body" }));
+			}
+			return internalErrorResponse("Failed to import GTFS feed");
+		}
+	}
+}
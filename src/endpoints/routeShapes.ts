@@ -0,0 +1,85 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, RouteShapeSchema, errorResponses, UPSTREAM_ERRORS } from "../types";
+import { getAgencyAdapter } from "../clients/registry";
+import { agencyErrorResponse, internalErrorResponse, unsupportedAgencyResponse } from "../errors";
+import { encodePolyline } from "../stops/geo";
+import { withStopRef } from "../stops/stopRef";
+import { HOUR, DAY, type ResponseCachePolicy } from "../cacheHeaders";
+import { ApiRoute } from "./apiRoute";
+
+export class RouteShapes extends ApiRoute {
+	schema = {
+		tags: ["Transit"],
+		summary: "Get the path and stops of each direction of a route",
+		request: {
+			params: z.object({
+				route: Str({ description: "Route code (line color for BART)", example: "NL" }),
+			}),
+			query: z.object({
+				agency: Str({ description: "Transit agency code", example: "actransit" }),
+				format: z.enum(["polyline", "geojson"]).default("polyline").describe("How the path is returned"),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "One shape per direction. BART and imported GTFS paths are straight lines between stops.",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							agency: Str(),
+							route: Str(),
+							shapes: z.array(RouteShapeSchema),
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"400": "Invalid parameters",
+				"404": "Route not found",
+				...UPSTREAM_ERRORS,
+				"500": "Server error",
+			}),
+		},
+	};
+
+	cachePolicy: ResponseCachePolicy = { maxAge: 6 * HOUR, staleWhileRevalidate: DAY };
+
+	async handle(c: AppContext) {
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { route } = data.params;
+		const { agency, format } = data.query;
+
+		try {
+			const adapter = await getAgencyAdapter(c.env, agency, c.executionCtx);
+			if (!adapter) {
+				return unsupportedAgencyResponse(agency);
+			}
+
+			const shapes = await adapter.getRouteShapes(route);
+
+			return {
+				success: true,
+				agency,
+				route,
+				shapes: shapes.map((shape) => ({
+					direction: shape.direction,
+					destination: shape.destination,
+					polyline: format === "polyline" ? encodePolyline(shape.path) : null,
+					geometry: format === "geojson"
+						? { type: "LineString" as const, coordinates: shape.path.map((point) => [point.lon, point.lat]) }
+						: null,
+					stops: shape.stops.map((stop) => withStopRef(agency, stop)),
+				})),
+			};
+		} catch (error) {
+			console.error("Route shapes error:", error);
+			const response = agencyErrorResponse(error, agency);
+			if (response) {
+				return response;
+			}
+			return internalErrorResponse("Failed to fetch route shapes");
+		}
+	}
+}
@@ -1,8 +1,13 @@
-import { Bool, OpenAPIRoute, Str, Query } from "chanfana";
+import { Bool, Str } from "chanfana";
 import { z } from "zod";
-import { type AppContext } from "../types";
+import { type AppContext, errorResponses, UPSTREAM_ERRORS } from "../types";
+import { getAgencyAdapter, staticSnapshots } from "../clients/registry";
+import { type TransitRoute } from "../clients/AgencyAdapter";
+import { agencyErrorResponse, internalErrorResponse, unsupportedAgencyResponse } from "../errors";
+import { DAY, type ResponseCachePolicy } from "../cacheHeaders";
+import { ApiRoute } from "./apiRoute";
 
-export class Routes extends OpenAPIRoute {
+export class Routes extends ApiRoute {
 	schema = {
 		tags: ["Transit"],
 		summary: "Get routes for a specific agency",
@@ -29,73 +34,30 @@ export class Routes extends OpenAPIRoute {
 					},
 				},
 			},
-			"400": {
-				description: "Invalid parameters",
-				content: {
-					"application/json": {
-						schema: z.object({
-							success: Bool(),
-							error: Str(),
-						}),
-					},
-				},
-			},
-			"500": {
-				description: "Server error",
-				content: {
-					"application/json": {
-						schema: z.object({
-							success: Bool(),
-							error: Str(),
-						}),
-					},
-				},
-			},
+			...errorResponses({
+				"400": "Invalid parameters",
+				...UPSTREAM_ERRORS,
+				"500": "Server error",
+			}),
 		},
 	};
 
+	cachePolicy: ResponseCachePolicy = { maxAge: DAY, staleWhileRevalidate: 7 * DAY };
+
 	async handle(c: AppContext) {
 		const data = await this.getValidatedData<typeof this.schema>();
 		const { agency } = data.query;
 
 		try {
-			if (agency !== "actransit") {
-				return Response.json(
-					{
-						success: false,
-						error: "Only AC Transit is currently supported",
-					},
-					{ status: 400 }
-				);
+			const adapter = await getAgencyAdapter(c.env, agency, c.executionCtx);
+			if (!adapter) {
+				return unsupportedAgencyResponse(agency);
 			}
 
-			// Fetch routes directly from AC Transit API
-			const url = `https://api.actransit.org/transit/routes?token=${c.env.AC_TRANSIT_API_KEY}`;
-			const response = await fetch(url);
-
-			if (!response.ok) {
-				throw new Error(`AC Transit API error: ${response.status}`);
-			}
-
-			const routesData = await response.json();
-
-			// Transform the data
-			const routes = routesData.map((route: any) => ({
-				routeCode: route.RouteId,
-				routeName: route.Name || route.RouteId,
-				routeType: "bus",
-				active: true,
-			})).sort((a: any, b: any) => {
-				// Sort numerically first, then alphabetically
-				const aNum = parseInt(a.routeCode);
-				const bNum = parseInt(b.routeCode);
-				if (!isNaN(aNum) && !isNaN(bNum)) {
-					return aNum - bNum;
-				}
-				if (!isNaN(aNum)) return -1;
-				if (!isNaN(bNum)) return 1;
-				return a.routeCode.localeCompare(b.routeCode);
-			});
+			// Synced agencies are served from their snapshot, which outlasts
+			// an upstream outage
+			const snapshot = await staticSnapshots(c.env)?.get<TransitRoute>(adapter.info.code, "routes");
+			const routes = snapshot ?? await adapter.getRoutes();
 
 			return {
 				success: true,
@@ -104,13 +66,11 @@ export class Routes extends OpenAPIRoute {
 			};
 		} catch (error) {
 			console.error("Routes error:", error);
-			return Response.json(
-				{
-					success: false,
-					error: error instanceof Error ? error.message : "Failed to fetch routes",
-				},
-				{ status: 500 }
-			);
+			const response = agencyErrorResponse(error, agency);
+			if (response) {
+				return response;
+			}
+			return internalErrorResponse(error instanceof Error ? error.message : "Failed to fetch routes");
 		}
 	}
 }
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, ServiceAlertSchema, errorResponses, UPSTREAM_ERRORS } from "../types";
+import { getAgencyAdapter } from "../clients/registry";
+import { agencyErrorResponse, internalErrorResponse, missingAgencyResponse, unsupportedAgencyResponse } from "../errors";
+import { resolveStop } from "../stops/stopRef";
+import { MINUTE, type ResponseCachePolicy } from "../cacheHeaders";
+import { ApiRoute } from "./apiRoute";
+
+export class ServiceAlerts extends ApiRoute {
+	schema = {
+		tags: ["Transit"],
+		summary: "Get service alerts for an agency, route or stop",
+		request: {
+			query: z.object({
+				agency: Str({ description: "Transit agency code; optional when stop is a stop reference", required: false, example: "bart" }),
+				route: Str({ description: "Only alerts affecting this route (required for AC Transit unless stop is given)", required: false, example: "NL" }),
+				stop: Str({ description: "Only alerts affecting this stop, by ID or stop reference", required: false, example: "EMBR" }),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Alerts that apply to the route and stop",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							agency: Str(),
+							alerts: z.array(ServiceAlertSchema),
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"400": "Invalid parameters",
+				...UPSTREAM_ERRORS,
+				"500": "Server error",
+			}),
+		},
+	};
+
+	// Alerts change during disruptions
+	cachePolicy: ResponseCachePolicy = { maxAge: MINUTE, staleWhileRevalidate: MINUTE };
+
+	async handle(c: AppContext) {
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { route } = data.query;
+		const target = data.query.stop
+			? resolveStop(data.query.stop, data.query.agency)
+			: data.query.agency && { agency: data.query.agency, stop: undefined };
+		if (!target) {
+			return missingAgencyResponse();
+		}
+		const { agency, stop } = target;
+
+		try {
+			const adapter = await getAgencyAdapter(c.env, agency, c.executionCtx);
+			if (!adapter) {
+				return unsupportedAgencyResponse(agency);
+			}
+
+			const alerts = await adapter.getAlerts({ route, stop });
+
+			return {
+				success: true,
+				agency,
+				alerts,
+			};
+		} catch (error) {
+			console.error("Service alerts error:", error);
+			const response = agencyErrorResponse(error, agency);
+			if (response) {
+				return response;
+			}
+			return internalErrorResponse("Failed to fetch service alerts");
+		}
+	}
+}
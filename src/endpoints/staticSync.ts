@@ -0,0 +1,69 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, errorResponses } from "../types";
+import { isAdminRequest, unauthorizedResponse } from "../auth";
+import { syncStaticData } from "../sync/syncStaticData";
+import { internalErrorResponse } from "../errors";
+import { ApiRoute } from "./apiRoute";
+
+export class StaticSync extends ApiRoute {
+	schema = {
+		tags: ["Admin"],
+		summary: "Snapshot AC Transit and BART static data and record what changed",
+		request: {
+			headers: z.object({
+				authorization: Str({ description: "Bearer ADMIN_SYNC_TOKEN", required: false }),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Per-agency counts and changes since the previous snapshot. An agency with an error kept its previous snapshot.",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							agencies: z.array(z.object({
+								agency: Str(),
+								routes: z.number(),
+								stops: z.number(),
+								stations: z.number().nullable(),
+								changes: z.array(z.object({
+									agency: Str(),
+									kind: z.enum(["route", "stop", "station"]),
+									route: Str().nullable(),
+									id: Str(),
+									change: z.enum(["added", "removed", "renamed"]),
+									oldName: Str().nullable(),
+									newName: Str().nullable(),
+								})),
+								error: Str().nullable(),
+							})),
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"401": "Missing or invalid token",
+				"500": "Server error",
+			}),
+		},
+	};
+
+	async handle(c: AppContext) {
+		if (!await isAdminRequest(c)) {
+			return unauthorizedResponse();
+		}
+
+		try {
+			const agencies = await syncStaticData(c.env);
+
+			return {
+				success: agencies.every((agency) => agency.error === null),
+				agencies,
+			};
+		} catch (error) {
+			console.error("Static sync error:", error);
+			return internalErrorResponse("Failed to sync static data");
+		}
+	}
+}
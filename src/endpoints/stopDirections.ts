@@ -1,16 +1,21 @@
-import { Bool, OpenAPIRoute, Str, Query } from "chanfana";
+import { Bool, Str } from "chanfana";
 import { z } from "zod";
-import { type AppContext } from "../types";
+import { type AppContext, errorResponses, UPSTREAM_ERRORS } from "../types";
+import { getAgencyAdapter } from "../clients/registry";
+import { agencyErrorResponse, internalErrorResponse, missingAgencyResponse, unsupportedAgencyResponse } from "../errors";
+import { resolveStop, stopRef, withStopRef } from "../stops/stopRef";
+import { HOUR, DAY, type ResponseCachePolicy } from "../cacheHeaders";
+import { ApiRoute } from "./apiRoute";
 
-export class StopDirections extends OpenAPIRoute {
+export class StopDirections extends ApiRoute {
 	schema = {
 		tags: ["Transit"],
 		summary: "Get available directions for a specific stop on a route",
 		request: {
 			query: z.object({
-				agency: Str({ description: "Transit agency code", example: "actransit" }),
+				agency: Str({ description: "Transit agency code; optional when stop is a stop reference", required: false, example: "actransit" }),
 				route: Str({ description: "Route code", example: "NL" }),
-				stop: Str({ description: "Stop ID (can be comma-separated for combined stops)", example: "55558" }),
+				stop: Str({ description: "Stop ID (can be comma-separated for combined stops), or a stop reference such as actransit:55558", example: "55558" }),
 			}),
 		},
 		responses: {
@@ -23,133 +28,61 @@ export class StopDirections extends OpenAPIRoute {
 							agency: Str(),
 							route: Str(),
 							stop: Str(),
+							stopRef: Str(),
 							directions: z.array(z.object({
 								direction: Str(),
 								destination: Str(),
+								destinationId: Str({ description: "Destination station code, where the agency has one (BART); matches the destination parameter predictions accept" }).nullable(),
 								stopId: Str(),
+								stopRef: Str(),
 							})),
 						}),
 					},
 				},
 			},
-			"400": {
-				description: "Invalid parameters",
-				content: {
-					"application/json": {
-						schema: z.object({
-							success: Bool(),
-							error: Str(),
-						}),
-					},
-				},
-			},
-			"404": {
-				description: "Route or stop not found",
-				content: {
-					"application/json": {
-						schema: z.object({
-							success: Bool(),
-							error: Str(),
-						}),
-					},
-				},
-			},
-			"500": {
-				description: "Server error",
-				content: {
-					"application/json": {
-						schema: z.object({
-							success: Bool(),
-							error: Str(),
-						}),
-					},
-				},
-			},
+			...errorResponses({
+				"400": "Invalid parameters",
+				"404": "Route or stop not found",
+				...UPSTREAM_ERRORS,
+				"500": "Server error",
+			}),
 		},
 	};
 
+	cachePolicy: ResponseCachePolicy = { maxAge: 6 * HOUR, staleWhileRevalidate: DAY };
+
 	async handle(c: AppContext) {
 		const data = await this.getValidatedData<typeof this.schema>();
-		const { agency, route, stop } = data.query;
+		const { route } = data.query;
+		const target = resolveStop(data.query.stop, data.query.agency);
+		if (!target) {
+			return missingAgencyResponse();
+		}
+		const { agency, stop } = target;
 
 		try {
-			if (agency !== "actransit") {
-				return Response.json(
-					{
-						success: false,
-						error: "Only AC Transit is currently supported",
-					},
-					{ status: 400 }
-				);
+			const adapter = await getAgencyAdapter(c.env, agency, c.executionCtx);
+			if (!adapter) {
+				return unsupportedAgencyResponse(agency);
 			}
 
-			// Fetch route data to find directions serving this stop
-			const url = `https://api.actransit.org/transit/route/${encodeURIComponent(route)}/stops?token=${c.env.AC_TRANSIT_API_KEY}`;
-			const response = await fetch(url);
-
-			if (!response.ok) {
-				if (response.status === 404) {
-					return Response.json(
-						{
-							success: false,
-							error: `Route ${route} not found`,
-						},
-						{ status: 404 }
-					);
-				}
-				throw new Error(`AC Transit API error: ${response.status}`);
-			}
-
-			const routeStopsData = await response.json();
-
-			// Handle comma-separated stop IDs (for stops with same name but different IDs)
-			const stopIds = stop.split(',').map(id => id.trim());
-			
-			// Find directions that serve any of these stop IDs
-			// Also track which stop ID serves which direction
-			const directionsMap = new Map();
-			
-			for (const routeDirection of routeStopsData) {
-				for (const stopId of stopIds) {
-					const hasStop = routeDirection.Stops.some((s: any) => s.StopId.toString() === stopId);
-					if (hasStop && !directionsMap.has(routeDirection.Direction)) {
-						directionsMap.set(routeDirection.Direction, {
-							direction: routeDirection.Direction,
-							destination: routeDirection.Destination,
-							stopId: stopId, // Include which stop ID to use for this direction
-						});
-					}
-				}
-			}
-			
-			const directionsForStop = Array.from(directionsMap.values());
-
-			if (directionsForStop.length === 0) {
-				return Response.json(
-					{
-						success: false,
-						error: `Stop ${stop} not found on route ${route}`,
-					},
-					{ status: 404 }
-				);
-			}
+			const directions = await adapter.getStopDirections(route, stop);
 
 			return {
 				success: true,
 				agency,
 				route,
 				stop,
-				directions: directionsForStop,
+				stopRef: stopRef(agency, stop),
+				directions: directions.map((direction) => withStopRef(agency, direction)),
 			};
 		} catch (error) {
 			console.error("StopDirections error:", error);
-			return Response.json(
-				{
-					success: false,
-					error: error instanceof Error ? error.message : "Failed to fetch directions",
-				},
-				{ status: 500 }
-			);
+			const response = agencyErrorResponse(error, agency);
+			if (response) {
+				return response;
+			}
+			return internalErrorResponse(error instanceof Error ? error.message : "Failed to fetch directions");
 		}
 	}
 }
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, StopGroupSchema, errorResponses, UPSTREAM_ERRORS } from "../types";
+import { getAgencyAdapter } from "../clients/registry";
+import { agencyErrorResponse, internalErrorResponse, unsupportedAgencyResponse } from "../errors";
+import { withStopRef } from "../stops/stopRef";
+import { HOUR, DAY, type ResponseCachePolicy } from "../cacheHeaders";
+import { ApiRoute } from "./apiRoute";
+
+export class StopGroups extends ApiRoute {
+	schema = {
+		tags: ["Transit"],
+		summary: "Get a route's stops grouped by location",
+		request: {
+			query: z.object({
+				agency: Str({ description: "Transit agency code", example: "actransit" }),
+				route: Str({ description: "Route code", example: "NL" }),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Stops sharing a name grouped, with the directions each member serves. A group's ID works as the stop of any transit endpoint.",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							agency: Str(),
+							route: Str(),
+							groups: z.array(StopGroupSchema),
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"400": "Invalid parameters",
+				"404": "Route not found",
+				...UPSTREAM_ERRORS,
+				"500": "Server error",
+			}),
+		},
+	};
+
+	cachePolicy: ResponseCachePolicy = { maxAge: 6 * HOUR, staleWhileRevalidate: DAY };
+
+	async handle(c: AppContext) {
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { agency, route } = data.query;
+
+		try {
+			const adapter = await getAgencyAdapter(c.env, agency, c.executionCtx);
+			if (!adapter) {
+				return unsupportedAgencyResponse(agency);
+			}
+
+			const groups = await adapter.getStopGroups(route);
+
+			return {
+				success: true,
+				agency,
+				route,
+				groups: groups.map((group) => ({
+					...group,
+					members: group.members.map((member) => withStopRef(agency, member)),
+				})),
+			};
+		} catch (error) {
+			console.error("Stop groups error:", error);
+			const response = agencyErrorResponse(error, agency);
+			if (response) {
+				return response;
+			}
+			return internalErrorResponse("Failed to fetch stop groups");
+		}
+	}
+}
@@ -0,0 +1,74 @@
+import { Bool, Num, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, errorResponses, UPSTREAM_ERRORS } from "../types";
+import { isAdminRequest, unauthorizedResponse } from "../auth";
+import { getAgencyAdapter } from "../clients/registry";
+import { StopIndex } from "../stops/StopIndex";
+import { agencyErrorResponse, internalErrorResponse, unsupportedAgencyResponse } from "../errors";
+import { ApiRoute } from "./apiRoute";
+
+export class StopIndexRebuild extends ApiRoute {
+	schema = {
+		tags: ["Admin"],
+		summary: "Rebuild the nearby-stops index for an agency",
+		request: {
+			params: z.object({
+				agency: Str({ description: "Transit agency code", example: "actransit" }),
+			}),
+			headers: z.object({
+				authorization: Str({ description: "Bearer ADMIN_SYNC_TOKEN", required: false }),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Index rebuilt",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							agency: Str(),
+							stops: Num({ description: "Number of stops indexed" }),
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"400": "Invalid parameters or unsupported agency",
+				"401": "Missing or invalid token",
+				...UPSTREAM_ERRORS,
+				"500": "Server error",
+			}),
+		},
+	};
+
+	async handle(c: AppContext) {
+		if (!await isAdminRequest(c)) {
+			return unauthorizedResponse();
+		}
+
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { agency } = data.params;
+
+		try {
+			const adapter = await getAgencyAdapter(c.env, agency, c.executionCtx);
+			if (!adapter) {
+				return unsupportedAgencyResponse(agency);
+			}
+
+			const stops = await new StopIndex(c.env.DB).rebuild(adapter);
+
+			return {
+				success: true,
+				agency: adapter.info.code,
+				stops,
+			};
+		} catch (error) {
+			console.error("Stop index rebuild error:", error);
+			const response = agencyErrorResponse(error, agency);
+			if (response) {
+				return response;
+			}
+			return internalErrorResponse("Failed to rebuild stop index");
+		}
+	}
+}
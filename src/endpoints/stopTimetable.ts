@@ -0,0 +1,120 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, ScheduledDepartureSchema, ServiceDaySchema, errorResponses, UPSTREAM_ERRORS } from "../types";
+import { getAgencyAdapter } from "../clients/registry";
+import type { ScheduledDeparture } from "../clients/AgencyAdapter";
+import { isCalendarDate, zonedDate } from "../clients/time";
+import { agencyErrorResponse, internalErrorResponse, missingAgencyResponse, unsupportedAgencyResponse } from "../errors";
+import { resolveStop, stopRef, withStopRef } from "../stops/stopRef";
+import { HOUR, type ResponseCachePolicy } from "../cacheHeaders";
+import { ApiRoute } from "./apiRoute";
+
+interface TimetableDirection {
+	direction: string;
+	// In order of first departure
+	destinations: string[];
+	departures: Array<ScheduledDeparture & { stopRef: string }>;
+}
+
+export class StopTimetable extends ApiRoute {
+	schema = {
+		tags: ["Transit"],
+		summary: "Get a stop's scheduled departures for a service day",
+		request: {
+			params: z.object({
+				stop: Str({ description: "Stop identifier (station abbreviation for BART), or a stop reference such as bart:EMBR", example: "55558" }),
+			}),
+			query: z.object({
+				agency: Str({ description: "Transit agency code; optional when stop is a stop reference", required: false, example: "actransit" }),
+				route: Str({ description: "Route code (line colors for BART, comma-separated)", example: "NL" }),
+				date: z.string()
+					.refine(isCalendarDate, "Expected a YYYY-MM-DD date")
+					.optional()
+					.describe("Service day in the agency's time zone (defaults to today)"),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Departures grouped by direction, each in departure order. Late trips after midnight belong to the service day they started on.",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							agency: Str(),
+							stop: Str(),
+							stopRef: Str(),
+							route: Str(),
+							service: ServiceDaySchema,
+							directions: z.array(z.object({
+								direction: Str(),
+								destinations: z.array(Str()),
+								departures: z.array(ScheduledDepartureSchema),
+							})),
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"400": "Invalid parameters",
+				"404": "Route not found",
+				...UPSTREAM_ERRORS,
+				"500": "Server error",
+			}),
+		},
+	};
+
+	cachePolicy: ResponseCachePolicy = { maxAge: HOUR, staleWhileRevalidate: HOUR };
+
+	async handle(c: AppContext) {
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { route } = data.query;
+		const target = resolveStop(data.params.stop, data.query.agency);
+		if (!target) {
+			return missingAgencyResponse();
+		}
+		const { agency, stop } = target;
+
+		try {
+			const adapter = await getAgencyAdapter(c.env, agency, c.executionCtx);
+			if (!adapter) {
+				return unsupportedAgencyResponse(agency);
+			}
+
+			const date = data.query.date || zonedDate(new Date(), adapter.info.timezone);
+			const [service, departures] = await Promise.all([
+				adapter.getServiceDay(date),
+				adapter.getSchedule({ stop, route, date }),
+			]);
+
+			const directions = new Map<string, TimetableDirection>();
+			for (const departure of departures) {
+				let group = directions.get(departure.direction);
+				if (!group) {
+					group = { direction: departure.direction, destinations: [], departures: [] };
+					directions.set(departure.direction, group);
+				}
+				if (departure.destination && !group.destinations.includes(departure.destination)) {
+					group.destinations.push(departure.destination);
+				}
+				group.departures.push(withStopRef(agency, departure));
+			}
+
+			return {
+				success: true,
+				agency,
+				stop,
+				stopRef: stopRef(agency, stop),
+				route,
+				service,
+				directions: Array.from(directions.values()),
+			};
+		} catch (error) {
+			console.error("Stop timetable error:", error);
+			const response = agencyErrorResponse(error, agency);
+			if (response) {
+				return response;
+			}
+			return internalErrorResponse("Failed to fetch timetable");
+		}
+	}
+}
@@ -1,8 +1,14 @@
-import { Bool, OpenAPIRoute, Str, Query } from "chanfana";
+import { Bool, Str } from "chanfana";
 import { z } from "zod";
-import { type AppContext } from "../types";
+import { type AppContext, TransitStopSchema, errorResponses, UPSTREAM_ERRORS } from "../types";
+import { getAgencyAdapter, staticSnapshots } from "../clients/registry";
+import { type TransitStop } from "../clients/AgencyAdapter";
+import { agencyErrorResponse, internalErrorResponse, unsupportedAgencyResponse } from "../errors";
+import { withStopRef } from "../stops/stopRef";
+import { HOUR, DAY, type ResponseCachePolicy } from "../cacheHeaders";
+import { ApiRoute } from "./apiRoute";
 
-export class Stops extends OpenAPIRoute {
+export class Stops extends ApiRoute {
 	schema = {
 		tags: ["Transit"],
 		summary: "Get stops for a specific route",
@@ -21,148 +27,48 @@ export class Stops extends OpenAPIRoute {
 							success: Bool(),
 							agency: Str(),
 							route: Str(),
-							stops: z.array(z.object({
-								stopId: Str(),
-								stopCode: Str(),
-								stopName: Str(),
-								lat: z.number().nullable(),
-								lon: z.number().nullable(),
-							})),
-						}),
-					},
-				},
-			},
-			"400": {
-				description: "Invalid parameters",
-				content: {
-					"application/json": {
-						schema: z.object({
-							success: Bool(),
-							error: Str(),
-						}),
-					},
-				},
-			},
-			"404": {
-				description: "Route not found",
-				content: {
-					"application/json": {
-						schema: z.object({
-							success: Bool(),
-							error: Str(),
-						}),
-					},
-				},
-			},
-			"500": {
-				description: "Server error",
-				content: {
-					"application/json": {
-						schema: z.object({
-							success: Bool(),
-							error: Str(),
+							stops: z.array(TransitStopSchema),
 						}),
 					},
 				},
 			},
+			...errorResponses({
+				"400": "Invalid parameters",
+				"404": "Route not found",
+				...UPSTREAM_ERRORS,
+				"500": "Server error",
+			}),
 		},
 	};
 
+	cachePolicy: ResponseCachePolicy = { maxAge: 6 * HOUR, staleWhileRevalidate: DAY };
+
 	async handle(c: AppContext) {
 		const data = await this.getValidatedData<typeof this.schema>();
 		const { agency, route } = data.query;
 
 		try {
-			if (agency !== "actransit") {
-				return Response.json(
-					{
-						success: false,
-						error: "Only AC Transit is currently supported",
-					},
-					{ status: 400 }
-				);
-			}
-
-			// Fetch stops directly from AC Transit API
-			const url = `https://api.actransit.org/transit/route/${encodeURIComponent(route)}/stops?token=${c.env.AC_TRANSIT_API_KEY}`;
-			const response = await fetch(url);
-
-			if (!response.ok) {
-				if (response.status === 404) {
-					return Response.json(
-						{
-							success: false,
-							error: `Route ${route} not found`,
-						},
-						{ status: 404 }
-					);
-				}
-				throw new Error(`AC Transit API error: ${response.status}`);
+			const adapter = await getAgencyAdapter(c.env, agency, c.executionCtx);
+			if (!adapter) {
+				return unsupportedAgencyResponse(agency);
 			}
 
-			const routeStopsData = await response.json();
-
-			// Extract unique stop NAMES (not IDs) across all directions
-			// Group stops by name to handle cases where one location has multiple IDs
-			const stopsByName = new Map();
-			
-			for (const routeDirection of routeStopsData) {
-				for (const stop of routeDirection.Stops) {
-					const stopName = stop.Name;
-					if (!stopsByName.has(stopName)) {
-						stopsByName.set(stopName, []);
-					}
-					stopsByName.get(stopName).push({
-						stopId: stop.StopId.toString(),
-						stopCode: stop.StopId.toString(),
-						stopName: stop.Name,
-						lat: stop.Latitude,
-						lon: stop.Longitude,
-						direction: routeDirection.Direction,
-					});
-				}
-			}
-			
-			// Create one entry per unique stop name
-			// For stops with multiple IDs, we'll use a comma-separated list of IDs
-			const stops = Array.from(stopsByName.entries()).map(([name, stopList]) => {
-				if (stopList.length === 1) {
-					// Single stop ID for this name
-					return {
-						stopId: stopList[0].stopId,
-						stopCode: stopList[0].stopCode,
-						stopName: stopList[0].stopName,
-						lat: stopList[0].lat,
-						lon: stopList[0].lon,
-					};
-				} else {
-					// Multiple stop IDs for this name - combine them
-					// Use the first stop's coordinates (they should be very close)
-					return {
-						stopId: stopList.map(s => s.stopId).join(','),
-						stopCode: stopList.map(s => s.stopCode).join(','),
-						stopName: name,
-						lat: stopList[0].lat,
-						lon: stopList[0].lon,
-					};
-				}
-			}).sort((a, b) => a.stopName.localeCompare(b.stopName));
+			const snapshot = await staticSnapshots(c.env)?.get<TransitStop>(adapter.info.code, "stops", route);
+			const stops = snapshot ?? await adapter.getStops(route);
 
 			return {
 				success: true,
 				agency,
 				route,
-				stops,
+				stops: stops.map((stop) => withStopRef(agency, stop)),
 			};
 		} catch (error) {
 			console.error("Stops error:", error);
-			return Response.json(
-				{
-					success: false,
-					error: error instanceof Error ? error.message : "Failed to fetch stops",
-				},
-				{ status: 500 }
-			);
+			const response = agencyErrorResponse(error, agency);
+			if (response) {
+				return response;
+			}
+			return internalErrorResponse(error instanceof Error ? error.message : "Failed to fetch stops");
 		}
 	}
 }
\ No newline at end of file
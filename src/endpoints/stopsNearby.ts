@@ -0,0 +1,68 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, errorResponses } from "../types";
+import { MAX_SEARCH_LATITUDE, StopIndex } from "../stops/StopIndex";
+import { internalErrorResponse } from "../errors";
+import { stopRef } from "../stops/stopRef";
+import { HOUR, DAY, type ResponseCachePolicy } from "../cacheHeaders";
+import { ApiRoute } from "./apiRoute";
+
+export class StopsNearby extends ApiRoute {
+	schema = {
+		tags: ["Transit"],
+		summary: "Get the closest stops and stations across agencies",
+		request: {
+			query: z.object({
+				lat: z.coerce.number().min(-MAX_SEARCH_LATITUDE).max(MAX_SEARCH_LATITUDE).describe(`Latitude, within ${MAX_SEARCH_LATITUDE}° of the equator`),
+				lon: z.coerce.number().min(-180).max(180).describe("Longitude"),
+				radius: z.coerce.number().positive().max(2000).default(500).describe("Search radius in meters"),
+				limit: z.coerce.number().int().positive().max(100).default(20).describe("Maximum number of stops"),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Stops within the radius, closest first",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							stops: z.array(z.object({
+								agency: Str(),
+								stopId: Str(),
+								stopRef: Str({ description: "Stop reference, as <agency>:<stopId>" }),
+								stopName: Str(),
+								lat: z.number(),
+								lon: z.number(),
+								distance: z.number().describe("Meters from the search point"),
+								routes: z.array(Str()).describe("Routes (or BART lines) serving the stop"),
+							})),
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"400": "Invalid parameters",
+				"500": "Server error",
+			}),
+		},
+	};
+
+	cachePolicy: ResponseCachePolicy = { maxAge: HOUR, staleWhileRevalidate: DAY };
+
+	async handle(c: AppContext) {
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { lat, lon, radius, limit } = data.query;
+
+		try {
+			const stops = await new StopIndex(c.env.DB).nearby(lat, lon, radius, limit);
+
+			return {
+				success: true,
+				stops: stops.map((stop) => ({ ...stop, stopRef: stopRef(stop.agency, stop.stopId) })),
+			};
+		} catch (error) {
+			console.error("Nearby stops error:", error);
+			return internalErrorResponse("Failed to find nearby stops");
+		}
+	}
+}
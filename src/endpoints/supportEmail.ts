@@ -1,10 +1,12 @@
-import { Bool, OpenAPIRoute, Str } from "chanfana";
+import { Bool, Str } from "chanfana";
 import { z } from "zod";
-import { type AppContext } from "../types";
+import { type AppContext, errorResponses } from "../types";
 import { EmailMessage } from "cloudflare:email";
 import { createMimeMessage } from "mimetext/browser";
+import { internalErrorResponse } from "../errors";
+import { ApiRoute } from "./apiRoute";
 
-export class SupportEmail extends OpenAPIRoute {
+export class SupportEmail extends ApiRoute {
 	schema = {
 		tags: ["Support"],
 		summary: "Send support email",
@@ -32,17 +34,10 @@ export class SupportEmail extends OpenAPIRoute {
 					},
 				},
 			},
-			"500": {
-				description: "Failed to send email",
-				content: {
-					"application/json": {
-						schema: z.object({
-							success: Bool(),
-							error: Str(),
-						}),
-					},
-				},
-			},
+			...errorResponses({
+				"400": "Invalid parameters",
+				"500": "Failed to send email",
+			}),
 		},
 	};
 
@@ -86,13 +81,7 @@ export class SupportEmail extends OpenAPIRoute {
 			};
 		} catch (error) {
 			console.error("Email send error:", error);
-			return Response.json(
-				{
-					success: false,
-					error: "An error occurred while sending your message.",
-				},
-				{ status: 500 }
-			);
+			return internalErrorResponse("An error occurred while sending your message.");
 		}
 	}
 }
@@ -1,21 +1,26 @@
-import { OpenAPIRoute, Str, Num } from "chanfana";
+import { Bool, Str } from "chanfana";
 import { z } from "zod";
-import { type AppContext } from "../types";
-import { AcTransitClient, type TransitPrediction } from "../clients/AcTransitClient";
-import { BartClient, type BartPrediction } from "../clients/BartClient";
+import { type AppContext, ServiceAlertSchema, TransitPredictionSchema, errorResponses, UPSTREAM_ERRORS } from "../types";
+import { getPredictionsWithFallback, predictionAlerts } from "../clients/AgencyAdapter";
+import { agencyErrorResponse, internalErrorResponse, missingAgencyResponse, unsupportedAgencyResponse } from "../errors";
+import { getAgencyAdapter } from "../clients/registry";
+import { resolveStop, stopRef, withStopRef } from "../stops/stopRef";
+import type { ResponseCachePolicy } from "../cacheHeaders";
+import { ApiRoute } from "./apiRoute";
 
-export class TransitPredictions extends OpenAPIRoute {
+export class TransitPredictions extends ApiRoute {
 	schema = {
 		tags: ["Transit"],
 		summary: "Get transit predictions",
 		request: {
 			query: z.object({
 				agency: Str({ 
-					description: "Transit agency identifier (actransit or bart)",
+					description: "Transit agency identifier (see /api/transit/agencies); optional when stop is a stop reference",
+					required: false,
 					example: "actransit"
 				}),
 				stop: Str({ 
-					description: "Stop ID (numeric for AC Transit, station abbreviation for BART)",
+					description: "Stop ID (numeric for AC Transit, station abbreviation for BART), or a stop reference such as actransit:55558",
 					example: "55558"
 				}),
 				route: Str({ 
@@ -23,7 +28,7 @@ export class TransitPredictions extends OpenAPIRoute {
 					example: "NL"
 				}),
 				direction: Str({ 
-					description: "Direction of travel (optional for AC Transit, required for BART: 'n' or 's')",
+					description: "Direction of travel (optional for AC Transit, required for BART unless destination or via is given: 'n' or 's')",
 					required: false,
 					example: "To SF"
 				}),
@@ -31,6 +36,25 @@ export class TransitPredictions extends OpenAPIRoute {
 					description: "Destination headsign",
 					required: false 
 				}),
+				destination: Str({
+					description: "BART only: comma-separated station codes trains must terminate at",
+					required: false,
+					example: "SFIA",
+				}),
+				platform: Str({
+					description: "BART only: comma-separated platform numbers",
+					required: false,
+					example: "2",
+				}),
+				via: Str({
+					description: "BART only: station code trains must call at after the stop",
+					required: false,
+					example: "MONT",
+				}),
+				includeAlerts: Bool({
+					description: "Also return service alerts for the route and stop",
+					required: false,
+				}),
 			}),
 		},
 		responses: {
@@ -42,141 +66,65 @@ export class TransitPredictions extends OpenAPIRoute {
 							success: z.boolean(),
 							agency: Str(),
 							stop: Str(),
+							stopRef: Str(),
 							route: Str(),
-							predictions: z.array(z.object({
-								arrivalTime: Str({ description: "ISO 8601 arrival time" }),
-								departureTime: Str({ description: "ISO 8601 departure time" }),
-								stopName: Str(),
-								stopId: Str(),
-								route: Str(),
-								direction: Str(),
-								vehicleId: Str(),
-								minutesUntilArrival: Num({ description: "Minutes until arrival" }),
-							})),
-						}),
-					},
-				},
-			},
-			"400": {
-				description: "Bad request",
-				content: {
-					"application/json": {
-						schema: z.object({
-							success: z.boolean(),
-							error: Str(),
-						}),
-					},
-				},
-			},
-			"500": {
-				description: "Server error",
-				content: {
-					"application/json": {
-						schema: z.object({
-							success: z.boolean(),
-							error: Str(),
+							predictions: z.array(TransitPredictionSchema),
+							alerts: z.array(ServiceAlertSchema).optional(),
 						}),
 					},
 				},
 			},
+			...errorResponses({
+				"400": "Invalid parameters or unsupported agency",
+				"404": "Stop or route not found",
+				...UPSTREAM_ERRORS,
+				"500": "Server error",
+			}),
 		},
 	};
 
+	// Agencies refresh predictions every half minute or so
+	cachePolicy: ResponseCachePolicy = { maxAge: 15, staleWhileRevalidate: 15 };
+
 	async handle(c: AppContext) {
 		const data = await this.getValidatedData<typeof this.schema>();
-		const { agency, stop, route, direction, headsign } = data.query;
+		const { route, direction, headsign, destination, platform, via, includeAlerts } = data.query;
+		const target = resolveStop(data.query.stop, data.query.agency);
+		if (!target) {
+			return missingAgencyResponse();
+		}
+		const { agency, stop } = target;
 
 		try {
-			let predictions: TransitPrediction[] = [];
-
-			// Route to appropriate agency client
-			switch (agency.toLowerCase()) {
-				case "actransit":
-					const acTransitClient = new AcTransitClient(c.env.AC_TRANSIT_API_KEY);
-					predictions = await acTransitClient.getPredictions(stop, route);
-					break;
-					
-				case "bart":
-					// For BART, route is required and can be comma-separated
-					if (!route) {
-						return Response.json(
-							{
-								success: false,
-								error: "Route parameter is required for BART. Specify one or more line colors (e.g., 'red' or 'red,yellow').",
-							},
-							{ status: 400 }
-						);
-					}
-					
-					// Direction is required for BART
-					if (!direction || !['n', 's'].includes(direction.toLowerCase())) {
-						return Response.json(
-							{
-								success: false,
-								error: "Direction parameter is required for BART. Use 'n' for north or 's' for south.",
-							},
-							{ status: 400 }
-						);
-					}
-					
-					const bartClient = new BartClient(c.env.BART_API_KEY);
-					const lines = route.split(',').map(l => l.trim());
-					const bartPredictions = await bartClient.getPredictions(
-						stop.toUpperCase(), 
-						lines, 
-						direction.toLowerCase() as 'n' | 's'
-					);
-					predictions = bartPredictions;
-					break;
-					
-				default:
-					return Response.json(
-						{
-							success: false,
-							error: `Unsupported agency: ${agency}. Supported agencies are 'actransit' and 'bart'.`,
-						},
-						{ status: 400 }
-					);
+			const adapter = await getAgencyAdapter(c.env, agency, c.executionCtx);
+			if (!adapter) {
+				return unsupportedAgencyResponse(agency);
 			}
 
-			// Apply direction filter if provided (only for AC Transit)
-			// BART already filters by direction in the client
-			if (direction && agency.toLowerCase() !== 'bart') {
-				predictions = predictions.filter(p => 
-					p.direction.toLowerCase().includes(direction.toLowerCase())
-				);
-			}
+			const [predictions, alerts] = await Promise.all([
+				getPredictionsWithFallback(adapter, { stop, route, direction, headsign, destination, platform, via }),
+				includeAlerts ? predictionAlerts(adapter, { route, stop }) : undefined,
+			]);
 
 			return {
 				success: true,
 				agency,
 				stop,
+				stopRef: stopRef(agency, stop),
 				route,
-				predictions,
+				predictions: predictions.map((prediction) => withStopRef(agency, prediction)),
+				alerts,
 			};
 		} catch (error) {
 			console.error("Transit prediction error:", error);
 			
-			// Check if it's a known error type
-			if (error instanceof Error) {
-				if (error.message.includes("Only NL route")) {
-					return Response.json(
-						{
-							success: false,
-							error: error.message,
-						},
-						{ status: 400 }
-					);
-				}
+			// Adapters reject bad queries, and report a failing agency, with a status of their own
+			const response = agencyErrorResponse(error, agency);
+			if (response) {
+				return response;
 			}
 			
-			return Response.json(
-				{
-					success: false,
-					error: "Failed to fetch transit predictions",
-				},
-				{ status: 500 }
-			);
+			return internalErrorResponse("Failed to fetch transit predictions");
 		}
 	}
 }
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, ApiErrorSchema, ServiceAlertSchema, TransitPredictionSchema, errorResponses } from "../types";
+import { getPredictionsWithFallback, predictionAlerts, type AgencyAdapter } from "../clients/AgencyAdapter";
+import { getAgencyAdapter } from "../clients/registry";
+import { agencyError, apiError, missingAgencyError, unsupportedAgencyError } from "../errors";
+import { resolveStop, stopRef, withStopRef } from "../stops/stopRef";
+import { ApiRoute } from "./apiRoute";
+
+const MAX_QUERIES = 25;
+
+const PredictionQuerySchema = z.object({
+	agency: Str({ description: "Transit agency identifier; optional when stop is a stop reference", required: false, example: "bart" }),
+	stop: Str({ description: "Stop ID or station abbreviation, or a stop reference such as bart:EMBR", example: "EMBR" }),
+	route: Str({ description: "Route identifier or comma-separated BART line colors", example: "yellow" }),
+	direction: Str({ description: "Direction of travel (required for BART unless destination or via is given: 'n' or 's')", required: false, example: "n" }),
+	headsign: Str({ description: "Destination headsign", required: false }),
+	destination: Str({ description: "BART only: comma-separated station codes trains must terminate at", required: false, example: "SFIA" }),
+	platform: Str({ description: "BART only: comma-separated platform numbers", required: false, example: "2" }),
+	via: Str({ description: "BART only: station code trains must call at after the stop", required: false, example: "MONT" }),
+});
+
+export class TransitPredictionsBatch extends ApiRoute {
+	schema = {
+		tags: ["Transit"],
+		summary: "Get transit predictions for several stops in one request",
+		request: {
+			body: {
+				content: {
+					"application/json": {
+						schema: z.object({
+							queries: z.array(PredictionQuerySchema).min(1).max(MAX_QUERIES),
+							includeAlerts: Bool({
+								description: "Also return service alerts for each query's route and stop",
+								required: false,
+							}),
+						}),
+					},
+				},
+			},
+		},
+		responses: {
+			"200": {
+				description: "Returns one result per query, in request order",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							results: z.array(PredictionQuerySchema.extend({
+								stopRef: Str({ required: false, description: "Missing when the query names no agency" }),
+								success: Bool(),
+								predictions: z.array(TransitPredictionSchema).optional(),
+								alerts: z.array(ServiceAlertSchema).optional(),
+								error: ApiErrorSchema.optional(),
+							})),
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"400": "Invalid parameters",
+				"500": "Server error",
+			}),
+		},
+	};
+
+	async handle(c: AppContext) {
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { queries, includeAlerts } = data.body;
+
+		// One adapter per agency, so queries that need the same upstream call
+		// (e.g. BART favorites at one station) share a single request
+		const adapters = new Map<string, Promise<AgencyAdapter | undefined>>();
+		const adapterFor = (agency: string) => {
+			const code = agency.toLowerCase();
+			if (!adapters.has(code)) {
+				adapters.set(code, getAgencyAdapter(c.env, code, c.executionCtx));
+			}
+			return adapters.get(code);
+		};
+
+		const results = await Promise.all(queries.map(async (request) => {
+			// Results echo the query with the stop split into agency and stop ID
+			const target = resolveStop(request.stop, request.agency);
+			if (!target) {
+				return {
+					...request,
+					success: false,
+					error: missingAgencyError(),
+				};
+			}
+			const query = { ...request, ...target, stopRef: stopRef(target.agency, target.stop) };
+
+			try {
+				const adapter = await adapterFor(query.agency);
+				if (!adapter) {
+					return {
+						...query,
+						success: false,
+						error: unsupportedAgencyError(query.agency),
+					};
+				}
+
+				const { stop, route, direction, headsign, destination, platform, via } = query;
+				const [predictions, alerts] = await Promise.all([
+					getPredictionsWithFallback(adapter, { stop, route, direction, headsign, destination, platform, via }),
+					includeAlerts ? predictionAlerts(adapter, { route, stop }) : undefined,
+				]);
+
+				return {
+					...query,
+					success: true,
+					predictions: predictions.map((prediction) => withStopRef(query.agency, prediction)),
+					alerts,
+				};
+			} catch (error) {
+				console.error("Batch prediction error:", error);
+				return {
+					...query,
+					success: false,
+					error: agencyError(error, query.agency) ?? apiError("internal_error", "Failed to fetch transit predictions"),
+				};
+			}
+		}));
+
+		return {
+			success: true,
+			results,
+		};
+	}
+}
@@ -0,0 +1,65 @@
+import { Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, errorResponses } from "../types";
+import { getAgencyAdapter } from "../clients/registry";
+import { streamKey } from "../streams/PredictionStream";
+import { apiError, errorResponse, missingAgencyResponse, unsupportedAgencyResponse } from "../errors";
+import { resolveStop } from "../stops/stopRef";
+import { ApiRoute } from "./apiRoute";
+
+export class TransitPredictionsStream extends ApiRoute {
+	schema = {
+		tags: ["Transit"],
+		summary: "Subscribe to live predictions over a WebSocket",
+		description: "Upgrade to a WebSocket to receive `{\"type\":\"predictions\",\"predictions\":[...]}` whenever the predictions change, and `{\"type\":\"error\",\"error\":{\"code\":\"...\",...}}`, with the same error object as failed responses, when a poll fails. Send `ping` to get a `pong` back.",
+		request: {
+			query: z.object({
+				agency: Str({ description: "Transit agency identifier; optional when stop is a stop reference", required: false, example: "bart" }),
+				stop: Str({ description: "Stop ID or station abbreviation, or a stop reference such as bart:EMBR", example: "EMBR" }),
+				route: Str({ description: "Route identifier or comma-separated BART line colors", example: "yellow" }),
+				direction: Str({ description: "Direction of travel (required for BART unless destination or via is given: 'n' or 's')", required: false, example: "n" }),
+				headsign: Str({ description: "Destination headsign", required: false }),
+				destination: Str({ description: "BART only: comma-separated station codes trains must terminate at", required: false, example: "SFIA" }),
+				platform: Str({ description: "BART only: comma-separated platform numbers", required: false, example: "2" }),
+				via: Str({ description: "BART only: station code trains must call at after the stop", required: false, example: "MONT" }),
+			}),
+		},
+		responses: {
+			"101": {
+				description: "Switching to a WebSocket",
+			},
+			...errorResponses({
+				"400": "Invalid parameters or unsupported agency",
+				"426": "Not a WebSocket upgrade request",
+			}),
+		},
+	};
+
+	async handle(c: AppContext) {
+		if (c.req.header("upgrade")?.toLowerCase() !== "websocket") {
+			return errorResponse(426, apiError("upgrade_required", "Expected a WebSocket upgrade"));
+		}
+
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { route, direction, headsign, destination, platform, via } = data.query;
+		const target = resolveStop(data.query.stop, data.query.agency);
+		if (!target) {
+			return missingAgencyResponse();
+		}
+		const { agency, stop } = target;
+
+		const adapter = await getAgencyAdapter(c.env, agency, c.executionCtx);
+		if (!adapter) {
+			return unsupportedAgencyResponse(agency);
+		}
+
+		// Everyone watching the same query shares one object, and so one poller,
+		// however the stop and agency were written
+		const id = c.env.PREDICTION_STREAMS.idFromName(streamKey({ agency, stop, route, direction, headsign, destination, platform, via }));
+		// The object reads its query from the URL, so pass it the resolved stop
+		const url = new URL(c.req.url);
+		url.searchParams.set("agency", agency.toLowerCase());
+		url.searchParams.set("stop", stop);
+		return c.env.PREDICTION_STREAMS.get(id).fetch(new Request(url, c.req.raw));
+	}
+}
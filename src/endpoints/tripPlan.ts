@@ -0,0 +1,115 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, errorResponses, UPSTREAM_ERRORS } from "../types";
+import { TripPlanner, type TripPoint } from "../trips/TripPlanner";
+import { agencyErrorResponse, apiError, errorResponse, internalErrorResponse } from "../errors";
+import type { ResponseCachePolicy } from "../cacheHeaders";
+import { ApiRoute } from "./apiRoute";
+
+const TripPlaceSchema = z.object({
+	name: Str(),
+	agency: Str().nullable(),
+	stopId: Str().nullable(),
+	stopRef: Str({ description: "Stop reference, as <agency>:<stopId>" }).nullable(),
+	lat: z.number().nullable().describe("Null for BART stations a trip changes trains at"),
+	lon: z.number().nullable(),
+});
+
+const TripLegSchema = z.object({
+	mode: z.enum(["walk", "bus", "rail"]),
+	from: TripPlaceSchema,
+	to: TripPlaceSchema,
+	departureTime: Str(),
+	arrivalTime: Str(),
+	agency: Str().nullable(),
+	route: Str().nullable().describe("Bus route or BART line color"),
+	headsign: Str().nullable(),
+	vehicleId: Str().nullable(),
+	source: z.enum(["realtime", "scheduled"]).nullable().describe("Realtime for bus legs, and for a BART train timed by its live departure"),
+	distance: z.number().nullable().describe("Meters, for walking legs"),
+});
+
+export class TripPlan extends ApiRoute {
+	schema = {
+		tags: ["Transit"],
+		summary: "Plan a trip on AC Transit and BART, including transfers between them",
+		request: {
+			query: z.object({
+				from: Str({ description: "Starting point as lat,lon", example: "37.8044,-122.2712" }),
+				to: Str({ description: "Destination as lat,lon", example: "37.7749,-122.4194" }),
+				limit: z.coerce.number().int().positive().max(5).default(3).describe("Maximum number of itineraries"),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Itineraries leaving now, earliest arrival first",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							itineraries: z.array(z.object({
+								departureTime: Str(),
+								arrivalTime: Str(),
+								durationMinutes: z.number(),
+								transfers: z.number(),
+								legs: z.array(TripLegSchema),
+							})),
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"400": "Invalid coordinates",
+				"404": "Stop not found",
+				...UPSTREAM_ERRORS,
+				"500": "Server error",
+			}),
+		},
+	};
+
+	// Itineraries leave now, so they age with the clock
+	cachePolicy: ResponseCachePolicy = { maxAge: 30 };
+
+	async handle(c: AppContext) {
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { limit } = data.query;
+
+		const from = parsePoint(data.query.from);
+		const to = parsePoint(data.query.to);
+		if (!from || !to) {
+			return errorResponse(400, apiError("invalid_request", "from and to must be lat,lon coordinates", {
+				param: from ? "to" : "from",
+			}));
+		}
+
+		try {
+			const itineraries = await new TripPlanner(c.env).plan(from, to, limit);
+
+			return {
+				success: true,
+				itineraries,
+			};
+		} catch (error) {
+			console.error("Trip plan error:", error);
+			const response = agencyErrorResponse(error, null);
+			if (response) {
+				return response;
+			}
+			return internalErrorResponse("Failed to plan trip");
+		}
+	}
+}
+
+function parsePoint(value: string): TripPoint | null {
+	const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+	if (!match) {
+		return null;
+	}
+
+	const lat = parseFloat(match[1]);
+	const lon = parseFloat(match[2]);
+	if (Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+		return null;
+	}
+	return { lat, lon };
+}
@@ -0,0 +1,76 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, TransitVehicleSchema, errorResponses, UPSTREAM_ERRORS } from "../types";
+import { getAgencyAdapter } from "../clients/registry";
+import { stopRef } from "../stops/stopRef";
+import { agencyErrorResponse, internalErrorResponse, unsupportedAgencyResponse } from "../errors";
+import type { ResponseCachePolicy } from "../cacheHeaders";
+import { ApiRoute } from "./apiRoute";
+
+export class Vehicles extends ApiRoute {
+	schema = {
+		tags: ["Transit"],
+		summary: "Get current vehicle positions on a route",
+		request: {
+			query: z.object({
+				agency: Str({ description: "Transit agency code", example: "actransit" }),
+				route: Str({ description: "Route identifier (line color for BART)", example: "NL" }),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Vehicles on the route. BART positions are estimated from departure estimates.",
+				content: {
+					"application/json": {
+						schema: z.object({
+							success: Bool(),
+							agency: Str(),
+							route: Str(),
+							vehicles: z.array(TransitVehicleSchema),
+						}),
+					},
+				},
+			},
+			...errorResponses({
+				"400": "Invalid parameters",
+				"404": "Route not found",
+				...UPSTREAM_ERRORS,
+				"500": "Server error",
+			}),
+		},
+	};
+
+	// Positions move on every poll
+	cachePolicy: ResponseCachePolicy = { maxAge: 10 };
+
+	async handle(c: AppContext) {
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { agency, route } = data.query;
+
+		try {
+			const adapter = await getAgencyAdapter(c.env, agency, c.executionCtx);
+			if (!adapter) {
+				return unsupportedAgencyResponse(agency);
+			}
+
+			const vehicles = await adapter.getVehicles(route);
+
+			return {
+				success: true,
+				agency,
+				route,
+				vehicles: vehicles.map((vehicle) => ({
+					...vehicle,
+					nextStopRef: vehicle.nextStopId ? stopRef(agency, vehicle.nextStopId) : null,
+				})),
+			};
+		} catch (error) {
+			console.error("Vehicles error:", error);
+			const response = agencyErrorResponse(error, agency);
+			if (response) {
+				return response;
+			}
+			return internalErrorResponse("Failed to fetch vehicle positions");
+		}
+	}
+}
@@ -4,8 +4,28 @@ interface Env {
 	AC_TRANSIT_API_KEY: string;
 	ADMIN_SYNC_TOKEN: string;
 	
-	// Email binding
+	// Where agency responses come from: live (default), mock or record
+	UPSTREAM_MODE?: string;
+	
+	// Static transit data cache
+	TRANSIT_CACHE: KVNamespace;
+	
+	// D1 database (GTFS feeds, favorites)
+	DB: D1Database;
+	
+	// One Durable Object per departure alert
+	DEPARTURE_ALERTS: DurableObjectNamespace<import("./alerts/DepartureAlertWatcher").DepartureAlertWatcher>;
+	
+	// One Durable Object per streamed prediction query
+	PREDICTION_STREAMS: DurableObjectNamespace<import("./streams/PredictionStream").PredictionStream>;
+	
+	// Email bindings
 	SUPPORT_EMAIL: SendEmail;
+	ALERT_EMAIL: SendEmail;
+
+	// Comma-separated addresses verified in Email Routing. When set, alerts
+	// to any other address are refused, since ALERT_EMAIL can't reach them.
+	ALERT_EMAIL_RECIPIENTS?: string;
 	
 	// Assets
 	ASSETS: Fetcher;
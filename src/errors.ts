@@ -0,0 +1,138 @@
+import type { ZodIssue } from "zod";
+import { AgencyRequestError, UnknownRouteError, UnknownStopError } from "./clients/AgencyAdapter";
+import { unsupportedAgencyMessage } from "./clients/registry";
+import { QuotaExceededError, UpstreamError, UpstreamUnavailableError } from "./clients/UpstreamHttp";
+
+/**
+ * Stable error codes clients can branch on. New codes may be added, but
+ * existing ones keep their meaning.
+ */
+export const ERROR_CODES = [
+	"invalid_request",
+	"unsupported_agency",
+	"unauthorized",
+	"not_found",
+	"stop_not_found",
+	"route_not_found",
+	"upgrade_required",
+	"quota_exceeded",
+	"internal_error",
+	"upstream_error",
+	"upstream_unavailable",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+/**
+ * The `error` of every failed response: `{ success: false, error }`.
+ */
+export interface ApiError {
+	code: ErrorCode;
+	// Human-readable; may change, so don't match on it
+	message: string;
+	// Request parameter at fault, when a single one is
+	param: string | null;
+	// Agency the error concerns, e.g. the one whose API failed
+	agency: string | null;
+}
+
+export function apiError(code: ErrorCode, message: string, details: { param?: string | null; agency?: string | null } = {}): ApiError {
+	return {
+		code,
+		message,
+		param: details.param ?? null,
+		agency: details.agency ?? null,
+	};
+}
+
+export function errorResponse(status: number, error: ApiError, headers?: HeadersInit): Response {
+	return Response.json(
+		{
+			success: false,
+			error,
+		},
+		{ status, headers }
+	);
+}
+
+export function internalErrorResponse(message: string): Response {
+	return errorResponse(500, apiError("internal_error", message));
+}
+
+export function unsupportedAgencyError(agency: string): ApiError {
+	return apiError("unsupported_agency", unsupportedAgencyMessage(agency), { param: "agency", agency });
+}
+
+export function unsupportedAgencyResponse(agency: string): Response {
+	return errorResponse(400, unsupportedAgencyError(agency));
+}
+
+export function missingAgencyError(): ApiError {
+	return apiError("invalid_request", "Agency parameter is required unless stop is a stop reference such as bart:EMBR", {
+		param: "agency",
+	});
+}
+
+export function missingAgencyResponse(): Response {
+	return errorResponse(400, missingAgencyError());
+}
+
+/**
+ * Describes an error an agency adapter raised on purpose: a bad query, an
+ * unknown stop or route, or a failing upstream API. Returns null for
+ * anything else. Upstream errors name the agency whose API failed; the rest
+ * are attributed to the requested agency.
+ */
+export function agencyError(error: unknown, agency: string | null): ApiError | null {
+	if (error instanceof UnknownStopError) {
+		return apiError("stop_not_found", error.message, { param: error.param, agency });
+	}
+	if (error instanceof UnknownRouteError) {
+		return apiError("route_not_found", error.message, { param: error.param, agency });
+	}
+	if (error instanceof AgencyRequestError) {
+		return apiError(error.status === 404 ? "not_found" : "invalid_request", error.message, { param: error.param, agency });
+	}
+	if (error instanceof QuotaExceededError) {
+		return apiError("quota_exceeded", error.message, { agency: error.agency });
+	}
+	if (error instanceof UpstreamUnavailableError) {
+		return apiError("upstream_unavailable", error.message, { agency: error.agency });
+	}
+	if (error instanceof UpstreamError) {
+		return apiError("upstream_error", error.message, { agency: error.agency });
+	}
+	return null;
+}
+
+/**
+ * The response for an agencyError: 400 for a bad query, 404 for an unknown
+ * stop or route, 429 when the agency is rate limiting us, 502 for an
+ * unusable upstream answer and 503 for an agency that is down. Returns null
+ * for anything else, which endpoints report as a 500.
+ */
+export function agencyErrorResponse(error: unknown, agency: string | null): Response | null {
+	const body = agencyError(error, agency);
+	if (!body) {
+		return null;
+	}
+
+	const { status } = error as AgencyRequestError | UpstreamError;
+	const retryAfter = error instanceof UpstreamError ? error.retryAfter : null;
+	return errorResponse(status, body, retryAfter ? { "Retry-After": String(retryAfter) } : undefined);
+}
+
+/**
+ * Folds request validation issues into one error, naming the first
+ * offending parameter.
+ */
+export function validationError(issues: ZodIssue[]): ApiError {
+	// Paths start with where the parameter was sent: query, params, body...
+	const describe = (issue: ZodIssue) => {
+		const param = issue.path.slice(1).join(".");
+		return param ? `${param}: ${issue.message}` : issue.message;
+	};
+	return apiError("invalid_request", issues.map(describe).join("; "), {
+		param: issues[0]?.path.slice(1).join(".") || null,
+	});
+}
@@ -0,0 +1,173 @@
+import { deviceOwner } from "../auth";
+
+export interface FavoriteFields {
+	agency: string;
+	agencyName?: string | null;
+	stop: string;
+	stopName?: string | null;
+	route: string;
+	direction?: string | null;
+	headsign?: string | null;
+	name?: string | null;
+}
+
+export interface StoredFavorite extends FavoriteFields {
+	id: string;
+	position: number;
+	createdAt: string;
+	updatedAt: string;
+}
+
+interface FavoriteRow {
+	id: string;
+	agency: string;
+	agency_name: string | null;
+	stop: string;
+	stop_name: string | null;
+	route: string;
+	direction: string | null;
+	headsign: string | null;
+	name: string | null;
+	position: number;
+	created_at: string;
+	updated_at: string;
+}
+
+// Keeps one device from filling the table
+export const MAX_FAVORITES = 100;
+
+/**
+ * Thrown when a change would leave the favorites list in an invalid state.
+ */
+export class FavoritesError extends Error {
+	readonly status: 400 | 404;
+
+	constructor(message: string, status: 400 | 404 = 400) {
+		super(message);
+		this.name = "FavoritesError";
+		this.status = status;
+	}
+}
+
+/**
+ * Favorites for one anonymous device token, stored in D1 under a hash of
+ * the token.
+ */
+export class FavoritesStore {
+	private readonly db: D1Database;
+	private readonly owner: string;
+
+	private constructor(db: D1Database, owner: string) {
+		this.db = db;
+		this.owner = owner;
+	}
+
+	static async forToken(db: D1Database, token: string): Promise<FavoritesStore> {
+		return new FavoritesStore(db, await deviceOwner(token));
+	}
+
+	async list(): Promise<StoredFavorite[]> {
+		const { results } = await this.db.prepare(
+			"SELECT * FROM favorites WHERE owner = ? ORDER BY position, created_at"
+		).bind(this.owner).all<FavoriteRow>();
+		return results.map(toFavorite);
+	}
+
+	async create(fields: FavoriteFields): Promise<StoredFavorite> {
+		const count = await this.db.prepare("SELECT COUNT(*) AS count FROM favorites WHERE owner = ?")
+			.bind(this.owner)
+			.first<number>("count");
+		if (count >= MAX_FAVORITES) {
+			throw new FavoritesError(`A device can save at most ${MAX_FAVORITES} favorites`);
+		}
+
+		const id = crypto.randomUUID();
+		const now = new Date().toISOString();
+
+		// New favorites go to the end of the list
+		await this.db.prepare(
+			`INSERT INTO favorites (id, owner, agency, agency_name, stop, stop_name, route, direction, headsign, name, position, created_at, updated_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, (SELECT COALESCE(MAX(position) + 1, 0) FROM favorites WHERE owner = ?), ?, ?)`
+		).bind(
+			id,
+			this.owner,
+			fields.agency,
+			fields.agencyName ?? null,
+			fields.stop,
+			fields.stopName ?? null,
+			fields.route,
+			fields.direction ?? null,
+			fields.headsign ?? null,
+			fields.name ?? null,
+			this.owner,
+			now,
+			now
+		).run();
+
+		return this.get(id);
+	}
+
+	async get(id: string): Promise<StoredFavorite> {
+		const row = await this.db.prepare("SELECT * FROM favorites WHERE owner = ? AND id = ?")
+			.bind(this.owner, id)
+			.first<FavoriteRow>();
+		if (!row) {
+			throw new FavoritesError(`Favorite ${id} not found`, 404);
+		}
+		return toFavorite(row);
+	}
+
+	async rename(id: string, name: string | null): Promise<StoredFavorite> {
+		const result = await this.db.prepare(
+			"UPDATE favorites SET name = ?, updated_at = ? WHERE owner = ? AND id = ?"
+		).bind(name, new Date().toISOString(), this.owner, id).run();
+
+		if (result.meta.changes === 0) {
+			throw new FavoritesError(`Favorite ${id} not found`, 404);
+		}
+		return this.get(id);
+	}
+
+	/**
+	 * Reorders the list to match ids, which must name every favorite exactly once.
+	 */
+	async reorder(ids: string[]): Promise<StoredFavorite[]> {
+		const existing = await this.list();
+		const existingIds = new Set(existing.map((favorite) => favorite.id));
+
+		if (ids.length !== existing.length || new Set(ids).size !== ids.length || !ids.every((id) => existingIds.has(id))) {
+			throw new FavoritesError("Order must list every favorite id exactly once");
+		}
+
+		const now = new Date().toISOString();
+		await this.db.batch(ids.map((id, position) =>
+			this.db.prepare("UPDATE favorites SET position = ?, updated_at = ? WHERE owner = ? AND id = ?")
+				.bind(position, now, this.owner, id)
+		));
+
+		return this.list();
+	}
+
+	async delete(id: string): Promise<StoredFavorite> {
+		const favorite = await this.get(id);
+		await this.db.prepare("DELETE FROM favorites WHERE owner = ? AND id = ?").bind(this.owner, id).run();
+		return favorite;
+	}
+}
+
+function toFavorite(row: FavoriteRow): StoredFavorite {
+	return {
+		id: row.id,
+		agency: row.agency,
+		agencyName: row.agency_name,
+		stop: row.stop,
+		stopName: row.stop_name,
+		route: row.route,
+		direction: row.direction,
+		headsign: row.headsign,
+		name: row.name,
+		position: row.position,
+		createdAt: row.created_at,
+		updatedAt: row.updated_at,
+	};
+}
@@ -0,0 +1,71 @@
+/**
+ * Parses a GTFS CSV file into one record per row, keyed by the header names.
+ * Handles quoted fields, escaped quotes, CRLF line endings and a leading BOM.
+ */
+export function parseCsv(text: string): Array<Record<string, string>> {
+	const rows = parseRows(text.replace(/^\uFEFF/, ""));
+	const header = rows.shift();
+	if (!header) {
+		return [];
+	}
+
+	const columns = header.map((name) => name.trim());
+	return rows
+		.filter((row) => row.length > 1 || row[0] !== "")
+		.map((row) => {
+			const record: Record<string, string> = {};
+			columns.forEach((column, i) => {
+				record[column] = (row[i] ?? "").trim();
+			});
+			return record;
+		});
+}
+
+function parseRows(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let inQuotes = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (inQuotes) {
+			if (char === '"') {
+				if (text[i + 1] === '"') {
+					field += '"';
+					i++;
+				} else {
+					inQuotes = false;
+				}
+			} else {
+				field += char;
+			}
+			continue;
+		}
+
+		if (char === '"') {
+			inQuotes = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[i + 1] === "\n") {
+				i++;
+			}
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+
+	if (field !== "" || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	return rows;
+}
@@ -0,0 +1,284 @@
+import { strFromU8, unzipSync } from "fflate";
+import { parseCsv } from "./csv";
+
+const REQUIRED_FILES = ["agency.txt", "routes.txt", "stops.txt", "trips.txt", "stop_times.txt"];
+const OPTIONAL_FILES = ["calendar.txt", "calendar_dates.txt"];
+
+// D1 caps how much a single batch may do, so large tables are written in chunks
+const BATCH_SIZE = 500;
+
+// Every table but gtfs_feeds, whose row says the feed is there to serve
+const FEED_TABLES = [
+	"gtfs_agencies",
+	"gtfs_routes",
+	"gtfs_stops",
+	"gtfs_trips",
+	"gtfs_stop_times",
+	"gtfs_calendar",
+	"gtfs_calendar_dates",
+	"gtfs_route_stops",
+];
+
+// Rows are loaded under this suffix and only take the feed's own ID once
+// all of them are in. Feed IDs can't contain a dot, so it can't collide.
+const STAGING_SUFFIX = ".staging";
+
+export interface GtfsImportSummary {
+	feedId: string;
+	name: string;
+	timezone: string;
+	realtimeUrl: string | null;
+	agencies: number;
+	routes: number;
+	stops: number;
+	trips: number;
+	stopTimes: number;
+	services: number;
+	serviceExceptions: number;
+}
+
+/**
+ * Thrown when the uploaded archive is not a usable GTFS feed.
+ */
+export class GtfsImportError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "GtfsImportError";
+	}
+}
+
+/**
+ * Replaces everything stored for a feed with the contents of a GTFS zip.
+ * The feed keeps its GTFS-Realtime URL across imports unless a new one is given.
+ * The new rows are staged first and swapped in by one batch, which D1 runs as
+ * a transaction, so a failed import leaves the previous one serving.
+ */
+export async function importGtfsFeed(
+	db: D1Database,
+	feedId: string,
+	archive: Uint8Array,
+	realtimeUrl?: string
+): Promise<GtfsImportSummary> {
+	const files = readArchive(archive);
+
+	const agencies = files["agency.txt"];
+	const routes = files["routes.txt"];
+	const stops = files["stops.txt"];
+	const trips = files["trips.txt"];
+	const stopTimes = files["stop_times.txt"];
+	const calendar = files["calendar.txt"] || [];
+	const calendarDates = files["calendar_dates.txt"] || [];
+
+	const primaryAgency = agencies[0];
+	if (!primaryAgency?.agency_name || !primaryAgency.agency_timezone) {
+		throw new GtfsImportError("agency.txt must list at least one agency with a name and timezone");
+	}
+
+	const previous = await db.prepare("SELECT realtime_url FROM gtfs_feeds WHERE feed_id = ?")
+		.bind(feedId)
+		.first<{ realtime_url: string | null }>();
+	const feedRealtimeUrl = realtimeUrl || previous?.realtime_url || null;
+
+	const staging = `${feedId}${STAGING_SUFFIX}`;
+	// Clear out whatever an earlier import that died part way left behind
+	await clearFeed(db, staging);
+
+	try {
+		await stageFeed(db, staging, files, primaryAgency.agency_timezone);
+	} catch (error) {
+		await clearFeed(db, staging).catch((cleanupError) => console.error("GTFS staging cleanup error:", cleanupError));
+		throw error;
+	}
+
+	await db.batch([
+		...FEED_TABLES.flatMap((table) => [
+			db.prepare(`DELETE FROM ${table} WHERE feed_id = ?`).bind(feedId),
+			db.prepare(`UPDATE ${table} SET feed_id = ? WHERE feed_id = ?`).bind(feedId, staging),
+		]),
+		db.prepare("DELETE FROM gtfs_feeds WHERE feed_id = ?").bind(feedId),
+		db.prepare(
+			"INSERT INTO gtfs_feeds (feed_id, name, timezone, url, realtime_url, imported_at) VALUES (?, ?, ?, ?, ?, ?)"
+		).bind(feedId, primaryAgency.agency_name, primaryAgency.agency_timezone, primaryAgency.agency_url || null, feedRealtimeUrl, new Date().toISOString()),
+	]);
+
+	return {
+		feedId,
+		name: primaryAgency.agency_name,
+		timezone: primaryAgency.agency_timezone,
+		realtimeUrl: feedRealtimeUrl,
+		agencies: agencies.length,
+		routes: routes.length,
+		stops: stops.length,
+		trips: trips.length,
+		stopTimes: stopTimes.length,
+		services: calendar.length,
+		serviceExceptions: calendarDates.length,
+	};
+}
+
+async function stageFeed(
+	db: D1Database,
+	feedId: string,
+	files: Record<string, Array<Record<string, string>>>,
+	defaultTimezone: string
+) {
+	await runInBatches(db, files["agency.txt"].map((agency) =>
+		db.prepare("INSERT INTO gtfs_agencies (feed_id, agency_id, name, url, timezone) VALUES (?, ?, ?, ?, ?)")
+			.bind(feedId, agency.agency_id || "", agency.agency_name, agency.agency_url || null, agency.agency_timezone || defaultTimezone)
+	));
+
+	await runInBatches(db, files["routes.txt"].map((route) =>
+		db.prepare("INSERT INTO gtfs_routes (feed_id, route_id, agency_id, short_name, long_name, route_type) VALUES (?, ?, ?, ?, ?, ?)")
+			.bind(feedId, route.route_id, route.agency_id || null, route.route_short_name || null, route.route_long_name || null, toInteger(route.route_type))
+	));
+
+	await runInBatches(db, files["stops.txt"].map((stop) =>
+		db.prepare("INSERT INTO gtfs_stops (feed_id, stop_id, stop_code, name, lat, lon, parent_station) VALUES (?, ?, ?, ?, ?, ?, ?)")
+			.bind(feedId, stop.stop_id, stop.stop_code || null, stop.stop_name || stop.stop_id, toNumber(stop.stop_lat), toNumber(stop.stop_lon), stop.parent_station || null)
+	));
+
+	await runInBatches(db, files["trips.txt"].map((trip) =>
+		db.prepare("INSERT INTO gtfs_trips (feed_id, trip_id, route_id, service_id, direction_id, headsign) VALUES (?, ?, ?, ?, ?, ?)")
+			.bind(feedId, trip.trip_id, trip.route_id, trip.service_id, toInteger(trip.direction_id), trip.trip_headsign || null)
+	));
+
+	await runInBatches(db, files["stop_times.txt"].map((stopTime) =>
+		db.prepare("INSERT INTO gtfs_stop_times (feed_id, trip_id, stop_id, stop_sequence, arrival_time, departure_time) VALUES (?, ?, ?, ?, ?, ?)")
+			.bind(feedId, stopTime.trip_id, stopTime.stop_id, toInteger(stopTime.stop_sequence), stopTime.arrival_time || null, stopTime.departure_time || null)
+	));
+
+	await runInBatches(db, (files["calendar.txt"] || []).map((service) =>
+		db.prepare("INSERT INTO gtfs_calendar (feed_id, service_id, monday, tuesday, wednesday, thursday, friday, saturday, sunday, start_date, end_date) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)")
+			.bind(
+				feedId,
+				service.service_id,
+				toInteger(service.monday) ?? 0,
+				toInteger(service.tuesday) ?? 0,
+				toInteger(service.wednesday) ?? 0,
+				toInteger(service.thursday) ?? 0,
+				toInteger(service.friday) ?? 0,
+				toInteger(service.saturday) ?? 0,
+				toInteger(service.sunday) ?? 0,
+				service.start_date,
+				service.end_date
+			)
+	));
+
+	await runInBatches(db, (files["calendar_dates.txt"] || []).map((exception) =>
+		db.prepare("INSERT INTO gtfs_calendar_dates (feed_id, service_id, date, exception_type) VALUES (?, ?, ?, ?)")
+			.bind(feedId, exception.service_id, exception.date, toInteger(exception.exception_type))
+	));
+
+	await runInBatches(db, buildRouteStops(files["trips.txt"], files["stop_times.txt"]).map((routeStop) =>
+		db.prepare("INSERT INTO gtfs_route_stops (feed_id, route_id, direction_id, stop_id, headsign) VALUES (?, ?, ?, ?, ?)")
+			.bind(feedId, routeStop.routeId, routeStop.directionId, routeStop.stopId, routeStop.headsign)
+	));
+}
+
+async function clearFeed(db: D1Database, feedId: string) {
+	await db.batch(FEED_TABLES.map((table) =>
+		db.prepare(`DELETE FROM ${table} WHERE feed_id = ?`).bind(feedId)
+	));
+}
+
+function readArchive(archive: Uint8Array): Record<string, Array<Record<string, string>>> {
+	let entries: Record<string, Uint8Array>;
+	try {
+		entries = unzipSync(archive, {
+			// Only inflate the files we import; feeds often ship large shapes.txt
+			filter: (file) => [...REQUIRED_FILES, ...OPTIONAL_FILES].includes(baseName(file.name)),
+		});
+	} catch (error) {
+		throw new GtfsImportError("Upload is not a valid zip archive");
+	}
+
+	// Some feeds nest their files in a folder inside the zip
+	const files: Record<string, Array<Record<string, string>>> = {};
+	for (const [name, contents] of Object.entries(entries)) {
+		files[baseName(name)] = parseCsv(strFromU8(contents));
+	}
+
+	const missing = REQUIRED_FILES.filter((name) => !files[name]);
+	if (missing.length > 0) {
+		throw new GtfsImportError(`GTFS feed is missing ${missing.join(", ")}`);
+	}
+
+	return files;
+}
+
+interface RouteStop {
+	routeId: string;
+	directionId: number;
+	stopId: string;
+	headsign: string | null;
+}
+
+function buildRouteStops(
+	trips: Array<Record<string, string>>,
+	stopTimes: Array<Record<string, string>>
+): RouteStop[] {
+	const tripsById = new Map(trips.map((trip) => [trip.trip_id, trip]));
+
+	// Count headsigns per route/direction/stop so each keeps its most common one
+	const headsignCounts = new Map<string, { routeStop: RouteStop; counts: Map<string, number> }>();
+
+	for (const stopTime of stopTimes) {
+		const trip = tripsById.get(stopTime.trip_id);
+		if (!trip) {
+			continue;
+		}
+
+		const directionId = toInteger(trip.direction_id) ?? 0;
+		const key = `${trip.route_id}\u0000${directionId}\u0000${stopTime.stop_id}`;
+		let entry = headsignCounts.get(key);
+		if (!entry) {
+			entry = {
+				routeStop: { routeId: trip.route_id, directionId, stopId: stopTime.stop_id, headsign: null },
+				counts: new Map(),
+			};
+			headsignCounts.set(key, entry);
+		}
+
+		if (trip.trip_headsign) {
+			entry.counts.set(trip.trip_headsign, (entry.counts.get(trip.trip_headsign) || 0) + 1);
+		}
+	}
+
+	return Array.from(headsignCounts.values()).map(({ routeStop, counts }) => {
+		let best: string | null = null;
+		let bestCount = 0;
+		for (const [headsign, count] of counts) {
+			if (count > bestCount) {
+				best = headsign;
+				bestCount = count;
+			}
+		}
+		return { ...routeStop, headsign: best };
+	});
+}
+
+async function runInBatches(db: D1Database, statements: D1PreparedStatement[]) {
+	for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+		await db.batch(statements.slice(i, i + BATCH_SIZE));
+	}
+}
+
+function baseName(path: string): string {
+	return path.substring(path.lastIndexOf("/") + 1);
+}
+
+function toInteger(value: string | undefined): number | null {
+	if (value === undefined || value === "") {
+		return null;
+	}
+	const parsed = parseInt(value, 10);
+	return isNaN(parsed) ? null : parsed;
+}
+
+function toNumber(value: string | undefined): number | null {
+	if (value === undefined || value === "") {
+		return null;
+	}
+	const parsed = parseFloat(value);
+	return isNaN(parsed) ? null : parsed;
+}
@@ -1,17 +1,38 @@
 import { fromHono } from "chanfana";
 import { Hono } from "hono";
-import { TaskCreate } from "./endpoints/taskCreate";
-import { TaskDelete } from "./endpoints/taskDelete";
-import { TaskFetch } from "./endpoints/taskFetch";
-import { TaskList } from "./endpoints/taskList";
+import { AlertCancel } from "./endpoints/alertCancel";
+import { AlertCreate } from "./endpoints/alertCreate";
+import { AlertList } from "./endpoints/alertList";
+import { FavoriteCreate } from "./endpoints/favoriteCreate";
+import { FavoriteDelete } from "./endpoints/favoriteDelete";
+import { FavoriteList } from "./endpoints/favoriteList";
+import { FavoriteReorder } from "./endpoints/favoriteReorder";
+import { FavoriteUpdate } from "./endpoints/favoriteUpdate";
 import { SupportEmail } from "./endpoints/supportEmail";
 import { TransitPredictions } from "./endpoints/transitPredictions";
+import { TransitPredictionsBatch } from "./endpoints/transitPredictionsBatch";
+import { TransitPredictionsStream } from "./endpoints/transitPredictionsStream";
 import { Agencies } from "./endpoints/agencies";
+import { ServiceAlerts } from "./endpoints/serviceAlerts";
 import { Routes } from "./endpoints/routes";
+import { RouteShapes } from "./endpoints/routeShapes";
 import { Stops } from "./endpoints/stops";
 import { StopDirections } from "./endpoints/stopDirections";
+import { StopGroups } from "./endpoints/stopGroups";
+import { StopsNearby } from "./endpoints/stopsNearby";
+import { StopTimetable } from "./endpoints/stopTimetable";
+import { TripPlan } from "./endpoints/tripPlan";
+import { Vehicles } from "./endpoints/vehicles";
 import { BartStations } from "./endpoints/bartStations";
 import { BartStationLines } from "./endpoints/bartStationLines";
+import { BartLines } from "./endpoints/bartLines";
+import { CachePurge } from "./endpoints/cachePurge";
+import { GtfsImport } from "./endpoints/gtfsImport";
+import { StopIndexRebuild } from "./endpoints/stopIndexRebuild";
+import { StaticSync } from "./endpoints/staticSync";
+import { syncStaticData } from "./sync/syncStaticData";
+import { apiError, errorResponse, internalErrorResponse } from "./errors";
+import { conditionalRequests } from "./cacheHeaders";
 
 // Start a Hono app
 const app = new Hono<{ Bindings: Env }>();
@@ -21,28 +42,74 @@ const openapi = fromHono(app, {
 	docs_url: "/",
 });
 
+// ETags and 304s for transit responses, by the cache policy each endpoint declares
+app.use("/api/transit/*", conditionalRequests);
+
 // Register OpenAPI endpoints
-openapi.get("/api/tasks", TaskList);
-openapi.post("/api/tasks", TaskCreate);
-openapi.get("/api/tasks/:taskSlug", TaskFetch);
-openapi.delete("/api/tasks/:taskSlug", TaskDelete);
+openapi.get("/api/favorites", FavoriteList);
+openapi.post("/api/favorites", FavoriteCreate);
+openapi.put("/api/favorites/order", FavoriteReorder);
+openapi.patch("/api/favorites/:favoriteId", FavoriteUpdate);
+openapi.delete("/api/favorites/:favoriteId", FavoriteDelete);
+
+// Departure alert endpoints
+openapi.get("/api/alerts", AlertList);
+openapi.post("/api/alerts", AlertCreate);
+openapi.delete("/api/alerts/:alertId", AlertCancel);
 
 // Support endpoint
 openapi.post("/api/support", SupportEmail);
 
 // Transit API endpoints
 openapi.get("/api/transit/predictions", TransitPredictions);
+openapi.post("/api/transit/predictions/batch", TransitPredictionsBatch);
+openapi.get("/api/transit/predictions/stream", TransitPredictionsStream);
 openapi.get("/api/transit/agencies", Agencies);
+openapi.get("/api/transit/alerts", ServiceAlerts);
 openapi.get("/api/transit/routes", Routes);
+openapi.get("/api/transit/routes/:route/shape", RouteShapes);
 openapi.get("/api/transit/stops", Stops);
+openapi.get("/api/transit/stops/nearby", StopsNearby);
+openapi.get("/api/transit/stops/:stop/timetable", StopTimetable);
 openapi.get("/api/transit/stop-directions", StopDirections);
+openapi.get("/api/transit/stop-groups", StopGroups);
+openapi.get("/api/transit/trips", TripPlan);
+openapi.get("/api/transit/vehicles", Vehicles);
 openapi.get("/api/transit/bart/stations", BartStations);
 openapi.get("/api/transit/bart/station-lines", BartStationLines);
+openapi.get("/api/transit/bart/lines", BartLines);
+
+// Admin endpoints
+openapi.post("/api/admin/cache/purge", CachePurge);
+openapi.post("/api/admin/gtfs/:feed", GtfsImport);
+openapi.post("/api/admin/stop-index/:agency", StopIndexRebuild);
+openapi.post("/api/admin/sync", StaticSync);
+
+// Anything an endpoint didn't handle, and unknown paths, get the same
+// error envelope as the endpoints' own errors
+app.onError((error) => {
+	console.error("Unhandled error:", error);
+	return internalErrorResponse("Internal server error");
+});
+app.notFound((c) => errorResponse(404, apiError("not_found", `No endpoint at ${c.req.method} ${c.req.path}`)));
 
 // You may also register routes for non OpenAPI directly on Hono
 // app.get('/test', (c) => c.text('Hono!'))
 
+// Durable Objects must be exported from the Worker entrypoint
+export { DepartureAlertWatcher } from "./alerts/DepartureAlertWatcher";
+export { PredictionStream } from "./streams/PredictionStream";
+
 // Export the Hono app
 export default {
 	fetch: app.fetch,
+
+	// Cron trigger: refresh the static data snapshots
+	async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+		ctx.waitUntil(syncStaticData(env).then((results) => {
+			for (const result of results) {
+				console.log(`Static sync ${result.agency}: ${result.error ?? `${result.changes.length} changes`}`);
+			}
+		}));
+	},
 };
\ No newline at end of file
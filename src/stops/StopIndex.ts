@@ -0,0 +1,235 @@
+import type { AgencyAdapter } from "../clients/AgencyAdapter";
+import { distanceMeters, EARTH_RADIUS_METERS, toDegrees, toRadians } from "./geo";
+
+export interface IndexedStop {
+	agency: string;
+	stopId: string;
+	stopName: string;
+	lat: number;
+	lon: number;
+	routes: string[];
+}
+
+export interface NearbyStop extends IndexedStop {
+	// Meters from the search point
+	distance: number;
+}
+
+interface MergedStop {
+	stopIds: Set<string>;
+	stopName: string;
+	lat: number;
+	lon: number;
+	routes: Set<string>;
+}
+
+interface StopIndexRow {
+	agency: string;
+	stop_id: string;
+	stop_name: string;
+	lat: number;
+	lon: number;
+	routes: string;
+}
+
+// Grid cells are 0.01° square, roughly 1.1 km north-south and 0.9 km
+// east-west around the Bay Area
+const CELL_DEGREES = 0.01;
+
+// Grid cells around the globe east-west
+const LON_CELLS = Math.round(360 / CELL_DEGREES);
+
+// Toward the poles a radius spans ever more cells of longitude, so searches
+// there are refused rather than read hundreds of cells
+export const MAX_SEARCH_LATITUDE = 85;
+
+// D1 allows at most 100 bound parameters per statement
+const MAX_BOUND_CELLS = 90;
+
+// Routes whose stops are fetched at once while rebuilding
+const ROUTE_CONCURRENCY = 6;
+
+const INSERT_BATCH_SIZE = 200;
+
+/**
+ * Spatial index of stops from every agency, kept in D1. Each stop is
+ * stored under the grid cell containing it, so a radius search only reads
+ * the cells its bounding box overlaps.
+ */
+export class StopIndex {
+	private readonly db: D1Database;
+
+	constructor(db: D1Database) {
+		this.db = db;
+	}
+
+	/**
+	 * Replaces an agency's stops with a fresh walk of its routes. Nearby stops
+	 * with the same name are merged the way the stops endpoint merges them
+	 * within one route. The new stops are staged and swapped in with one
+	 * batch, so searches never see a half-written index. Returns the number
+	 * of stops indexed.
+	 */
+	async rebuild(adapter: AgencyAdapter): Promise<number> {
+		const routes = await adapter.getRoutes();
+		const stops = new Map<string, MergedStop>();
+
+		for (let i = 0; i < routes.length; i += ROUTE_CONCURRENCY) {
+			await Promise.all(routes.slice(i, i + ROUTE_CONCURRENCY).map(async ({ routeCode }) => {
+				let routeStops;
+				try {
+					routeStops = await adapter.getStops(routeCode);
+				} catch (error) {
+					// One broken route shouldn't keep the rest out of the index
+					console.error(`Stop index error for ${adapter.info.code} route ${routeCode}:`, error);
+					return;
+				}
+
+				for (const stop of routeStops) {
+					if (stop.lat === null || stop.lon === null) {
+						continue;
+					}
+
+					// Same-named stops in different cells are different places
+					const key = `${stop.stopName}|${cellKey(cellOf(stop.lat), cellOf(stop.lon))}`;
+					let indexed = stops.get(key);
+					if (!indexed) {
+						indexed = { stopIds: new Set(), stopName: stop.stopName, lat: stop.lat, lon: stop.lon, routes: new Set() };
+						stops.set(key, indexed);
+					}
+					stop.stopId.split(",").forEach((id) => indexed.stopIds.add(id));
+					indexed.routes.add(routeCode);
+				}
+			}));
+		}
+
+		// List each stop's routes in the adapter's route order
+		const routeOrder = new Map(routes.map((route, index) => [route.routeCode, index]));
+		const agency = adapter.info.code;
+		// Staged first, clearing whatever a rebuild that died part way left
+		const statements = [this.db.prepare("DELETE FROM stop_index_staging WHERE agency = ?").bind(agency)];
+		for (const stop of stops.values()) {
+			statements.push(this.db.prepare(
+				"INSERT OR REPLACE INTO stop_index_staging (agency, stop_id, stop_name, lat, lon, cell, routes) VALUES (?, ?, ?, ?, ?, ?, ?)"
+			).bind(
+				agency,
+				Array.from(stop.stopIds).sort().join(","),
+				stop.stopName,
+				stop.lat,
+				stop.lon,
+				cellKey(cellOf(stop.lat), cellOf(stop.lon)),
+				JSON.stringify(Array.from(stop.routes).sort((a, b) => routeOrder.get(a) - routeOrder.get(b)))
+			));
+		}
+
+		for (let i = 0; i < statements.length; i += INSERT_BATCH_SIZE) {
+			await this.db.batch(statements.slice(i, i + INSERT_BATCH_SIZE));
+		}
+
+		// Then swapped in at once
+		await this.db.batch([
+			this.db.prepare("DELETE FROM stop_index WHERE agency = ?").bind(agency),
+			this.db.prepare(
+				`INSERT INTO stop_index (agency, stop_id, stop_name, lat, lon, cell, routes)
+				SELECT agency, stop_id, stop_name, lat, lon, cell, routes FROM stop_index_staging WHERE agency = ?`
+			).bind(agency),
+			this.db.prepare("DELETE FROM stop_index_staging WHERE agency = ?").bind(agency),
+		]);
+
+		return stops.size;
+	}
+
+	/**
+	 * Stops within radius meters of a point, closest first. The latitude must
+	 * be within MAX_SEARCH_LATITUDE of the equator.
+	 */
+	async nearby(lat: number, lon: number, radius: number, limit: number): Promise<NearbyStop[]> {
+		const cells = searchCells(lat, lon, radius);
+
+		const rows: StopIndexRow[] = [];
+		for (let i = 0; i < cells.length; i += MAX_BOUND_CELLS) {
+			const chunk = cells.slice(i, i + MAX_BOUND_CELLS);
+			const { results } = await this.db.prepare(
+				`SELECT agency, stop_id, stop_name, lat, lon, routes FROM stop_index WHERE cell IN (${chunk.map(() => "?").join(", ")})`
+			).bind(...chunk).all<StopIndexRow>();
+			rows.push(...results);
+		}
+
+		return rows
+			.map((row) => ({
+				...toIndexedStop(row),
+				distance: Math.round(distanceMeters(lat, lon, row.lat, row.lon)),
+			}))
+			.filter((stop) => stop.distance <= radius)
+			.sort((a, b) => a.distance - b.distance)
+			.slice(0, limit);
+	}
+
+	/**
+	 * An agency's indexed stops, or only those served by one of the routes.
+	 */
+	async list(agency: string, routes?: string[]): Promise<IndexedStop[]> {
+		if (!routes) {
+			const { results } = await this.db.prepare("SELECT * FROM stop_index WHERE agency = ?")
+				.bind(agency)
+				.all<StopIndexRow>();
+			return results.map(toIndexedStop);
+		}
+
+		if (routes.length === 0) {
+			return [];
+		}
+
+		const { results } = await this.db.prepare(
+			`SELECT DISTINCT stop_index.* FROM stop_index, json_each(stop_index.routes) AS route
+			WHERE stop_index.agency = ? AND route.value IN (${routes.map(() => "?").join(", ")})`
+		).bind(agency, ...routes).all<StopIndexRow>();
+		return results.map(toIndexedStop);
+	}
+}
+
+function toIndexedStop(row: StopIndexRow): IndexedStop {
+	return {
+		agency: row.agency,
+		stopId: row.stop_id,
+		stopName: row.stop_name,
+		lat: row.lat,
+		lon: row.lon,
+		routes: JSON.parse(row.routes) as string[],
+	};
+}
+
+/**
+ * The grid cells a radius search around a point reads: those its bounding
+ * box overlaps, wrapping around the antimeridian.
+ */
+export function searchCells(lat: number, lon: number, radius: number): string[] {
+	if (Math.abs(lat) > MAX_SEARCH_LATITUDE) {
+		throw new RangeError(`The stop index doesn't cover latitudes beyond ${MAX_SEARCH_LATITUDE}°`);
+	}
+
+	const latDelta = toDegrees(radius / EARTH_RADIUS_METERS);
+	const lonDelta = Math.min(180, latDelta / Math.cos(toRadians(lat)));
+
+	const cells = new Set<string>();
+	for (let latCell = cellOf(lat - latDelta); latCell <= cellOf(lat + latDelta); latCell++) {
+		const lonCells = Math.min(cellOf(lon + lonDelta) - cellOf(lon - lonDelta), LON_CELLS - 1);
+		for (let offset = 0; offset <= lonCells; offset++) {
+			cells.add(cellKey(latCell, wrapLonCell(cellOf(lon - lonDelta) + offset)));
+		}
+	}
+	return Array.from(cells);
+}
+
+function wrapLonCell(cell: number): number {
+	const half = LON_CELLS / 2;
+	return ((cell + half) % LON_CELLS + LON_CELLS) % LON_CELLS - half;
+}
+
+function cellOf(degrees: number): number {
+	return Math.floor(degrees / CELL_DEGREES);
+}
+
+function cellKey(latCell: number, lonCell: number): string {
+	return `${latCell}:${lonCell}`;
+}
@@ -0,0 +1,61 @@
+export const EARTH_RADIUS_METERS = 6371000;
+
+export function toRadians(degrees: number): number {
+	return degrees * Math.PI / 180;
+}
+
+export function toDegrees(radians: number): number {
+	return radians * 180 / Math.PI;
+}
+
+/**
+ * Great-circle (haversine) distance between two points, in meters.
+ */
+export function distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+	const dLat = toRadians(lat2 - lat1);
+	const dLon = toRadians(lon2 - lon1);
+	const a = Math.sin(dLat / 2) ** 2 +
+		Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+	return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Initial compass bearing from the first point to the second, in degrees
+ * clockwise from north.
+ */
+export function bearingDegrees(lat1: number, lon1: number, lat2: number, lon2: number): number {
+	const dLon = toRadians(lon2 - lon1);
+	const y = Math.sin(dLon) * Math.cos(toRadians(lat2));
+	const x = Math.cos(toRadians(lat1)) * Math.sin(toRadians(lat2)) -
+		Math.sin(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.cos(dLon);
+	return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+/**
+ * Encodes points with Google's polyline algorithm at five decimal places,
+ * the format map SDKs decode on both the web and iOS.
+ */
+export function encodePolyline(points: Array<{ lat: number; lon: number }>): string {
+	let encoded = "";
+	let lastLat = 0;
+	let lastLon = 0;
+	for (const point of points) {
+		const lat = Math.round(point.lat * 1e5);
+		const lon = Math.round(point.lon * 1e5);
+		encoded += encodePolylineValue(lat - lastLat) + encodePolylineValue(lon - lastLon);
+		lastLat = lat;
+		lastLon = lon;
+	}
+	return encoded;
+}
+
+// Zigzag-encodes the sign, then emits five bits per character, low bits first
+function encodePolylineValue(value: number): string {
+	let rest = value < 0 ? ~(value << 1) : value << 1;
+	let encoded = "";
+	while (rest >= 0x20) {
+		encoded += String.fromCharCode((0x20 | (rest & 0x1f)) + 63);
+		rest >>= 5;
+	}
+	return encoded + String.fromCharCode(rest + 63);
+}
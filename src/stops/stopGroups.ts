@@ -0,0 +1,86 @@
+import type { StopGroup, StopGroupMember, TransitStop } from "../clients/AgencyAdapter";
+import { bearingDegrees } from "./geo";
+import { stopRef } from "./stopRef";
+
+// Joins member IDs in a group ID. Unlike "+", it survives query strings
+// unescaped, and unlike "," it can't be mistaken for an old combined stop.
+export const GROUP_ID_SEPARATOR = "~";
+
+/**
+ * One way a route runs, with its stops in travel order.
+ */
+export interface StopPattern {
+	direction: string;
+	destination: string;
+	stops: TransitStop[];
+}
+
+/**
+ * Groups a route's stops by name, as riders see them. Each member lists
+ * the directions whose patterns call at it, heading the way vehicles travel
+ * between the stops either side. Members stay in the order the patterns
+ * first reach them.
+ */
+export function buildStopGroups(agency: string, patterns: StopPattern[]): StopGroup[] {
+	const groups = new Map<string, Map<string, StopGroupMember>>();
+
+	for (const pattern of patterns) {
+		pattern.stops.forEach((stop, index) => {
+			if (!groups.has(stop.stopName)) {
+				groups.set(stop.stopName, new Map());
+			}
+			const members = groups.get(stop.stopName);
+			if (!members.has(stop.stopId)) {
+				members.set(stop.stopId, {
+					stopId: stop.stopId,
+					stopCode: stop.stopCode,
+					lat: stop.lat,
+					lon: stop.lon,
+					directions: [],
+				});
+			}
+
+			const member = members.get(stop.stopId);
+			if (!member.directions.some((d) => d.direction === pattern.direction && d.destination === pattern.destination)) {
+				member.directions.push({
+					direction: pattern.direction,
+					destination: pattern.destination,
+					heading: headingAt(pattern.stops, index),
+				});
+			}
+		});
+	}
+
+	return Array.from(groups, ([stopName, members]) => {
+		const list = Array.from(members.values());
+		const placed = list.filter((member) => member.lat !== null && member.lon !== null);
+		return {
+			groupId: stopGroupId(agency, list.map((member) => member.stopId)),
+			stopName,
+			lat: placed.length > 0 ? placed.reduce((sum, member) => sum + member.lat, 0) / placed.length : null,
+			lon: placed.length > 0 ? placed.reduce((sum, member) => sum + member.lon, 0) / placed.length : null,
+			members: list,
+		};
+	}).sort((a, b) => a.stopName.localeCompare(b.stopName));
+}
+
+/**
+ * The same for a set of stops whatever order they come in.
+ */
+export function stopGroupId(agency: string, stopIds: string[]): string {
+	const sorted = [...stopIds].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+	return stopRef(agency, sorted.join(GROUP_ID_SEPARATOR));
+}
+
+// Null at a stop without neighbours or coordinates to go by
+function headingAt(stops: TransitStop[], index: number): number | null {
+	const from = stops[Math.max(0, index - 1)];
+	const to = stops[Math.min(stops.length - 1, index + 1)];
+	if (from === to || from.lat === null || from.lon === null || to.lat === null || to.lon === null) {
+		return null;
+	}
+	if (from.lat === to.lat && from.lon === to.lon) {
+		return null;
+	}
+	return Math.round(bearingDegrees(from.lat, from.lon, to.lat, to.lon));
+}
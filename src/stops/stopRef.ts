@@ -0,0 +1,48 @@
+/**
+ * A stop named the same way for every agency: "<agency>:<stop>", such as
+ * "actransit:55558" or "bart:EMBR". The stop part is what the agency's
+ * adapter takes, so stops combined under one name stay comma-separated
+ * ("actransit:55558,55559"). Stop group IDs ("actransit:55558~55559") are
+ * references too.
+ */
+export function stopRef(agency: string, stop: string): string {
+	return `${agency.toLowerCase()}:${stop}`;
+}
+
+export interface ResolvedStop {
+	agency: string;
+	// Without the agency prefix, as adapters take it
+	stop: string;
+}
+
+/**
+ * Works out the agency and bare stop ID from a request's stop and agency
+ * parameters. The stop may be a stop reference, in which case the agency
+ * parameter can be left out, or a bare ID with the agency given separately
+ * as before. With an agency given, a stop not prefixed by it is taken as a
+ * bare ID, since GTFS stop IDs may contain colons themselves. A stop group
+ * becomes its members' IDs, comma-separated as adapters take several stops.
+ * Returns null when there's no agency either way.
+ */
+export function resolveStop(stop: string, agency?: string): ResolvedStop | null {
+	const parts = stop.split(/[,~]/).map((part) => part.trim());
+	const colon = parts[0].indexOf(":");
+	const code = agency || (colon > 0 ? parts[0].slice(0, colon) : "");
+	if (!code) {
+		return null;
+	}
+
+	// A list may prefix every stop or only the first
+	const prefix = `${code.toLowerCase()}:`;
+	return {
+		agency: code,
+		stop: parts.map((part) => part.toLowerCase().startsWith(prefix) ? part.slice(prefix.length) : part).join(","),
+	};
+}
+
+/**
+ * Adds the stop reference to anything carrying an agency's stop ID.
+ */
+export function withStopRef<T extends { stopId: string }>(agency: string, item: T): T & { stopRef: string } {
+	return { ...item, stopRef: stopRef(agency, item.stopId) };
+}
@@ -0,0 +1,180 @@
+import { DurableObject } from "cloudflare:workers";
+import {
+	AgencyRequestError,
+	getPredictionsWithFallback,
+	predictionSignature,
+	withAge,
+	type PredictionQuery,
+	type TransitPrediction,
+} from "../clients/AgencyAdapter";
+import { getAgencyAdapter } from "../clients/registry";
+import { agencyError, apiError, unsupportedAgencyError, type ApiError } from "../errors";
+import { withStopRef } from "../stops/stopRef";
+
+// Matches the interval clients used to poll at on their own
+const POLL_MS = 30 * 1000;
+
+// Close code for a subscription whose query the agency rejects
+const POLICY_VIOLATION = 1008;
+
+export interface StreamQuery extends PredictionQuery {
+	agency: string;
+}
+
+interface StreamState {
+	query: StreamQuery;
+	// JSON of the latest predictions, sent to new subscribers
+	lastPredictions: string | null;
+	// predictionSignature of the predictions last pushed, to skip polls
+	// where only the countdowns moved
+	lastSignature: string | null;
+	polledAt: number;
+}
+
+/**
+ * Name of the stream object shared by every subscriber to the same query.
+ * The agency and the filters, which every adapter matches regardless of
+ * case, are lower-cased so differently written queries share one poller.
+ * Stops and routes keep their case, since GTFS IDs are case-sensitive.
+ */
+export function streamKey(query: StreamQuery): string {
+	const filter = (value: string | undefined) => (value ?? "").trim().toLowerCase();
+	return [
+		query.agency.trim().toLowerCase(),
+		query.stop.trim(),
+		query.route.trim(),
+		filter(query.direction),
+		filter(query.headsign),
+		filter(query.destination),
+		filter(query.platform),
+		filter(query.via),
+	].join("|");
+}
+
+/**
+ * Pushes live predictions for one query to every WebSocket subscribed to it. The object polls upstream on an alarm
+ * once per interval however many clients are listening, and only sends an
+ * update when the predictions change. It stops polling when the last
+ * socket closes. Sockets use the hibernation API, so an idle object between
+ * polls isn't billed for open connections.
+ */
+export class PredictionStream extends DurableObject<Env> {
+	async fetch(request: Request): Promise<Response> {
+		const params = new URL(request.url).searchParams;
+		let state = await this.ctx.storage.get<StreamState>("state");
+		if (!state) {
+			state = {
+				query: {
+					agency: params.get("agency").toLowerCase(),
+					stop: params.get("stop"),
+					route: params.get("route"),
+					direction: params.get("direction") ?? undefined,
+					headsign: params.get("headsign") ?? undefined,
+					destination: params.get("destination") ?? undefined,
+					platform: params.get("platform") ?? undefined,
+					via: params.get("via") ?? undefined,
+				},
+				lastPredictions: null,
+				lastSignature: null,
+				polledAt: 0,
+			};
+			await this.ctx.storage.put("state", state);
+		}
+
+		const [client, server] = Object.values(new WebSocketPair());
+		this.ctx.acceptWebSocket(server);
+
+		// New subscribers get the current predictions straight away rather than
+		// waiting up to a full interval, unless polling had stopped
+		const fresh = state.lastPredictions !== null && Date.now() - state.polledAt < 2 * POLL_MS;
+		if (fresh) {
+			// The snapshot can be most of a poll old by now
+			const predictions = (JSON.parse(state.lastPredictions) as TransitPrediction[]).map((prediction) => withAge(prediction));
+			server.send(predictionsMessage(JSON.stringify(predictions)));
+		} else if (state.lastPredictions !== null) {
+			// Forget the stale snapshot so the next poll is pushed even if unchanged
+			await this.ctx.storage.put<StreamState>("state", { ...state, lastPredictions: null, lastSignature: null });
+		}
+		if (!fresh || await this.ctx.storage.getAlarm() === null) {
+			await this.ctx.storage.setAlarm(Date.now());
+		}
+
+		return new Response(null, { status: 101, webSocket: client });
+	}
+
+	async alarm(): Promise<void> {
+		const state = await this.ctx.storage.get<StreamState>("state");
+		if (!state || this.ctx.getWebSockets().length === 0) {
+			await this.ctx.storage.deleteAll();
+			return;
+		}
+
+		const { agency, ...query } = state.query;
+		try {
+			const adapter = await getAgencyAdapter(this.env, agency);
+			if (!adapter) {
+				await this.closeAll(unsupportedAgencyError(agency));
+				return;
+			}
+
+			const results = await getPredictionsWithFallback(adapter, query);
+			const predictions = JSON.stringify(results.map((prediction) => withStopRef(agency, prediction)));
+			const signature = predictionSignature(results);
+			if (signature !== state.lastSignature) {
+				this.broadcast(predictionsMessage(predictions));
+			}
+			await this.ctx.storage.put<StreamState>("state", {
+				...state,
+				lastPredictions: predictions,
+				lastSignature: signature,
+				polledAt: Date.now(),
+			});
+		} catch (error) {
+			console.error("Prediction stream poll error:", error);
+			if (error instanceof AgencyRequestError) {
+				// Polling again won't fix a bad stop or route
+				await this.closeAll(agencyError(error, agency));
+				return;
+			}
+			const failure = agencyError(error, agency) ?? apiError("internal_error", "Failed to fetch transit predictions");
+			this.broadcast(JSON.stringify({ type: "error", error: failure }));
+		}
+
+		await this.ctx.storage.setAlarm(Date.now() + POLL_MS);
+	}
+
+	async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+		// Clients only listen; a ping keeps intermediaries from timing them out
+		if (message === "ping") {
+			ws.send(JSON.stringify({ type: "pong" }));
+		}
+	}
+
+	async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+		// 1005 and 1006 describe how a socket closed and can't be sent back
+		ws.close(code === 1005 || code === 1006 ? 1000 : code, reason);
+	}
+
+	private async closeAll(error: ApiError): Promise<void> {
+		this.broadcast(JSON.stringify({ type: "error", error }));
+		for (const socket of this.ctx.getWebSockets()) {
+			socket.close(POLICY_VIOLATION, error.message.slice(0, 120));
+		}
+		await this.ctx.storage.deleteAll();
+	}
+
+	private broadcast(message: string): void {
+		for (const socket of this.ctx.getWebSockets()) {
+			try {
+				socket.send(message);
+			} catch (error) {
+				// The socket closed mid-send; its close handler cleans up
+				console.error("Prediction stream send error:", error);
+			}
+		}
+	}
+}
+
+function predictionsMessage(predictions: string): string {
+	return `{"type":"predictions","predictions":${predictions}}`;
+}
@@ -0,0 +1,102 @@
+export type SnapshotKind = "routes" | "stops" | "stations";
+
+export interface Snapshot {
+	kind: SnapshotKind;
+	// Route code for stops, otherwise empty
+	scope: string;
+	items: unknown[];
+}
+
+export interface StaticChange {
+	agency: string;
+	kind: "route" | "stop" | "station";
+	// Route whose stop list changed, for stop changes
+	route: string | null;
+	id: string;
+	change: "added" | "removed" | "renamed";
+	oldName: string | null;
+	newName: string | null;
+}
+
+interface SnapshotRow {
+	kind: SnapshotKind;
+	scope: string;
+	data: string;
+}
+
+const INSERT_BATCH_SIZE = 100;
+
+// Snapshots are written under this suffix and only take the agency's own
+// code once all of them are in. Agency codes can't contain a dot.
+const STAGING_SUFFIX = ".staging";
+
+// How long recorded changes are kept
+const CHANGE_RETENTION_DAYS = 180;
+
+/**
+ * The last synced copy of each agency's routes, stops and stations, kept
+ * in D1 so those endpoints keep working while an upstream API is down.
+ */
+export class StaticSnapshots {
+	private readonly db: D1Database;
+
+	constructor(db: D1Database) {
+		this.db = db;
+	}
+
+	/**
+	 * One snapshot, or null if the agency hasn't been synced.
+	 */
+	async get<T>(agency: string, kind: SnapshotKind, scope = ""): Promise<T[] | null> {
+		const row = await this.db.prepare(
+			"SELECT data FROM static_snapshots WHERE agency = ? AND kind = ? AND scope = ?"
+		).bind(agency.toLowerCase(), kind, scope.toLowerCase()).first<{ data: string }>();
+		return row ? JSON.parse(row.data) as T[] : null;
+	}
+
+	/**
+	 * Every snapshot for an agency, keyed by snapshotKey.
+	 */
+	async load(agency: string): Promise<Map<string, unknown[]>> {
+		const { results } = await this.db.prepare("SELECT kind, scope, data FROM static_snapshots WHERE agency = ?")
+			.bind(agency)
+			.all<SnapshotRow>();
+		return new Map(results.map((row) => [snapshotKey(row.kind, row.scope), JSON.parse(row.data) as unknown[]]));
+	}
+
+	/**
+	 * Replaces all of an agency's snapshots and records what changed. The new
+	 * snapshots are staged and swapped in together with the change records,
+	 * so readers see either the old sync or the new one and a sync that dies
+	 * part way changes nothing. Changes older than CHANGE_RETENTION_DAYS are
+	 * dropped at the same time.
+	 */
+	async replace(agency: string, snapshots: Snapshot[], changes: StaticChange[], syncedAt: string): Promise<void> {
+		const staging = `${agency}${STAGING_SUFFIX}`;
+		// Clear out whatever an earlier sync that died part way left behind
+		const staged = [this.db.prepare("DELETE FROM static_snapshots WHERE agency = ?").bind(staging)];
+		for (const snapshot of snapshots) {
+			staged.push(this.db.prepare(
+				"INSERT INTO static_snapshots (agency, kind, scope, data, synced_at) VALUES (?, ?, ?, ?, ?)"
+			).bind(staging, snapshot.kind, snapshot.scope.toLowerCase(), JSON.stringify(snapshot.items), syncedAt));
+		}
+		for (let i = 0; i < staged.length; i += INSERT_BATCH_SIZE) {
+			await this.db.batch(staged.slice(i, i + INSERT_BATCH_SIZE));
+		}
+
+		const cutoff = new Date(Date.parse(syncedAt) - CHANGE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+		await this.db.batch([
+			this.db.prepare("DELETE FROM static_snapshots WHERE agency = ?").bind(agency),
+			this.db.prepare("UPDATE static_snapshots SET agency = ? WHERE agency = ?").bind(agency, staging),
+			...changes.map((change) => this.db.prepare(
+				`INSERT INTO static_changes (agency, kind, route, item_id, change, old_name, new_name, detected_at)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+			).bind(change.agency, change.kind, change.route, change.id, change.change, change.oldName, change.newName, syncedAt)),
+			this.db.prepare("DELETE FROM static_changes WHERE detected_at < ?").bind(cutoff),
+		]);
+	}
+}
+
+export function snapshotKey(kind: SnapshotKind, scope = ""): string {
+	return `${kind}|${scope.toLowerCase()}`;
+}
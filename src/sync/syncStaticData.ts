@@ -0,0 +1,182 @@
+import type { AgencyAdapter, TransitRoute, TransitStop } from "../clients/AgencyAdapter";
+import { AcTransitClient } from "../clients/AcTransitClient";
+import { BartClient, type BartStation } from "../clients/BartClient";
+import { upstreamConfig } from "../clients/UpstreamHttp";
+import { snapshotKey, StaticSnapshots, type Snapshot, type StaticChange } from "./StaticSnapshots";
+
+export interface AgencySyncResult {
+	agency: string;
+	routes: number;
+	stops: number;
+	stations: number | null;
+	changes: StaticChange[];
+	error: string | null;
+}
+
+// Routes whose stops are fetched at once
+const ROUTE_CONCURRENCY = 6;
+
+export interface NamedItem {
+	id: string;
+	name: string;
+}
+
+/**
+ * Snapshots AC Transit's routes and stops and BART's lines, line stations
+ * and station list straight from upstream, bypassing the KV cache, and
+ * records how each differs from the previous snapshot. An agency that
+ * fails to load keeps its previous snapshot.
+ */
+export async function syncStaticData(env: Env): Promise<AgencySyncResult[]> {
+	const store = new StaticSnapshots(env.DB);
+	const syncedAt = new Date().toISOString();
+	const bart = new BartClient(env.BART_API_KEY, upstreamConfig(env));
+
+	return [
+		await syncAgency(store, new AcTransitClient(env.AC_TRANSIT_API_KEY, upstreamConfig(env)), null, syncedAt),
+		await syncAgency(store, bart, () => bart.getStations(), syncedAt),
+	];
+}
+
+async function syncAgency(
+	store: StaticSnapshots,
+	adapter: AgencyAdapter,
+	getStations: (() => Promise<BartStation[]>) | null,
+	syncedAt: string
+): Promise<AgencySyncResult> {
+	try {
+		return await snapshotAgency(store, adapter, getStations, syncedAt);
+	} catch (error) {
+		console.error(`Static sync error for ${adapter.info.code}:`, error);
+		return {
+			agency: adapter.info.code,
+			routes: 0,
+			stops: 0,
+			stations: null,
+			changes: [],
+			error: error instanceof Error ? error.message : "Sync failed",
+		};
+	}
+}
+
+async function snapshotAgency(
+	store: StaticSnapshots,
+	adapter: AgencyAdapter,
+	getStations: (() => Promise<BartStation[]>) | null,
+	syncedAt: string
+): Promise<AgencySyncResult> {
+	const agency = adapter.info.code;
+	const previous = await store.load(agency);
+	const changes: StaticChange[] = [];
+
+	// Compares against the previous snapshot of the same thing; the first
+	// sync, or the first of a new route, is a baseline with nothing to report
+	const compare = (kind: StaticChange["kind"], route: string | null, before: NamedItem[] | undefined, after: NamedItem[]) => {
+		if (before) {
+			changes.push(...diffItems(agency, kind, route, before, after));
+		}
+	};
+
+	const routes = await adapter.getRoutes();
+	const previousRoutes = previous.get(snapshotKey("routes")) as TransitRoute[] | undefined;
+	// An empty list is far likelier to be an upstream fault than a shutdown
+	if (routes.length === 0 && previousRoutes?.length) {
+		throw new Error("Upstream returned no routes");
+	}
+	compare("route", null, previousRoutes?.map(routeItem), routes.map(routeItem));
+	const snapshots: Snapshot[] = [{ kind: "routes", scope: "", items: routes }];
+
+	let stopCount = 0;
+	for (let i = 0; i < routes.length; i += ROUTE_CONCURRENCY) {
+		await Promise.all(routes.slice(i, i + ROUTE_CONCURRENCY).map(async ({ routeCode }) => {
+			const previousStops = previous.get(snapshotKey("stops", routeCode)) as TransitStop[] | undefined;
+			let stops: TransitStop[];
+			try {
+				stops = await adapter.getStops(routeCode);
+				if (stops.length === 0 && previousStops?.length) {
+					throw new Error("Upstream returned no stops");
+				}
+			} catch (error) {
+				// Keep the last good stop list rather than reporting every stop removed
+				console.error(`Static sync error for ${agency} route ${routeCode}:`, error);
+				if (!previousStops) {
+					return;
+				}
+				stops = previousStops;
+			}
+
+			compare("stop", routeCode, previousStops?.map(stopItem), stops.map(stopItem));
+			snapshots.push({ kind: "stops", scope: routeCode, items: stops });
+			stopCount += stops.length;
+		}));
+	}
+
+	let stationCount: number | null = null;
+	if (getStations) {
+		const stations = await getStations();
+		const previousStations = previous.get(snapshotKey("stations")) as BartStation[] | undefined;
+		compare("station", null, previousStations?.map(stationItem), stations.map(stationItem));
+		snapshots.push({ kind: "stations", scope: "", items: stations });
+		stationCount = stations.length;
+	}
+
+	await store.replace(agency, snapshots, changes, syncedAt);
+
+	return {
+		agency,
+		routes: routes.length,
+		stops: stopCount,
+		stations: stationCount,
+		changes,
+		error: null,
+	};
+}
+
+/**
+ * What was added, removed or renamed between two lists of the same kind of
+ * item, matched by ID.
+ */
+export function diffItems(
+	agency: string,
+	kind: StaticChange["kind"],
+	route: string | null,
+	before: NamedItem[],
+	after: NamedItem[]
+): StaticChange[] {
+	const changes: StaticChange[] = [];
+	const beforeById = new Map(before.map((item) => [item.id, item.name]));
+	const afterById = new Map(after.map((item) => [item.id, item.name]));
+
+	for (const [id, name] of afterById) {
+		if (!beforeById.has(id)) {
+			changes.push({ agency, kind, route, id, change: "added", oldName: null, newName: name });
+		} else if (beforeById.get(id) !== name) {
+			changes.push({ agency, kind, route, id, change: "renamed", oldName: beforeById.get(id), newName: name });
+		}
+	}
+	for (const [id, name] of beforeById) {
+		if (!afterById.has(id)) {
+			changes.push({ agency, kind, route, id, change: "removed", oldName: name, newName: null });
+		}
+	}
+	return changes;
+}
+
+function routeItem(route: TransitRoute): NamedItem {
+	return { id: route.routeCode, name: route.routeName };
+}
+
+/**
+ * Stops combined under one name ("55558,55559") or grouped ("55558~55559")
+ * are keyed by their sorted members, so the same stops listed in another
+ * order or form don't show up as one removed and another added.
+ */
+export function stopItem(stop: TransitStop): NamedItem {
+	const members = stop.stopId.split(/[,~]/).map((id) => id.trim());
+	members.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+	return { id: members.join(","), name: stop.stopName };
+}
+
+function stationItem(station: BartStation): NamedItem {
+	return { id: station.code, name: station.name };
+}
@@ -0,0 +1,462 @@
+import type { AcTransitClient } from "../clients/AcTransitClient";
+import type { TransitPrediction } from "../clients/AgencyAdapter";
+import type { BartClient, BartTrip, BartTripLeg } from "../clients/BartClient";
+import { acTransitClient, bartClient } from "../clients/registry";
+import { distanceMeters } from "../stops/geo";
+import { StopIndex, type IndexedStop } from "../stops/StopIndex";
+import { stopRef } from "../stops/stopRef";
+
+export interface TripPoint {
+	lat: number;
+	lon: number;
+}
+
+export interface TripPlace {
+	name: string;
+	agency: string | null;
+	stopId: string | null;
+	stopRef: string | null;
+	// Null for BART stations a trip changes trains at, which aren't among
+	// the candidate stops
+	lat: number | null;
+	lon: number | null;
+}
+
+export interface TripLeg {
+	mode: "walk" | "bus" | "rail";
+	from: TripPlace;
+	to: TripPlace;
+	departureTime: string;
+	arrivalTime: string;
+	agency: string | null;
+	route: string | null;
+	headsign: string | null;
+	vehicleId: string | null;
+	// Bus legs are timed from live predictions. BART legs come from its
+	// timetable, with the first train retimed by its live departure when
+	// there is one
+	source: "realtime" | "scheduled" | null;
+	// Meters, for walking legs
+	distance: number | null;
+}
+
+export interface Itinerary {
+	departureTime: string;
+	arrivalTime: string;
+	durationMinutes: number;
+	transfers: number;
+	legs: TripLeg[];
+}
+
+interface Candidate {
+	key: string;
+	// Rough door-to-door seconds from straight-line distances, used to pick
+	// which candidates are worth the upstream requests
+	estimate: number;
+	evaluate: (now: number) => Promise<TripLeg[] | null>;
+}
+
+const BUS = "actransit";
+const RAIL = "bart";
+
+// How far riders will walk to the first stop or from the last one, and
+// between a bus stop and a BART station
+const ACCESS_RADIUS_METERS = 800;
+const TRANSFER_RADIUS_METERS = 400;
+
+// Streets aren't straight lines, so walking distance is padded
+const WALK_METERS_PER_SECOND = 1.3;
+const WALK_DETOUR = 1.3;
+
+// Average speeds for ranking candidates only; legs are timed from real data
+const BUS_METERS_PER_SECOND = 5;
+const RAIL_METERS_PER_SECOND = 14;
+
+const ENDPOINTS_PER_AGENCY = 3;
+const MAX_EVALUATED_CANDIDATES = 10;
+
+/**
+ * Plans journeys over AC Transit and BART, with at most one change between
+ * them. Candidate stops come from the nearby-stops index; bus legs are timed
+ * by following one vehicle through the predictions at both stops, and BART
+ * legs come from BART's own trip planner, which handles train transfers,
+ * with the first train retimed by BART's live departure estimates.
+ */
+export class TripPlanner {
+	private readonly index: StopIndex;
+	private readonly bus: AcTransitClient;
+	private readonly rail: BartClient;
+
+	constructor(env: Env) {
+		this.index = new StopIndex(env.DB);
+		this.bus = acTransitClient(env);
+		this.rail = bartClient(env);
+	}
+
+	async plan(from: TripPoint, to: TripPoint, limit: number): Promise<Itinerary[]> {
+		const [origins, destinations, stations] = await Promise.all([
+			this.index.nearby(from.lat, from.lon, ACCESS_RADIUS_METERS, 100),
+			this.index.nearby(to.lat, to.lon, ACCESS_RADIUS_METERS, 100),
+			this.index.list(RAIL),
+		]);
+		const stationNames = new Map(stations.map(station => [station.stopId, station.stopName]));
+
+		const busOrigins = origins.filter(stop => stop.agency === BUS).slice(0, ENDPOINTS_PER_AGENCY);
+		const railOrigins = origins.filter(stop => stop.agency === RAIL).slice(0, ENDPOINTS_PER_AGENCY);
+		const busDestinations = destinations.filter(stop => stop.agency === BUS).slice(0, ENDPOINTS_PER_AGENCY);
+		const railDestinations = destinations.filter(stop => stop.agency === RAIL).slice(0, ENDPOINTS_PER_AGENCY);
+
+		const candidates = new Map<string, Candidate>();
+		const consider = (candidate: Candidate) => {
+			const existing = candidates.get(candidate.key);
+			if (!existing || candidate.estimate < existing.estimate) {
+				candidates.set(candidate.key, candidate);
+			}
+		};
+
+		// Bus all the way
+		for (const origin of busOrigins) {
+			for (const destination of busDestinations) {
+				for (const route of origin.routes.filter(route => destination.routes.includes(route))) {
+					consider({
+						key: `bus:${route}`,
+						estimate: walkSeconds(from, origin) + rideSeconds(origin, destination, BUS_METERS_PER_SECOND) + walkSeconds(destination, to),
+						evaluate: (now) => this.chain(now, from, to, [
+							{ board: origin, alight: destination, ride: (readyAt) => this.busLeg(route, origin, destination, readyAt) },
+						]),
+					});
+				}
+			}
+		}
+
+		// BART all the way
+		for (const origin of railOrigins) {
+			for (const destination of railDestinations.filter(stop => stop.stopId !== origin.stopId)) {
+				consider({
+					key: `rail:${origin.stopId}:${destination.stopId}`,
+					estimate: walkSeconds(from, origin) + rideSeconds(origin, destination, RAIL_METERS_PER_SECOND) + walkSeconds(destination, to),
+					evaluate: (now) => this.chain(now, from, to, [
+						{ board: origin, alight: destination, ride: (readyAt) => this.railLegs(origin, destination, readyAt, stationNames) },
+					]),
+				});
+			}
+		}
+
+		// Bus to a BART station, then BART
+		if (busOrigins.length > 0 && railDestinations.length > 0) {
+			const feeders = await this.index.list(BUS, unique(busOrigins.flatMap(stop => stop.routes)));
+			for (const origin of busOrigins) {
+				for (const route of origin.routes) {
+					for (const station of stations) {
+						const transfer = closest(feeders.filter(stop => stop.routes.includes(route) && stop.stopId !== origin.stopId), station);
+						if (!transfer) {
+							continue;
+						}
+						for (const destination of railDestinations.filter(stop => stop.stopId !== station.stopId)) {
+							consider({
+								key: `bus-rail:${route}:${station.stopId}`,
+								estimate: walkSeconds(from, origin) +
+									rideSeconds(origin, transfer, BUS_METERS_PER_SECOND) +
+									walkSeconds(transfer, station) +
+									rideSeconds(station, destination, RAIL_METERS_PER_SECOND) +
+									walkSeconds(destination, to),
+								evaluate: (now) => this.chain(now, from, to, [
+									{ board: origin, alight: transfer, ride: (readyAt) => this.busLeg(route, origin, transfer, readyAt) },
+									{ board: station, alight: destination, ride: (readyAt) => this.railLegs(station, destination, readyAt, stationNames) },
+								]),
+							});
+						}
+					}
+				}
+			}
+		}
+
+		// BART to a station, then a bus
+		if (railOrigins.length > 0 && busDestinations.length > 0) {
+			const connectors = await this.index.list(BUS, unique(busDestinations.flatMap(stop => stop.routes)));
+			for (const destination of busDestinations) {
+				for (const route of destination.routes) {
+					for (const station of stations) {
+						const transfer = closest(connectors.filter(stop => stop.routes.includes(route) && stop.stopId !== destination.stopId), station);
+						if (!transfer) {
+							continue;
+						}
+						for (const origin of railOrigins.filter(stop => stop.stopId !== station.stopId)) {
+							consider({
+								key: `rail-bus:${station.stopId}:${route}`,
+								estimate: walkSeconds(from, origin) +
+									rideSeconds(origin, station, RAIL_METERS_PER_SECOND) +
+									walkSeconds(station, transfer) +
+									rideSeconds(transfer, destination, BUS_METERS_PER_SECOND) +
+									walkSeconds(destination, to),
+								evaluate: (now) => this.chain(now, from, to, [
+									{ board: origin, alight: station, ride: (readyAt) => this.railLegs(origin, station, readyAt, stationNames) },
+									{ board: transfer, alight: destination, ride: (readyAt) => this.busLeg(route, transfer, destination, readyAt) },
+								]),
+							});
+						}
+					}
+				}
+			}
+		}
+
+		const now = Date.now();
+		const evaluated = await Promise.all(
+			Array.from(candidates.values())
+				.sort((a, b) => a.estimate - b.estimate)
+				.slice(0, MAX_EVALUATED_CANDIDATES)
+				.map(candidate => candidate.evaluate(now).catch(error => {
+					// One agency being down shouldn't sink itineraries that avoid it
+					console.error(`Trip candidate ${candidate.key} error:`, error);
+					return null;
+				}))
+		);
+
+		return evaluated
+			.filter((legs): legs is TripLeg[] => legs !== null)
+			.map(toItinerary)
+			.sort((a, b) => a.arrivalTime.localeCompare(b.arrivalTime) || a.transfers - b.transfers)
+			.slice(0, limit);
+	}
+
+	/**
+	 * Times a sequence of rides, walking from the start to the first stop,
+	 * between each alighting stop and the next boarding stop, and from the
+	 * last stop to the end. Returns null if any ride has no departure in time.
+	 */
+	private async chain(
+		now: number,
+		from: TripPoint,
+		to: TripPoint,
+		rides: Array<{ board: IndexedStop; alight: IndexedStop; ride: (readyAt: number) => Promise<TripLeg[] | null> }>
+	): Promise<TripLeg[] | null> {
+		const legs: TripLeg[] = [];
+		let position: TripPlace = { ...from, name: "Start", agency: null, stopId: null, stopRef: null };
+		let readyAt = now;
+
+		for (const { board, alight, ride } of rides) {
+			const boardPlace = toPlace(board);
+			const walkToBoard = walkSeconds(position, boardPlace) * 1000;
+			const rideLegs = await ride(readyAt + walkToBoard);
+			if (!rideLegs || rideLegs.length === 0) {
+				return null;
+			}
+
+			// Leave just in time for the first ride; later walks start on arrival
+			const walkEnd = legs.length === 0 ? Date.parse(rideLegs[0].departureTime) : readyAt + walkToBoard;
+			legs.push(...walkLeg(position, boardPlace, walkEnd - walkToBoard), ...rideLegs);
+
+			position = toPlace(alight);
+			readyAt = Date.parse(rideLegs[rideLegs.length - 1].arrivalTime);
+		}
+
+		legs.push(...walkLeg(position, { ...to, name: "Destination", agency: null, stopId: null, stopRef: null }, readyAt));
+		return legs;
+	}
+
+	private async busLeg(route: string, board: IndexedStop, alight: IndexedStop, readyAt: number): Promise<TripLeg[] | null> {
+		const rides = await this.bus.getVehicleRides(route, board.stopId, alight.stopId);
+		const ride = rides.find(r => Date.parse(r.departureTime) >= readyAt);
+		if (!ride) {
+			return null;
+		}
+
+		return [{
+			mode: "bus",
+			from: toPlace(board, ride.fromStopId),
+			to: toPlace(alight, ride.toStopId),
+			departureTime: ride.departureTime,
+			arrivalTime: ride.arrivalTime,
+			agency: BUS,
+			route: ride.route,
+			headsign: ride.direction,
+			vehicleId: ride.vehicleId,
+			source: "realtime",
+			distance: null,
+		}];
+	}
+
+	private async railLegs(board: IndexedStop, alight: IndexedStop, readyAt: number, stationNames: Map<string, string>): Promise<TripLeg[] | null> {
+		const trips = await this.rail.planTrip(board.stopId, alight.stopId, new Date(readyAt));
+		const departures = await this.liveDepartures(board.stopId, trips);
+
+		for (const trip of trips) {
+			const legs: TripLeg[] = trip.legs.map(leg => ({
+				mode: "rail" as const,
+				from: stationPlace(leg.origin, board, alight, stationNames),
+				to: stationPlace(leg.destination, board, alight, stationNames),
+				departureTime: leg.departureTime,
+				arrivalTime: leg.arrivalTime,
+				agency: RAIL,
+				route: leg.line.toUpperCase(),
+				headsign: stationNames.get(leg.trainHeadStation) || leg.trainHeadStation,
+				vehicleId: null,
+				source: "scheduled" as const,
+				distance: null,
+			}));
+			if (legs.length === 0) {
+				continue;
+			}
+
+			// The first train is retimed by its live departure, assuming it
+			// keeps the same delay to where the rider gets off
+			const live = matchDeparture(departures.get(trainKey(trip.legs[0])) || [], trip.legs[0]);
+			if (live !== null) {
+				const delay = live - Date.parse(legs[0].departureTime);
+				legs[0] = {
+					...legs[0],
+					departureTime: new Date(live).toISOString(),
+					arrivalTime: new Date(Date.parse(legs[0].arrivalTime) + delay).toISOString(),
+					source: "realtime",
+				};
+				// Running late can miss the change to the next train
+				if (legs.length > 1 && legs[0].arrivalTime > legs[1].departureTime) {
+					continue;
+				}
+			}
+
+			if (Date.parse(legs[0].departureTime) >= readyAt) {
+				return legs;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Live departures from a station for the trains the trips board there,
+	 * by line and end station, or none if BART's estimates aren't available.
+	 */
+	private async liveDepartures(station: string, trips: BartTrip[]): Promise<Map<string, TransitPrediction[]>> {
+		const departures = new Map<string, TransitPrediction[]>();
+		const trains = new Map(trips.filter(trip => trip.legs.length > 0).map(({ legs: [leg] }) => [trainKey(leg), leg]));
+
+		try {
+			await Promise.all(Array.from(trains, async ([key, leg]) => {
+				departures.set(key, await this.rail.getEstimates(station.toUpperCase(), [leg.line], {
+					destinations: [leg.trainHeadStation.toUpperCase()],
+				}));
+			}));
+		} catch (error) {
+			// The timetable still gives a usable trip
+			console.error(`Trip live departures error for ${station}:`, error);
+			departures.clear();
+		}
+		return departures;
+	}
+}
+
+function walkSeconds(from: TripPoint, to: TripPoint): number {
+	return distanceMeters(from.lat, from.lon, to.lat, to.lon) * WALK_DETOUR / WALK_METERS_PER_SECOND;
+}
+
+function rideSeconds(from: TripPoint, to: TripPoint, metersPerSecond: number): number {
+	return distanceMeters(from.lat, from.lon, to.lat, to.lon) / metersPerSecond;
+}
+
+// Walks shorter than this are just crossing the platform
+const MIN_WALK_METERS = 25;
+
+function walkLeg(from: TripPlace, to: TripPlace, departAt: number): TripLeg[] {
+	const distance = Math.round(distanceMeters(from.lat, from.lon, to.lat, to.lon));
+	if (distance < MIN_WALK_METERS) {
+		return [];
+	}
+
+	return [{
+		mode: "walk",
+		from,
+		to,
+		departureTime: new Date(departAt).toISOString(),
+		arrivalTime: new Date(departAt + walkSeconds(from, to) * 1000).toISOString(),
+		agency: null,
+		route: null,
+		headsign: null,
+		vehicleId: null,
+		source: null,
+		distance,
+	}];
+}
+
+// A bus ride may board at another of the stops combined under the stop's ID
+function toPlace(stop: IndexedStop, stopId = stop.stopId): TripPlace {
+	return {
+		name: stop.stopName,
+		agency: stop.agency,
+		stopId,
+		stopRef: stopRef(stop.agency, stopId),
+		lat: stop.lat,
+		lon: stop.lon,
+	};
+}
+
+// BART transfer stations inside a trip aren't among the candidate stops, so
+// they carry the name but borrow coordinates only when they are the ends
+function stationPlace(code: string, board: IndexedStop, alight: IndexedStop, stationNames: Map<string, string>): TripPlace {
+	const known = [board, alight].find(stop => stop.stopId === code);
+	return known ? toPlace(known) : {
+		name: stationNames.get(code) || code,
+		agency: RAIL,
+		stopId: code,
+		stopRef: stopRef(RAIL, code),
+		lat: null,
+		lon: null,
+	};
+}
+
+// How far a live departure may be from the timetable's and still be taken
+// for the same train
+const EARLY_DEPARTURE_MS = 2 * 60 * 1000;
+const LATE_DEPARTURE_MS = 20 * 60 * 1000;
+
+function trainKey(leg: BartTripLeg): string {
+	return `${leg.line.toLowerCase()}:${leg.trainHeadStation.toUpperCase()}`;
+}
+
+/**
+ * When the train the timetable has for a leg actually leaves: the live
+ * departure of the same line and end station closest to the scheduled one,
+ * if any is close enough. Null otherwise.
+ */
+function matchDeparture(departures: TransitPrediction[], leg: BartTripLeg): number | null {
+	const scheduled = Date.parse(leg.departureTime);
+	let best: number | null = null;
+	for (const departure of departures) {
+		const time = Date.parse(departure.departureTime);
+		if (time < scheduled - EARLY_DEPARTURE_MS || time > scheduled + LATE_DEPARTURE_MS) {
+			continue;
+		}
+		if (best === null || Math.abs(time - scheduled) < Math.abs(best - scheduled)) {
+			best = time;
+		}
+	}
+	return best;
+}
+
+function closest(stops: IndexedStop[], point: TripPoint): IndexedStop | null {
+	let best: IndexedStop | null = null;
+	let bestDistance = TRANSFER_RADIUS_METERS;
+	for (const stop of stops) {
+		const distance = distanceMeters(stop.lat, stop.lon, point.lat, point.lon);
+		if (distance <= bestDistance) {
+			best = stop;
+			bestDistance = distance;
+		}
+	}
+	return best;
+}
+
+function unique<T>(values: T[]): T[] {
+	return Array.from(new Set(values));
+}
+
+function toItinerary(legs: TripLeg[]): Itinerary {
+	const departureTime = legs[0].departureTime;
+	const arrivalTime = legs[legs.length - 1].arrivalTime;
+	return {
+		departureTime,
+		arrivalTime,
+		durationMinutes: Math.round((Date.parse(arrivalTime) - Date.parse(departureTime)) / 60000),
+		transfers: legs.filter(leg => leg.mode !== "walk").length - 1,
+		legs,
+	};
+}
@@ -1,13 +1,183 @@
-import { DateTime, Str } from "chanfana";
+import { Bool, DateTime, Int, Num, Str } from "chanfana";
 import type { Context } from "hono";
 import { z } from "zod";
+import { ERROR_CODES } from "./errors";
 
 export type AppContext = Context<{ Bindings: Env }>;
 
-export const Task = z.object({
-	name: Str({ example: "lorem" }),
-	slug: Str(),
-	description: Str({ required: false }),
-	completed: z.boolean().default(false),
-	due_date: DateTime(),
+export const FavoriteInput = z.object({
+	agency: Str({ example: "actransit" }),
+	agencyName: Str({ required: false, example: "AC Transit" }),
+	stop: Str({ example: "55558" }),
+	stopName: Str({ required: false, example: "Broadway & 14th St" }),
+	route: Str({ example: "NL" }),
+	direction: Str({ required: false, example: "To SF" }),
+	headsign: Str({ required: false }),
+	name: Str({ required: false, description: "Custom label shown instead of the stop name" }),
 });
+
+export const Favorite = FavoriteInput.extend({
+	id: Str(),
+	position: Int({ description: "Zero-based position in the list" }),
+	createdAt: DateTime(),
+	updatedAt: DateTime(),
+});
+
+export const DepartureAlertInput = z.object({
+	agency: Str({ description: "Transit agency code; optional when stop is a stop reference", required: false, example: "actransit" }),
+	stop: Str({ description: "Stop ID, or a stop reference such as actransit:55558", example: "55558" }),
+	route: Str({ example: "NL" }),
+	direction: Str({ required: false, example: "To SF" }),
+	headsign: Str({ required: false }),
+	minutesBefore: z.number().int().min(0).max(60).describe("Notify when the next departure is this many minutes away"),
+	webhookUrl: Str({ required: false, description: "HTTPS URL to POST the notification to" }),
+	email: Str({ required: false, description: "Address to email the notification to (instead of webhookUrl). Must be verified in Cloudflare Email Routing; when the server lists its verified addresses, others are refused" }),
+	expiresInMinutes: z.number().int().min(1).max(240).default(60).describe("Stop watching after this many minutes"),
+});
+
+export const DepartureAlert = DepartureAlertInput.omit({ expiresInMinutes: true }).extend({
+	agency: Str({ example: "actransit" }),
+	stop: Str({ description: "Stop ID, without the agency", example: "55558" }),
+	id: Str(),
+	status: z.enum(["active", "triggered", "expired", "failed", "cancelled"]),
+	createdAt: DateTime(),
+	expiresAt: DateTime(),
+	finishedAt: DateTime().nullable(),
+	lastError: Str({ description: "Why the last delivery attempt failed, such as a webhook timing out" }).nullable(),
+});
+
+export const TransitPredictionSchema = z.object({
+	arrivalTime: Str({ description: "ISO 8601 arrival time" }),
+	departureTime: Str({ description: "ISO 8601 departure time" }),
+	stopName: Str(),
+	stopId: Str(),
+	stopRef: Str({ description: "Stop reference, as <agency>:<stopId>", example: "bart:EMBR" }),
+	route: Str(),
+	direction: Str(),
+	vehicleId: Str(),
+	minutesUntilArrival: Num({ description: "Minutes until arrival" }),
+	source: z.enum(["realtime", "scheduled"]).describe("\"scheduled\" when no realtime data was available and the timetable was used"),
+	generatedAt: Str({ description: "ISO 8601 time the agency's feed produced the prediction (null for scheduled)", required: false }).nullable(),
+	ageSeconds: Num({ description: "Seconds between generatedAt and when the response was sent, as in \"updated 40s ago\" (null for scheduled)", required: false }).nullable(),
+});
+
+export const ServiceAlertSchema = z.object({
+	id: Str(),
+	agency: Str(),
+	severity: z.enum(["info", "warning", "severe"]),
+	header: Str(),
+	description: Str(),
+	routes: z.array(Str()).describe("Affected routes (empty when not limited to routes)"),
+	stops: z.array(Str()).describe("Affected stops (empty when not limited to stops)"),
+	activeFrom: DateTime().nullable(),
+	activeUntil: DateTime().nullable(),
+	url: Str().nullable(),
+});
+
+export const TransitVehicleSchema = z.object({
+	vehicleId: Str({ description: "Matches a prediction's vehicleId (empty for BART)" }),
+	route: Str(),
+	lat: Num(),
+	lon: Num(),
+	heading: Num({ description: "Degrees clockwise from north" }).nullable(),
+	speed: Num({ description: "Meters per second" }).nullable(),
+	tripId: Str().nullable(),
+	destination: Str().nullable(),
+	nextStopId: Str({ description: "Next station, for estimated positions" }).nullable(),
+	nextStopRef: Str({ description: "Stop reference for the next station, as <agency>:<stopId>" }).nullable(),
+	updatedAt: DateTime().nullable(),
+	source: z.enum(["reported", "estimated"]).describe("\"estimated\" when placed between stations from departure estimates (BART)"),
+});
+
+export const ScheduledDepartureSchema = z.object({
+	departureTime: DateTime(),
+	stopId: Str(),
+	stopRef: Str(),
+	stopName: Str(),
+	route: Str(),
+	direction: Str({ description: "Matches the direction parameter predictions accept" }),
+	destination: Str(),
+	destinationId: Str({ description: "Destination station code, where the agency has one (BART)" }).nullable(),
+});
+
+export const ServiceDaySchema = z.object({
+	date: Str({ example: "2026-11-26" }),
+	schedule: z.enum(["weekday", "saturday", "sunday"]).describe("Which timetable runs; holidays run a weekend one"),
+	holiday: Str({ description: "Holiday name, when the agency runs holiday service" }).nullable(),
+});
+
+export const TransitStopSchema = z.object({
+	stopId: Str(),
+	stopRef: Str({ description: "Stop reference, as <agency>:<stopId>", example: "actransit:55558" }),
+	stopCode: Str(),
+	stopName: Str(),
+	lat: z.number().nullable(),
+	lon: z.number().nullable(),
+});
+
+export const RouteShapeSchema = z.object({
+	direction: Str(),
+	destination: Str(),
+	polyline: Str({ description: "Encoded polyline (precision 5) of the path, for format=polyline" }).nullable(),
+	geometry: z.object({
+		type: z.literal("LineString"),
+		coordinates: z.array(z.tuple([z.number(), z.number()])).describe("[lon, lat] pairs"),
+	}).nullable().describe("GeoJSON LineString of the path, for format=geojson"),
+	stops: z.array(TransitStopSchema).describe("Stops in travel order"),
+});
+
+export const StopGroupSchema = z.object({
+	groupId: Str({ description: "Stop reference for the whole group, e.g. for predictions at every member", example: "actransit:55558~55559" }),
+	stopName: Str(),
+	lat: z.number().nullable().describe("Middle of the members"),
+	lon: z.number().nullable(),
+	members: z.array(z.object({
+		stopId: Str(),
+		stopRef: Str(),
+		stopCode: Str(),
+		lat: z.number().nullable(),
+		lon: z.number().nullable(),
+		directions: z.array(z.object({
+			direction: Str({ description: "Matches the direction parameter predictions accept" }),
+			destination: Str(),
+			heading: Num({ description: "Degrees clockwise from north that vehicles travel at the stop, which tells the side of the street" }).nullable(),
+		})),
+	})),
+});
+
+export const ApiErrorSchema = z.object({
+	code: z.enum(ERROR_CODES).describe("Stable code to branch on"),
+	message: Str({ description: "Human-readable; may change" }),
+	param: Str({ description: "Request parameter at fault" }).nullable(),
+	agency: Str({ description: "Agency the error concerns, e.g. the one whose API failed" }).nullable(),
+});
+
+export const ErrorResponseSchema = z.object({
+	success: Bool(),
+	error: ApiErrorSchema,
+});
+
+/**
+ * OpenAPI responses for an endpoint's error statuses, keyed by status with
+ * a description of each. Every one returns ErrorResponseSchema.
+ */
+export function errorResponses(descriptions: Record<string, string>) {
+	return Object.fromEntries(Object.entries(descriptions).map(([status, description]) => [
+		status,
+		{
+			description,
+			content: {
+				"application/json": {
+					schema: ErrorResponseSchema,
+				},
+			},
+		},
+	]));
+}
+
+// Statuses for a failing agency API, for endpoints that call one
+export const UPSTREAM_ERRORS = {
+	"429": "Agency rate limit exceeded; retry after the Retry-After header",
+	"502": "Agency API returned an unusable response",
+	"503": "Agency unavailable; retry after the Retry-After header",
+};
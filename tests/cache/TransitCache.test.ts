@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { CACHE_POLICIES, TransitCache } from "../../src/cache/TransitCache";
+import { MemoryKV } from "../helpers/kv";
+
+const NOW = Date.parse("2025-07-03T15:00:00Z");
+
+describe("TransitCache.get", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("loads a missing entry once and serves it from KV after", async () => {
+		const kv = new MemoryKV();
+		const cache = new TransitCache(kv.asNamespace());
+		const load = vi.fn(async () => ["NL"]);
+
+		expect(await cache.get("routes", "actransit", load)).toEqual(["NL"]);
+		expect(await cache.get("routes", "actransit", load)).toEqual(["NL"]);
+		expect(load).toHaveBeenCalledTimes(1);
+		expect(kv.entries.has("routes:actransit")).toBe(true);
+	});
+
+	it("serves a stale entry while refreshing it in the background", async () => {
+		vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+		const kv = new MemoryKV();
+		await kv.put("routes:actransit", JSON.stringify({ storedAt: NOW - (CACHE_POLICIES.routes.ttl + 1) * 1000, value: ["old"] }));
+		const waiting: Promise<unknown>[] = [];
+		const ctx = { waitUntil: (promise: Promise<unknown>) => waiting.push(promise) } as unknown as ExecutionContext;
+
+		const cache = new TransitCache(kv.asNamespace(), ctx);
+		expect(await cache.get("routes", "actransit", async () => ["new"])).toEqual(["old"]);
+
+		expect(waiting).toHaveLength(1);
+		await Promise.all(waiting);
+		expect(await cache.get("routes", "actransit", async () => ["newer"])).toEqual(["new"]);
+	});
+
+	it("serves a fresh entry without loading", async () => {
+		vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+		const kv = new MemoryKV();
+		await kv.put("routes:actransit", JSON.stringify({ storedAt: NOW - 1000, value: ["cached"] }));
+		const load = vi.fn(async () => ["new"]);
+
+		expect(await new TransitCache(kv.asNamespace()).get("routes", "actransit", load)).toEqual(["cached"]);
+		expect(load).not.toHaveBeenCalled();
+	});
+
+	it("keeps the stale entry when revalidation fails", async () => {
+		vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		const kv = new MemoryKV();
+		const stale = JSON.stringify({ storedAt: NOW - (CACHE_POLICIES.routes.ttl + 1) * 1000, value: ["old"] });
+		await kv.put("routes:actransit", stale);
+
+		const cache = new TransitCache(kv.asNamespace());
+		expect(await cache.get("routes", "actransit", async () => { throw new Error("upstream down"); })).toEqual(["old"]);
+		expect(kv.entries.get("routes:actransit")).toBe(stale);
+	});
+});
+
+describe("TransitCache.purge", () => {
+	async function filledCache() {
+		const kv = new MemoryKV(2);
+		for (const key of [
+			"routes:actransit",
+			"stops:actransit:nl",
+			"stops:actransit:groups:nl",
+			"stops:bart:yellow",
+			"stops:bartx:red",
+			"lines:bart",
+			"fixture:https://api.bart.gov/api/etd.aspx",
+		]) {
+			await kv.put(key, "{}");
+		}
+		return { kv, cache: new TransitCache(kv.asNamespace()) };
+	}
+
+	it("clears every cached type but leaves other keys alone", async () => {
+		const { kv, cache } = await filledCache();
+		expect(await cache.purge()).toBe(6);
+		expect(Array.from(kv.entries.keys())).toEqual(["fixture:https://api.bart.gov/api/etd.aspx"]);
+	});
+
+	it("clears one agency without touching codes that start the same way", async () => {
+		const { kv, cache } = await filledCache();
+		expect(await cache.purge(undefined, "BART")).toBe(2);
+		expect(kv.entries.has("stops:bartx:red")).toBe(true);
+		expect(kv.entries.has("routes:actransit")).toBe(true);
+	});
+
+	it("clears one type, across pages of keys", async () => {
+		const { kv, cache } = await filledCache();
+		expect(await cache.purge(["stops"])).toBe(4);
+		expect(Array.from(kv.entries.keys()).filter((key) => key.startsWith("stops:"))).toEqual([]);
+	});
+});
@@ -0,0 +1,55 @@
+import { Hono } from "hono";
+import { describe, expect, it } from "vitest";
+import { conditionalRequests, isNotModified } from "../src/cacheHeaders";
+
+const ETAG = 'W/"abc123"';
+// 2025-07-03T15:00:00Z
+const SINCE = 1751554800;
+
+describe("isNotModified", () => {
+	it("matches If-None-Match strongly or weakly, in a list, or as *", () => {
+		expect(isNotModified(new Headers({ "if-none-match": ETAG }), ETAG, SINCE)).toBe(true);
+		expect(isNotModified(new Headers({ "if-none-match": '"abc123"' }), ETAG, SINCE)).toBe(true);
+		expect(isNotModified(new Headers({ "if-none-match": 'W/"other", W/"abc123"' }), ETAG, SINCE)).toBe(true);
+		expect(isNotModified(new Headers({ "if-none-match": "*" }), ETAG, SINCE)).toBe(true);
+		expect(isNotModified(new Headers({ "if-none-match": 'W/"other"' }), ETAG, SINCE)).toBe(false);
+	});
+
+	it("compares If-Modified-Since with when the body was first served", () => {
+		expect(isNotModified(new Headers({ "if-modified-since": "Thu, 03 Jul 2025 15:00:00 GMT" }), ETAG, SINCE)).toBe(true);
+		expect(isNotModified(new Headers({ "if-modified-since": "Thu, 03 Jul 2025 14:59:59 GMT" }), ETAG, SINCE)).toBe(false);
+		expect(isNotModified(new Headers({ "if-modified-since": "yesterday" }), ETAG, SINCE)).toBe(false);
+		expect(isNotModified(new Headers(), ETAG, SINCE)).toBe(false);
+	});
+
+	it("lets If-None-Match win over If-Modified-Since", () => {
+		const headers = new Headers({ "if-none-match": 'W/"other"', "if-modified-since": "Thu, 03 Jul 2025 16:00:00 GMT" });
+		expect(isNotModified(headers, ETAG, SINCE)).toBe(false);
+	});
+});
+
+describe("conditionalRequests", () => {
+	const app = new Hono();
+	app.use("*", conditionalRequests);
+	app.get("/cached", (c) => c.json({ stops: [] }, 200, { "Cache-Control": "public, max-age=60", Vary: "Accept-Encoding" }));
+	app.get("/uncached", (c) => c.json({ stops: [] }, 200, { "Cache-Control": "no-store" }));
+
+	it("answers a matching request with a 304 that keeps the caching headers", async () => {
+		const first = await app.request("/cached");
+		const etag = first.headers.get("etag");
+		expect(etag).toMatch(/^W\/"[0-9a-f]{40}"$/);
+
+		const second = await app.request("/cached", { headers: { "If-None-Match": etag } });
+		expect(second.status).toBe(304);
+		expect(await second.text()).toBe("");
+		expect(second.headers.get("etag")).toBe(etag);
+		expect(second.headers.get("last-modified")).toBe(first.headers.get("last-modified"));
+		expect(second.headers.get("cache-control")).toBe("public, max-age=60");
+		expect(second.headers.get("vary")).toBe("Accept-Encoding");
+	});
+
+	it("leaves responses that can't be cached alone", async () => {
+		const response = await app.request("/uncached");
+		expect(response.headers.get("etag")).toBeNull();
+	});
+});
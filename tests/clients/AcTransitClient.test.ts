@@ -0,0 +1,97 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { Miniflare } from "miniflare";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AgencyRequestError } from "../../src/clients/AgencyAdapter";
+import { AcTransitClient } from "../../src/clients/AcTransitClient";
+import { importGtfsFeed } from "../../src/gtfs/importFeed";
+import { createTestDatabase } from "../helpers/d1";
+
+const FEED = new Uint8Array(readFileSync(join(__dirname, "../fixtures/gtfs/test-transit.zip")));
+
+describe("AcTransitClient.getSchedule", () => {
+	let db: D1Database;
+	let mf: Miniflare;
+	let client: AcTransitClient;
+
+	beforeEach(async () => {
+		({ db, mf } = await createTestDatabase());
+		client = new AcTransitClient("key", { mode: "mock", recordings: null }, db);
+	});
+
+	afterEach(async () => {
+		await mf.dispose();
+	});
+
+	it("reads the timetable from the GTFS feed imported under its code, by stop code and route short name", async () => {
+		await importGtfsFeed(db, "actransit", FEED);
+
+		expect(await client.getSchedule({ stop: "101,102", route: "1", date: "2025-07-03" })).toEqual([
+			{
+				departureTime: "2025-07-03T15:00:00.000Z",
+				stopId: "101",
+				stopName: "Alpha",
+				route: "1",
+				direction: "To Gamma",
+				destination: "Gamma",
+				destinationId: null,
+			},
+			{
+				departureTime: "2025-07-03T15:05:00.000Z",
+				stopId: "102",
+				stopName: "Beta",
+				route: "1",
+				direction: "To Gamma",
+				destination: "Gamma",
+				destinationId: null,
+			},
+			{
+				departureTime: "2025-07-03T16:05:00.000Z",
+				stopId: "102",
+				stopName: "Beta",
+				route: "1",
+				direction: "To Alpha",
+				destination: "Alpha",
+				destinationId: null,
+			},
+		]);
+	});
+
+	it("has no timetable until the feed is imported", async () => {
+		await expect(client.getSchedule({ stop: "101", route: "1", date: "2025-07-03" })).rejects.toThrow(AgencyRequestError);
+	});
+});
+
+describe("AcTransitClient.getPredictions", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("splits a large stop group into requests Bustime accepts and merges them", async () => {
+		const requested: string[][] = [];
+		vi.stubGlobal("fetch", async (input: string) => {
+			const stopIds = new URL(input).searchParams.get("stpid").split(",");
+			requested.push(stopIds);
+			// Each stop's bus arrives a minute after the previous stop's
+			return Response.json({
+				"bustime-response": {
+					prd: stopIds.map((stopId) => ({
+						stpnm: `Stop ${stopId}`,
+						stpid: stopId,
+						vid: "1001",
+						rt: "NL",
+						rtdir: "To San Francisco",
+						prdtm: `20250703 08:${stopId.slice(-2)}`,
+					})),
+				},
+			});
+		});
+
+		const stopIds = Array.from({ length: 12 }, (_, i) => `500${(i + 10).toString()}`);
+		const predictions = await new AcTransitClient("key").getPredictions({ stop: stopIds.join(","), route: "NL" });
+
+		expect(requested.map((ids) => ids.length)).toEqual([10, 2]);
+		expect(requested.flat()).toEqual(stopIds);
+		expect(predictions.map((prediction) => prediction.stopId)).toEqual(stopIds);
+	});
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { predictionFreshness, predictionSignature, withAge, type TransitPrediction } from "../../src/clients/AgencyAdapter";
+
+const PREDICTION: TransitPrediction = {
+	arrivalTime: "2025-07-03T15:02:00.000Z",
+	departureTime: "2025-07-03T15:02:30.000Z",
+	stopName: "Alpha",
+	stopId: "101",
+	route: "1",
+	direction: "To Gamma",
+	vehicleId: "bus-7",
+	minutesUntilArrival: 6,
+	source: "realtime",
+	generatedAt: "2025-07-03T14:54:30.000Z",
+	ageSeconds: 90,
+};
+
+describe("predictionSignature", () => {
+	it("ignores countdowns moving with the clock", () => {
+		const later = { ...PREDICTION, minutesUntilArrival: 5, ageSeconds: 150 };
+		expect(predictionSignature([later])).toBe(predictionSignature([PREDICTION]));
+	});
+
+	it("ignores a new feed time that leaves the predictions within the minute", () => {
+		const regenerated = {
+			...PREDICTION,
+			arrivalTime: "2025-07-03T15:02:20.000Z",
+			departureTime: "2025-07-03T15:02:40.000Z",
+			generatedAt: "2025-07-03T14:55:00.000Z",
+		};
+		expect(predictionSignature([regenerated])).toBe(predictionSignature([PREDICTION]));
+	});
+
+	it("changes when a prediction moves", () => {
+		const signature = predictionSignature([PREDICTION]);
+		expect(predictionSignature([{ ...PREDICTION, arrivalTime: "2025-07-03T15:03:00.000Z" }])).not.toBe(signature);
+		expect(predictionSignature([{ ...PREDICTION, vehicleId: "bus-8" }])).not.toBe(signature);
+		expect(predictionSignature([{ ...PREDICTION, source: "scheduled" }])).not.toBe(signature);
+	});
+
+	it("changes when predictions appear or drop off", () => {
+		expect(predictionSignature([])).not.toBe(predictionSignature([PREDICTION]));
+		expect(predictionSignature([PREDICTION, { ...PREDICTION, vehicleId: "bus-9" }]))
+			.not.toBe(predictionSignature([PREDICTION]));
+	});
+});
+
+describe("predictionFreshness", () => {
+	it("gives the feed time and its age", () => {
+		expect(predictionFreshness(new Date("2025-07-03T14:54:30Z"), Date.parse("2025-07-03T14:55:10.400Z"))).toEqual({
+			generatedAt: "2025-07-03T14:54:30.000Z",
+			ageSeconds: 40,
+		});
+	});
+
+	it("doesn't count a feed time ahead of the server's clock as negative", () => {
+		expect(predictionFreshness(new Date("2025-07-03T14:54:30Z"), Date.parse("2025-07-03T14:54:00Z")).ageSeconds).toBe(0);
+	});
+
+	it("gives nulls without a usable feed time", () => {
+		expect(predictionFreshness(null)).toEqual({ generatedAt: null, ageSeconds: null });
+		expect(predictionFreshness(new Date("not a time"))).toEqual({ generatedAt: null, ageSeconds: null });
+	});
+});
+
+describe("withAge", () => {
+	it("brings the age up to the time it's served", () => {
+		expect(withAge(PREDICTION, Date.parse("2025-07-03T14:56:30Z")).ageSeconds).toBe(120);
+	});
+
+	it("leaves scheduled departures without one", () => {
+		const scheduled = { ...PREDICTION, source: "scheduled" as const, generatedAt: null, ageSeconds: null };
+		expect(withAge(scheduled)).toEqual(scheduled);
+	});
+});
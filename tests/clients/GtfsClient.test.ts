@@ -0,0 +1,83 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { Miniflare } from "miniflare";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { transit_realtime } from "gtfs-realtime-bindings";
+import { GtfsClient } from "../../src/clients/GtfsClient";
+import { importGtfsFeed } from "../../src/gtfs/importFeed";
+import { createTestDatabase } from "../helpers/d1";
+
+const FEED = new Uint8Array(readFileSync(join(__dirname, "../fixtures/gtfs/test-transit.zip")));
+
+describe("GtfsClient", () => {
+	let db: D1Database;
+	let mf: Miniflare;
+	let client: GtfsClient;
+
+	beforeAll(async () => {
+		({ db, mf } = await createTestDatabase());
+		await importGtfsFeed(db, "test", FEED, "https://example.com/test-transit/trip-updates.pb");
+		client = new GtfsClient(db, await GtfsClient.getFeed(db, "test"), { mode: "mock", recordings: null });
+	});
+
+	afterAll(async () => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+		await mf.dispose();
+	});
+
+	it("names holidays where calendar_dates.txt replaces weekday service", async () => {
+		expect(await client.getServiceDay("2025-07-04")).toEqual({ date: "2025-07-04", schedule: "sunday", holiday: "Holiday" });
+		expect(await client.getServiceDay("2025-07-03")).toEqual({ date: "2025-07-03", schedule: "weekday", holiday: null });
+		expect(await client.getServiceDay("2025-07-05")).toEqual({ date: "2025-07-05", schedule: "saturday", holiday: null });
+	});
+
+	it("reads timetables and directions for stop groups larger than D1's parameter limit", async () => {
+		// Made-up IDs padding the group, with the real stops last
+		const group = [...Array.from({ length: 150 }, (_, i) => `X${i}`), "A", "B"].join(",");
+
+		const departures = await client.getSchedule({ stop: group, route: "1", date: "2025-07-03" });
+		expect(departures.map((d) => [d.stopId, d.departureTime])).toEqual([
+			["A", "2025-07-03T15:00:00.000Z"],
+			["B", "2025-07-03T15:05:00.000Z"],
+			["B", "2025-07-03T16:05:00.000Z"],
+		]);
+
+		const directions = await client.getStopDirections("1", group);
+		expect(directions.map((d) => [d.direction, d.destination])).toEqual([["0", "Gamma"], ["1", "Alpha"]]);
+	});
+
+	it("fills in realtime predictions from the static feed", async () => {
+		vi.useFakeTimers({ toFake: ["Date"], now: Date.parse("2025-07-03T14:56:00Z") });
+
+		const predictions = await client.getPredictions({ stop: "B", route: "1", direction: "alpha" });
+		expect(predictions.map((p) => [p.stopName, p.direction, p.arrivalTime])).toEqual([
+			["Beta", "Alpha", "2025-07-03T15:05:00.000Z"],
+		]);
+	});
+
+	it("fills in routes and delay-only times from the static feed", async () => {
+		// T2 without its route and B's arrival only as a delay; T4, past
+		// midnight, likewise and without a start date
+		const feed = transit_realtime.FeedMessage.encode(transit_realtime.FeedMessage.fromObject({
+			header: { gtfsRealtimeVersion: "2.0", timestamp: Date.parse("2025-07-03T15:50:00Z") / 1000 },
+			entity: [
+				{ id: "1", tripUpdate: { trip: { tripId: "T2" }, stopTimeUpdate: [{ stopId: "B", arrival: { delay: 120 } }] } },
+				{ id: "2", tripUpdate: { trip: { tripId: "T4" }, stopTimeUpdate: [{ stopId: "A", departure: { delay: 60 } }] } },
+			],
+		})).finish();
+		vi.stubGlobal("fetch", async () => new Response(feed));
+		const live = new GtfsClient(db, await GtfsClient.getFeed(db, "test"));
+
+		vi.useFakeTimers({ toFake: ["Date"], now: Date.parse("2025-07-03T15:51:00Z") });
+		const predictions = await live.getPredictions({ stop: "B", route: "1" });
+		expect(predictions.map((p) => [p.route, p.direction, p.arrivalTime])).toEqual([
+			["1", "Alpha", "2025-07-03T16:07:00.000Z"],
+		]);
+
+		// 25:00 on the 3rd is 01:00 on the 4th, Pacific time
+		vi.setSystemTime(Date.parse("2025-07-04T07:30:00Z"));
+		const late = await live.getPredictions({ stop: "A", route: "X" });
+		expect(late.map((p) => [p.route, p.departureTime])).toEqual([["X", "2025-07-04T08:01:00.000Z"]]);
+	});
+});
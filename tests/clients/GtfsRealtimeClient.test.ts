@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GtfsRealtimeClient } from "../../src/clients/GtfsRealtimeClient";
+import { UpstreamHttp } from "../../src/clients/UpstreamHttp";
+import { findFixture, fixtureResponse, RECORDING_PREFIX, type UpstreamFixture } from "../../src/clients/upstreamFixtures";
+
+const FEED_URL = "https://example.com/test-transit/trip-updates.pb";
+const NOW = Date.parse("2025-07-03T14:56:00Z");
+
+async function recordedFeed() {
+	const response = fixtureResponse(await findFixture(FEED_URL));
+	return GtfsRealtimeClient.decode(new Uint8Array(await response.arrayBuffer()));
+}
+
+describe("GtfsRealtimeClient", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+	});
+
+	it("decodes a recorded TripUpdates feed", async () => {
+		const feed = await recordedFeed();
+
+		expect(feed.header.gtfsRealtimeVersion).toBe("2.0");
+		expect(feed.entity.map((entity) => entity.tripUpdate.trip.tripId)).toEqual(["T1", "T2", "T4"]);
+	});
+
+	it("maps stop time updates at the given stops into predictions, soonest first", async () => {
+		const predictions = GtfsRealtimeClient.toPredictions(await recordedFeed(), ["A", "B"], undefined, NOW);
+
+		expect(predictions.map((p) => [p.tripId, p.stopId, p.arrivalTime, p.departureTime, p.vehicleId, p.direction, p.generatedAt])).toEqual([
+			["T1", "A", "2025-07-03T15:02:00.000Z", "2025-07-03T15:02:30.000Z", "bus-7", "0", "2025-07-03T14:54:30.000Z"],
+			// Without its own timestamp, the trip update is as old as the feed
+			["T2", "B", "2025-07-03T15:05:00.000Z", "2025-07-03T15:05:00.000Z", "Bus 9", "1", "2025-07-03T14:55:00.000Z"],
+			["T1", "B", "2025-07-03T15:07:00.000Z", "2025-07-03T15:07:00.000Z", "bus-7", "0", "2025-07-03T14:54:30.000Z"],
+		]);
+		expect(predictions[0].minutesUntilArrival).toBe(6);
+	});
+
+	it("leaves out canceled trips, skipped stops and departed vehicles", async () => {
+		const feed = await recordedFeed();
+
+		// T4 is canceled
+		expect(GtfsRealtimeClient.toPredictions(feed, ["A"], "X", NOW)).toEqual([]);
+		// T1 skips C, and T2 has already left it
+		expect(GtfsRealtimeClient.toPredictions(feed, ["C"], undefined, NOW)).toEqual([]);
+		expect(GtfsRealtimeClient.toPredictions(feed, ["A", "B"], "1", Date.parse("2025-07-03T15:06:00Z")).map((p) => p.tripId)).toEqual(["T1"]);
+	});
+
+	it("serves the recorded feed in mock mode", async () => {
+		vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+		const client = new GtfsRealtimeClient("test", "Test Transit", FEED_URL, { mode: "mock", recordings: null });
+
+		const predictions = GtfsRealtimeClient.toPredictions(await client.getFeed(), ["A"]);
+		expect(predictions.map((p) => p.arrivalTime)).toEqual(["2025-07-03T15:02:00.000Z"]);
+	});
+
+	it("records binary feeds as base64 that mock mode serves back", async () => {
+		const bytes = new Uint8Array(await fixtureResponse(await findFixture(FEED_URL)).arrayBuffer());
+		vi.stubGlobal("fetch", async () => new Response(bytes, { headers: { "content-type": "application/x-protobuf" } }));
+		const recordings = new Map<string, string>();
+		const kv = { put: async (key: string, value: string) => void recordings.set(key, value) } as unknown as KVNamespace;
+
+		const upstream = new UpstreamHttp("test", "Test Transit realtime feed", { timeoutMs: 1000, retries: 0 }, { mode: "record", recordings: kv });
+		await upstream.get(FEED_URL, FEED_URL, (response) => response.arrayBuffer());
+
+		const fixture: UpstreamFixture = JSON.parse(recordings.get(`${RECORDING_PREFIX}${FEED_URL}`));
+		expect(fixture).toEqual(await findFixture(FEED_URL));
+		expect(new Uint8Array(await fixtureResponse(fixture).arrayBuffer())).toEqual(bytes);
+	});
+});
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	QuotaExceededError,
+	UpstreamError,
+	UpstreamHttp,
+	UpstreamUnavailableError,
+} from "../../src/clients/UpstreamHttp";
+
+const URL = "https://api.example.com/predictions?key=secret";
+const KEY = "https://api.example.com/predictions";
+
+const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+const status = (code: number, headers?: HeadersInit) => new Response("error", { status: code, headers });
+
+// Circuits live for the isolate, so each test gets an agency of its own
+let agencies = 0;
+function client(retries = 0): UpstreamHttp {
+	return new UpstreamHttp(`agency-${++agencies}`, "Example", { timeoutMs: 1000, retries });
+}
+
+function get(http: UpstreamHttp) {
+	return http.get(URL, KEY, (response) => response.json());
+}
+
+describe("UpstreamHttp", () => {
+	let fetch: ReturnType<typeof vi.fn>;
+	let delays: number[];
+
+	beforeEach(() => {
+		vi.useFakeTimers({ toFake: ["Date"], now: new Date("2025-07-03T15:00:00Z") });
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		fetch = vi.fn();
+		vi.stubGlobal("fetch", fetch);
+		// Backoffs run at once, noting how long they would have waited
+		delays = [];
+		vi.spyOn(globalThis, "setTimeout").mockImplementation(((callback: () => void, delay: number) => {
+			delays.push(delay);
+			callback();
+			return 0;
+		}) as unknown as typeof setTimeout);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	it("retries 5xx responses and network errors after a jittered backoff", async () => {
+		vi.spyOn(Math, "random").mockReturnValue(0.5);
+		fetch.mockResolvedValueOnce(status(503))
+			.mockRejectedValueOnce(new TypeError("Network connection lost"))
+			.mockResolvedValueOnce(json({ ok: true }));
+
+		expect(await get(client(2))).toEqual({ ok: true });
+		expect(fetch).toHaveBeenCalledTimes(3);
+		expect(fetch).toHaveBeenCalledWith(URL, expect.objectContaining({ signal: expect.any(AbortSignal) }));
+		// Anywhere up to 250 ms, then 500 ms
+		expect(delays).toEqual([125, 250]);
+	});
+
+	it("fails as unavailable once the retries run out", async () => {
+		fetch.mockRejectedValue(new TypeError("Network connection lost"));
+
+		const error = await get(client(2)).catch((e) => e);
+		expect(error).toBeInstanceOf(UpstreamUnavailableError);
+		expect(error.status).toBe(503);
+		expect(fetch).toHaveBeenCalledTimes(3);
+	});
+
+	it("doesn't retry a 4xx", async () => {
+		fetch.mockResolvedValue(status(404));
+
+		const error = await get(client(2)).catch((e) => e);
+		expect(error).toBeInstanceOf(UpstreamError);
+		expect(error).not.toBeInstanceOf(UpstreamUnavailableError);
+		expect(error).toMatchObject({ status: 502, upstreamStatus: 404 });
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it("opens the circuit after repeated failures, then lets one request through", async () => {
+		const http = client();
+		fetch.mockResolvedValue(status(500));
+		for (let i = 0; i < 5; i++) {
+			await expect(get(http)).rejects.toThrow("Example API error: 500");
+		}
+
+		// Open: nothing goes upstream
+		const open = await get(http).catch((e) => e);
+		expect(open).toBeInstanceOf(UpstreamUnavailableError);
+		expect(open).toMatchObject({ message: "Example is unavailable", retryAfter: 30 });
+		expect(fetch).toHaveBeenCalledTimes(5);
+
+		// Half-open: one request is let through, and its failure opens it again
+		vi.setSystemTime(Date.now() + 30 * 1000);
+		await expect(get(http)).rejects.toThrow("Example API error: 500");
+		expect(fetch).toHaveBeenCalledTimes(6);
+		await expect(get(http)).rejects.toThrow("Example is unavailable");
+		expect(fetch).toHaveBeenCalledTimes(6);
+
+		// A success closes it, so one more failure no longer opens it
+		vi.setSystemTime(Date.now() + 30 * 1000);
+		fetch.mockResolvedValueOnce(json({ ok: 1 })).mockResolvedValueOnce(status(500)).mockResolvedValueOnce(json({ ok: 2 }));
+		expect(await get(http)).toEqual({ ok: 1 });
+		// Served from the last good response
+		expect(await get(http)).toEqual({ ok: 1 });
+		expect(await get(http)).toEqual({ ok: 2 });
+		expect(fetch).toHaveBeenCalledTimes(9);
+	});
+
+	it("backs off for as long as a 429 asks", async () => {
+		const http = client(2);
+		fetch.mockResolvedValue(status(429, { "retry-after": "120" }));
+
+		await expect(get(http)).rejects.toBeInstanceOf(QuotaExceededError);
+		expect(fetch).toHaveBeenCalledTimes(1);
+
+		vi.setSystemTime(Date.now() + 60 * 1000);
+		await expect(get(http)).rejects.toMatchObject({ message: "Example is unavailable", retryAfter: 60 });
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it("serves the last good response while the agency is down, until it's too old", async () => {
+		const http = client();
+		fetch.mockResolvedValueOnce(json({ predictions: 3 }));
+		expect(await get(http)).toEqual({ predictions: 3 });
+
+		fetch.mockResolvedValue(status(503));
+		expect(await get(http)).toEqual({ predictions: 3 });
+
+		vi.setSystemTime(Date.now() + 15 * 60 * 1000);
+		await expect(get(http)).rejects.toBeInstanceOf(UpstreamUnavailableError);
+	});
+
+	it("doesn't serve the last good response for a request the agency refused", async () => {
+		const http = client();
+		fetch.mockResolvedValueOnce(json({ predictions: 3 })).mockResolvedValueOnce(status(400));
+		await get(http);
+
+		await expect(get(http)).rejects.toMatchObject({ status: 502, upstreamStatus: 400 });
+	});
+
+	it("fails a response it can't parse at once, without opening the circuit or serving the last good one", async () => {
+		const http = client(2);
+		fetch.mockResolvedValueOnce(json({ predictions: 3 }));
+		await get(http);
+
+		fetch.mockImplementation(async () => new Response("<html>Maintenance</html>", { status: 200 }));
+		for (let i = 0; i < 5; i++) {
+			const error = await get(http).catch((e) => e);
+			expect(error).toBeInstanceOf(UpstreamError);
+			expect(error).not.toBeInstanceOf(UpstreamUnavailableError);
+			expect(error).toMatchObject({ status: 502, upstreamStatus: 200, message: "Example sent a response that couldn't be read" });
+		}
+		expect(fetch).toHaveBeenCalledTimes(6);
+		expect(delays).toEqual([]);
+
+		// The circuit stayed closed
+		fetch.mockResolvedValueOnce(json({ predictions: 4 }));
+		expect(await get(http)).toEqual({ predictions: 4 });
+	});
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { TransitCache } from "../../src/cache/TransitCache";
+import { staticSnapshots, transitCache } from "../../src/clients/registry";
+import { StaticSnapshots } from "../../src/sync/StaticSnapshots";
+
+const env = (mode?: string) => ({ UPSTREAM_MODE: mode, DB: {}, TRANSIT_CACHE: {} }) as unknown as Env;
+
+describe("stored static data", () => {
+	it("is read in live mode", () => {
+		expect(staticSnapshots(env())).toBeInstanceOf(StaticSnapshots);
+		expect(transitCache(env("live"))).toBeInstanceOf(TransitCache);
+	});
+
+	it("is skipped in mock and record modes, which read the upstream", () => {
+		for (const mode of ["mock", "record"]) {
+			expect(staticSnapshots(env(mode))).toBeNull();
+			expect(transitCache(env(mode))).toBeNull();
+		}
+	});
+});
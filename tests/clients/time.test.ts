@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { addDays, isCalendarDate, zonedTimeToUtc } from "../../src/clients/time";
+
+describe("isCalendarDate", () => {
+	it("accepts real dates", () => {
+		expect(isCalendarDate("2025-07-04")).toBe(true);
+		expect(isCalendarDate("2024-02-29")).toBe(true);
+	});
+
+	it("rejects dates that don't exist or aren't YYYY-MM-DD", () => {
+		expect(isCalendarDate("2024-13-45")).toBe(false);
+		expect(isCalendarDate("2025-02-29")).toBe(false);
+		expect(isCalendarDate("2025-04-31")).toBe(false);
+		expect(isCalendarDate("2025-00-10")).toBe(false);
+		expect(isCalendarDate("2025-7-4")).toBe(false);
+		expect(isCalendarDate("20250704")).toBe(false);
+	});
+});
+
+describe("addDays", () => {
+	it("crosses month and year ends", () => {
+		expect(addDays("2025-02-28", 1)).toBe("2025-03-01");
+		expect(addDays("2025-12-31", 1)).toBe("2026-01-01");
+		expect(addDays("2025-03-01", -1)).toBe("2025-02-28");
+	});
+});
+
+describe("zonedTimeToUtc", () => {
+	const LA = "America/Los_Angeles";
+	const utc = (date: string, time: string) => zonedTimeToUtc(date, time, LA).toISOString();
+
+	it("reads wall-clock times in the zone, with or without seconds", () => {
+		expect(utc("2025-07-03", "8:00")).toBe("2025-07-03T15:00:00.000Z");
+		expect(utc("2025-01-15", "08:00:30")).toBe("2025-01-15T16:00:30.000Z");
+		expect(zonedTimeToUtc("2025-07-03", "08:00", "UTC").toISOString()).toBe("2025-07-03T08:00:00.000Z");
+	});
+
+	it("rolls hours past 23 into the next day", () => {
+		expect(utc("2025-07-03", "24:00")).toBe("2025-07-04T07:00:00.000Z");
+		expect(utc("2025-07-03", "25:10:00")).toBe("2025-07-04T08:10:00.000Z");
+		expect(utc("2025-12-31", "26:30")).toBe("2026-01-01T10:30:00.000Z");
+	});
+
+	it("springs forward", () => {
+		expect(utc("2025-03-09", "01:30")).toBe("2025-03-09T09:30:00.000Z");
+		// 2:00 to 3:00 never happens, so it's taken as an hour later
+		expect(utc("2025-03-09", "02:30")).toBe("2025-03-09T10:30:00.000Z");
+		expect(utc("2025-03-09", "03:30")).toBe("2025-03-09T10:30:00.000Z");
+		expect(utc("2025-03-09", "12:00")).toBe("2025-03-09T19:00:00.000Z");
+	});
+
+	it("springs forward in the hours past midnight of the day before", () => {
+		expect(utc("2025-03-08", "23:30")).toBe("2025-03-09T07:30:00.000Z");
+		expect(utc("2025-03-08", "25:30")).toBe("2025-03-09T09:30:00.000Z");
+		expect(utc("2025-03-08", "26:30")).toBe("2025-03-09T10:30:00.000Z");
+		expect(utc("2025-03-08", "27:00")).toBe("2025-03-09T10:00:00.000Z");
+	});
+
+	it("falls back, taking the first of the repeated hour", () => {
+		expect(utc("2025-11-02", "00:30")).toBe("2025-11-02T07:30:00.000Z");
+		expect(utc("2025-11-02", "01:30")).toBe("2025-11-02T08:30:00.000Z");
+		expect(utc("2025-11-02", "02:30")).toBe("2025-11-02T10:30:00.000Z");
+		expect(utc("2025-11-02", "12:00")).toBe("2025-11-02T20:00:00.000Z");
+	});
+
+	it("falls back in the hours past midnight of the day before", () => {
+		expect(utc("2025-11-01", "23:30")).toBe("2025-11-02T06:30:00.000Z");
+		expect(utc("2025-11-01", "25:30")).toBe("2025-11-02T08:30:00.000Z");
+		expect(utc("2025-11-01", "26:30")).toBe("2025-11-02T10:30:00.000Z");
+	});
+
+	it("follows zones that change on other days", () => {
+		expect(zonedTimeToUtc("2025-03-30", "00:30", "Europe/London").toISOString()).toBe("2025-03-30T00:30:00.000Z");
+		expect(zonedTimeToUtc("2025-03-30", "01:30", "Europe/London").toISOString()).toBe("2025-03-30T01:30:00.000Z");
+		expect(zonedTimeToUtc("2025-03-29", "26:30", "Europe/London").toISOString()).toBe("2025-03-30T01:30:00.000Z");
+	});
+});
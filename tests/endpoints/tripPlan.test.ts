@@ -0,0 +1,69 @@
+import { fromHono } from "chanfana";
+import { Hono } from "hono";
+import type { Miniflare } from "miniflare";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TripPlan } from "../../src/endpoints/tripPlan";
+import { TripPlanner } from "../../src/trips/TripPlanner";
+import { createTestDatabase } from "../helpers/d1";
+
+describe("GET /api/transit/trips", () => {
+	const app = new Hono<{ Bindings: Env }>();
+	fromHono(app).get("/api/transit/trips", TripPlan);
+
+	let env: Env;
+	let mf: Miniflare;
+
+	beforeEach(async () => {
+		const test = await createTestDatabase();
+		mf = test.mf;
+		env = { DB: test.db, UPSTREAM_MODE: "mock" } as unknown as Env;
+		vi.spyOn(console, "error").mockImplementation(() => {});
+	});
+
+	afterEach(async () => {
+		vi.restoreAllMocks();
+		await mf.dispose();
+	});
+
+	it("plans from one point to another", async () => {
+		const plan = vi.spyOn(TripPlanner.prototype, "plan").mockResolvedValue([]);
+
+		const response = await app.request("/api/transit/trips?from=37.8044,-122.2712&to=37.7933,%20-122.3968&limit=2", {}, env);
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("cache-control")).toBe("public, max-age=30");
+		expect(await response.json()).toEqual({ success: true, itineraries: [] });
+		expect(plan).toHaveBeenCalledWith({ lat: 37.8044, lon: -122.2712 }, { lat: 37.7933, lon: -122.3968 }, 2);
+	});
+
+	it("has no itineraries without indexed stops nearby", async () => {
+		const response = await app.request("/api/transit/trips?from=37.8044,-122.2712&to=37.7933,-122.3968", {}, env);
+
+		expect(await response.json()).toEqual({ success: true, itineraries: [] });
+	});
+
+	it("refuses points that aren't coordinates", async () => {
+		for (const [query, param] of [["from=oakland&to=37.7933,-122.3968", "from"], ["from=37.8044,-122.2712&to=91,0", "to"]]) {
+			const response = await app.request(`/api/transit/trips?${query}`, {}, env);
+
+			expect(response.status).toBe(400);
+			expect(response.headers.get("cache-control")).toBe("no-store");
+			expect(await response.json()).toMatchObject({ success: false, error: { code: "invalid_request", param } });
+		}
+	});
+
+	it("refuses too many itineraries", async () => {
+		const response = await app.request("/api/transit/trips?from=37.8044,-122.2712&to=37.7933,-122.3968&limit=6", {}, env);
+
+		expect(response.status).toBe(400);
+	});
+
+	it("answers an internal error when planning fails", async () => {
+		vi.spyOn(TripPlanner.prototype, "plan").mockRejectedValue(new Error("D1 unavailable"));
+
+		const response = await app.request("/api/transit/trips?from=37.8044,-122.2712&to=37.7933,-122.3968", {}, env);
+
+		expect(response.status).toBe(500);
+		expect(await response.json()).toMatchObject({ success: false, error: { code: "internal_error", message: "Failed to plan trip" } });
+	});
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "../../src/gtfs/csv";
+
+describe("parseCsv", () => {
+	it("keys each row by the header", () => {
+		expect(parseCsv("stop_id,stop_name\n1,Alpha\n2,Beta\n")).toEqual([
+			{ stop_id: "1", stop_name: "Alpha" },
+			{ stop_id: "2", stop_name: "Beta" },
+		]);
+	});
+
+	it("handles quoted fields with commas, quotes and line breaks", () => {
+		expect(parseCsv('id,name\n1,"Main St, ""Downtown"""\n2,"Two\nLines"\n')).toEqual([
+			{ id: "1", name: 'Main St, "Downtown"' },
+			{ id: "2", name: "Two\nLines" },
+		]);
+	});
+
+	it("strips a BOM and CRLF line endings", () => {
+		expect(parseCsv("﻿id,name\r\n1,Alpha\r\n")).toEqual([{ id: "1", name: "Alpha" }]);
+	});
+
+	it("trims names and values and fills missing columns", () => {
+		expect(parseCsv(" id , name \n 1 \n")).toEqual([{ id: "1", name: "" }]);
+	});
+
+	it("skips blank lines and reads a last row without a newline", () => {
+		expect(parseCsv("id\n1\n\n2")).toEqual([{ id: "1" }, { id: "2" }]);
+	});
+
+	it("returns nothing for an empty file", () => {
+		expect(parseCsv("")).toEqual([]);
+	});
+});
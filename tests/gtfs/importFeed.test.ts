@@ -0,0 +1,102 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { strToU8, unzipSync, zipSync } from "fflate";
+import type { Miniflare } from "miniflare";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { GtfsClient } from "../../src/clients/GtfsClient";
+import { GtfsImportError, importGtfsFeed } from "../../src/gtfs/importFeed";
+import { createTestDatabase } from "../helpers/d1";
+
+const FEED = new Uint8Array(readFileSync(join(__dirname, "../fixtures/gtfs/test-transit.zip")));
+
+// The fixture with one of its files replaced
+function withFile(name: string, contents: string): Uint8Array {
+	const files = unzipSync(FEED);
+	files[`test-transit/${name}`] = strToU8(contents);
+	return zipSync(files);
+}
+
+describe("importGtfsFeed", () => {
+	let db: D1Database;
+	let mf: Miniflare;
+
+	beforeEach(async () => {
+		({ db, mf } = await createTestDatabase());
+	});
+
+	afterEach(async () => {
+		await mf.dispose();
+	});
+
+	async function client(): Promise<GtfsClient> {
+		return new GtfsClient(db, await GtfsClient.getFeed(db, "test"));
+	}
+
+	it("imports every file from a feed nested in a folder", async () => {
+		const summary = await importGtfsFeed(db, "test", FEED, "https://example.com/trips.pb");
+
+		expect(summary).toEqual({
+			feedId: "test",
+			name: "Test Transit",
+			timezone: "America/Los_Angeles",
+			realtimeUrl: "https://example.com/trips.pb",
+			agencies: 1,
+			routes: 2,
+			stops: 3,
+			trips: 4,
+			stopTimes: 11,
+			services: 2,
+			serviceExceptions: 2,
+		});
+		expect((await (await client()).getRoutes()).map((route) => route.routeName)).toEqual(["1 - Main St, Downtown", "X - Express"]);
+	});
+
+	it("keeps the realtime URL across imports", async () => {
+		await importGtfsFeed(db, "test", FEED, "https://example.com/trips.pb");
+		const summary = await importGtfsFeed(db, "test", FEED);
+
+		expect(summary.realtimeUrl).toBe("https://example.com/trips.pb");
+	});
+
+	it("follows calendar_dates.txt exceptions", async () => {
+		await importGtfsFeed(db, "test", FEED);
+		const gtfs = await client();
+		const departures = async (date: string) =>
+			(await gtfs.getSchedule({ stop: "A", route: "1", date })).map((departure) => departure.departureTime);
+
+		// A Thursday runs the weekday trip; T2 ends at A so doesn't depart it
+		expect(await departures("2025-07-03")).toEqual(["2025-07-03T15:00:00.000Z"]);
+		// Independence Day swaps the weekday service for the weekend one
+		expect(await departures("2025-07-04")).toEqual(["2025-07-04T17:00:00.000Z"]);
+		expect(await departures("2025-07-11")).toEqual(["2025-07-11T15:00:00.000Z"]);
+	});
+
+	it("leaves the previous import serving when a re-import fails", async () => {
+		await importGtfsFeed(db, "test", FEED);
+
+		// A repeated stop_sequence breaks the stop_times primary key
+		const broken = withFile("stop_times.txt", "trip_id,arrival_time,departure_time,stop_id,stop_sequence\nT1,08:00:00,08:00:00,A,1\nT1,08:05:00,08:05:00,B,1\n");
+		await expect(importGtfsFeed(db, "test", broken)).rejects.toThrow();
+
+		expect((await (await client()).getStops("1")).map((stop) => stop.stopId)).toEqual(["A", "B", "C"]);
+		const staged = await db.prepare("SELECT COUNT(*) AS count FROM gtfs_stops WHERE feed_id != 'test'").first<{ count: number }>();
+		expect(staged.count).toBe(0);
+	});
+
+	it("replaces the previous import", async () => {
+		await importGtfsFeed(db, "test", FEED);
+		await importGtfsFeed(db, "test", withFile("routes.txt", "route_id,route_short_name,route_type\n1,1,3\n"));
+
+		expect((await (await client()).getRoutes()).map((route) => route.routeCode)).toEqual(["1"]);
+	});
+
+	it("rejects uploads that aren't GTFS feeds", async () => {
+		await expect(importGtfsFeed(db, "test", strToU8("not a zip"))).rejects.toThrow(GtfsImportError);
+
+		const files = unzipSync(FEED);
+		delete files["test-transit/stop_times.txt"];
+		await expect(importGtfsFeed(db, "test", zipSync(files))).rejects.toThrow("GTFS feed is missing stop_times.txt");
+
+		await expect(importGtfsFeed(db, "test", withFile("agency.txt", "agency_id\nTT\n"))).rejects.toThrow(GtfsImportError);
+	});
+});
@@ -0,0 +1,11 @@
+// Stands in for the Workers runtime's "cloudflare:workers" module, which
+// only exists inside workerd, so Durable Objects can be driven directly
+export class DurableObject<Env = unknown> {
+	protected ctx: DurableObjectState;
+	protected env: Env;
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		this.ctx = ctx;
+		this.env = env;
+	}
+}
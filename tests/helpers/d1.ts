@@ -0,0 +1,30 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { Miniflare } from "miniflare";
+
+const MIGRATIONS_DIR = join(__dirname, "../../migrations");
+
+/**
+ * A local D1 database with every migration applied, from the same Miniflare
+ * that `wrangler dev` runs. Dispose of the Miniflare when done.
+ */
+export async function createTestDatabase(): Promise<{ db: D1Database; mf: Miniflare }> {
+	const mf = new Miniflare({
+		modules: true,
+		script: "export default { fetch() { return new Response(null, { status: 404 }); } }",
+		d1Databases: ["DB"],
+	});
+	const db = await mf.getD1Database("DB") as unknown as D1Database;
+
+	for (const file of readdirSync(MIGRATIONS_DIR).filter((name) => name.endsWith(".sql")).sort()) {
+		const sql = readFileSync(join(MIGRATIONS_DIR, file), "utf8")
+			.split("\n")
+			.filter((line) => !line.trim().startsWith("--"))
+			.join("\n");
+		for (const statement of sql.split(";").map((part) => part.trim()).filter(Boolean)) {
+			await db.prepare(statement).run();
+		}
+	}
+
+	return { db, mf };
+}
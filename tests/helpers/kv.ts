@@ -0,0 +1,43 @@
+/**
+ * An in-memory KV namespace with what TransitCache uses: JSON reads,
+ * writes, deletes and paged listing by prefix. Expiration isn't modelled.
+ */
+export class MemoryKV {
+	readonly entries = new Map<string, string>();
+	private readonly pageSize: number;
+
+	constructor(pageSize = 1000) {
+		this.pageSize = pageSize;
+	}
+
+	async get(key: string, type?: "json"): Promise<unknown> {
+		const value = this.entries.get(key);
+		if (value === undefined) {
+			return null;
+		}
+		return type === "json" ? JSON.parse(value) : value;
+	}
+
+	async put(key: string, value: string): Promise<void> {
+		this.entries.set(key, value);
+	}
+
+	async delete(key: string): Promise<void> {
+		this.entries.delete(key);
+	}
+
+	async list({ prefix = "", cursor }: { prefix?: string; cursor?: string } = {}) {
+		const names = Array.from(this.entries.keys()).filter((name) => name.startsWith(prefix)).sort();
+		// Like KV's, the cursor picks up after the last key listed, so deleting
+		// listed keys doesn't skip any
+		const rest = cursor ? names.filter((name) => name > cursor) : names;
+		const keys = rest.slice(0, this.pageSize).map((name) => ({ name }));
+		return rest.length > keys.length
+			? { keys, list_complete: false, cursor: keys[keys.length - 1].name }
+			: { keys, list_complete: true };
+	}
+
+	asNamespace(): KVNamespace {
+		return this as unknown as KVNamespace;
+	}
+}
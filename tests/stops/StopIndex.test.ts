@@ -0,0 +1,137 @@
+import type { Miniflare } from "miniflare";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { AgencyAdapter, TransitStop } from "../../src/clients/AgencyAdapter";
+import { searchCells, StopIndex } from "../../src/stops/StopIndex";
+import { createTestDatabase } from "../helpers/d1";
+
+// Just enough of an adapter for rebuilding the index
+function adapterWith(code: string, stopsByRoute: Record<string, TransitStop[]>): AgencyAdapter {
+	return {
+		info: { code, name: code, timezone: "UTC", logo: null, active: true },
+		getRoutes: async () => Object.keys(stopsByRoute).map((routeCode) => ({ routeCode, routeName: routeCode, routeType: null, active: true })),
+		getStops: async (route: string) => {
+			if (route === "broken") {
+				throw new Error("Upstream failed");
+			}
+			return stopsByRoute[route];
+		},
+	} as unknown as AgencyAdapter;
+}
+
+function stop(stopId: string, stopName: string, lat: number | null, lon: number | null): TransitStop {
+	return { stopId, stopCode: stopId, stopName, lat, lon };
+}
+
+describe("searchCells", () => {
+	it("covers the radius's bounding box", () => {
+		expect(searchCells(37.805, -122.275, 100).sort()).toEqual(["3780:-12228"]);
+		// 0.036° by 0.045° reaches into 4 rows and 6 columns of 0.01° cells
+		expect(searchCells(37.8, -122.27, 2000)).toHaveLength(24);
+	});
+
+	it("wraps around the antimeridian", () => {
+		const cells = searchCells(0.005, 179.999, 500);
+		expect(cells).toContain("0:17999");
+		expect(cells).toContain("0:-18000");
+		expect(cells).not.toContain("0:18000");
+	});
+
+	it("stays within D1's bound parameter limit per query at the highest latitude it serves", () => {
+		const cells = searchCells(85, 0, 2000);
+		expect(cells.length).toBeLessThan(200);
+		expect(new Set(cells).size).toBe(cells.length);
+	});
+
+	it("refuses polar latitudes", () => {
+		expect(() => searchCells(90, 0, 500)).toThrow(RangeError);
+		expect(() => searchCells(-89, 0, 500)).toThrow(RangeError);
+	});
+});
+
+describe("StopIndex", () => {
+	let mf: Miniflare;
+	let index: StopIndex;
+
+	beforeAll(async () => {
+		const test = await createTestDatabase();
+		mf = test.mf;
+		index = new StopIndex(test.db);
+	});
+
+	afterAll(async () => {
+		await mf.dispose();
+	});
+
+	it("indexes an agency's stops, merging same-named stops in a cell", async () => {
+		const count = await index.rebuild(adapterWith("actransit", {
+			NL: [stop("55558", "Broadway & 14th St", 37.8046, -122.2711), stop("55559", "Broadway & 14th St", 37.8047, -122.2712)],
+			"18": [stop("55559", "Broadway & 14th St", 37.8047, -122.2712), stop("99", "Nowhere", null, null)],
+			broken: [],
+		}));
+
+		expect(count).toBe(1);
+		expect(await index.list("actransit")).toEqual([{
+			agency: "actransit",
+			stopId: "55558,55559",
+			stopName: "Broadway & 14th St",
+			// Where the first route to list it has it
+			lat: 37.8047,
+			lon: -122.2712,
+			// In the adapter's route order
+			routes: ["18", "NL"],
+		}]);
+		expect((await index.list("actransit", ["18"])).map((s) => s.stopId)).toEqual(["55558,55559"]);
+		expect(await index.list("actransit", ["99"])).toEqual([]);
+	});
+
+	it("finds stops within the radius, closest first", async () => {
+		await index.rebuild(adapterWith("bart", {
+			yellow: [stop("12TH", "12th St. Oakland City Center", 37.803768, -122.27145), stop("19TH", "19th St. Oakland", 37.80835, -122.268602)],
+		}));
+
+		const nearby = await index.nearby(37.8045, -122.2712, 600, 10);
+		expect(nearby.map((s) => [s.agency, s.stopId])).toEqual([["actransit", "55558,55559"], ["bart", "12TH"], ["bart", "19TH"]]);
+		expect(nearby[0].distance).toBe(22);
+		expect(await index.nearby(37.8045, -122.2712, 100, 1)).toHaveLength(1);
+	});
+
+	it("searches near the highest latitude it serves", async () => {
+		await index.rebuild(adapterWith("arctic", { "1": [stop("A", "North", 84.99, 10)] }));
+
+		expect((await index.nearby(85, 10, 2000, 10)).map((s) => s.stopId)).toEqual(["A"]);
+	});
+
+	it("keeps the old index until a rebuild is written in full", async () => {
+		const test = await createTestDatabase();
+		try {
+			const db = test.db;
+			await new StopIndex(db).rebuild(adapterWith("bart", { yellow: [stop("12TH", "12th St.", 37.8, -122.27)] }));
+
+			// Fail the swap after the new stops are staged
+			let batches = 0;
+			const failing = new Proxy(db, {
+				get(target, property) {
+					if (property === "batch") {
+						return async (statements: D1PreparedStatement[]) => {
+							if (++batches > 1) {
+								throw new Error("D1 unavailable");
+							}
+							return target.batch(statements);
+						};
+					}
+					const value = Reflect.get(target, property);
+					return typeof value === "function" ? value.bind(target) : value;
+				},
+			});
+			const replacement = adapterWith("bart", { yellow: [stop("19TH", "19th St.", 37.81, -122.27)] });
+			await expect(new StopIndex(failing).rebuild(replacement)).rejects.toThrow("D1 unavailable");
+			expect((await new StopIndex(db).list("bart")).map((s) => s.stopId)).toEqual(["12TH"]);
+
+			// The next rebuild clears what the failed one staged
+			await new StopIndex(db).rebuild(adapterWith("bart", { yellow: [stop("MONT", "Montgomery St.", 37.79, -122.4)] }));
+			expect((await new StopIndex(db).list("bart")).map((s) => s.stopId)).toEqual(["MONT"]);
+		} finally {
+			await test.mf.dispose();
+		}
+	});
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { bearingDegrees, distanceMeters, encodePolyline } from "../../src/stops/geo";
+
+describe("distanceMeters", () => {
+	it("is zero between a point and itself", () => {
+		expect(distanceMeters(37.8, -122.27, 37.8, -122.27)).toBe(0);
+	});
+
+	it("measures a degree of latitude as about 111 km", () => {
+		expect(distanceMeters(0, 0, 1, 0)).toBeCloseTo(111195, -1);
+	});
+
+	it("measures across the antimeridian the short way", () => {
+		expect(distanceMeters(0, 179.99, 0, -179.99)).toBeCloseTo(2224, -1);
+	});
+
+	it("matches a known Bay Area distance", () => {
+		// Embarcadero to 12th St Oakland BART stations
+		expect(distanceMeters(37.792874, -122.39702, 37.803768, -122.27145) / 1000).toBeCloseTo(11.1, 1);
+	});
+});
+
+describe("bearingDegrees", () => {
+	it("gives compass bearings", () => {
+		expect(bearingDegrees(0, 0, 1, 0)).toBeCloseTo(0);
+		expect(bearingDegrees(0, 0, 0, 1)).toBeCloseTo(90);
+		expect(bearingDegrees(0, 0, -1, 0)).toBeCloseTo(180);
+		expect(bearingDegrees(0, 0, 0, -1)).toBeCloseTo(270);
+	});
+});
+
+describe("encodePolyline", () => {
+	it("matches Google's example", () => {
+		expect(encodePolyline([
+			{ lat: 38.5, lon: -120.2 },
+			{ lat: 40.7, lon: -120.95 },
+			{ lat: 43.252, lon: -126.453 },
+		])).toBe("_p~iF~ps|U_ulLnnqC_mqNvxq`@");
+	});
+
+	it("encodes no points as an empty string", () => {
+		expect(encodePolyline([])).toBe("");
+	});
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { TransitStop } from "../../src/clients/AgencyAdapter";
+import { buildStopGroups, stopGroupId } from "../../src/stops/stopGroups";
+
+function stop(stopId: string, stopName: string, lat: number | null, lon: number | null): TransitStop {
+	return { stopId, stopCode: stopId, stopName, lat, lon };
+}
+
+// A north-south street, with each direction stopping on its own side
+const NORTH = [stop("2", "1st St", 37.800, -122.270), stop("4", "2nd St", 37.810, -122.270), stop("6", "3rd St", 37.820, -122.270)];
+const SOUTH = [stop("5", "3rd St", 37.820, -122.271), stop("3", "2nd St", 37.810, -122.271), stop("1", "1st St", 37.800, -122.271)];
+
+describe("stopGroupId", () => {
+	it("is the same whatever order the stops come in", () => {
+		expect(stopGroupId("actransit", ["10", "9", "100"])).toBe("actransit:9~10~100");
+		expect(stopGroupId("actransit", ["100", "10", "9"])).toBe("actransit:9~10~100");
+	});
+});
+
+describe("buildStopGroups", () => {
+	const groups = buildStopGroups("actransit", [
+		{ direction: "To Uptown", destination: "3rd St", stops: NORTH },
+		{ direction: "To Downtown", destination: "1st St", stops: SOUTH },
+	]);
+
+	it("groups stops by name, sorted by name", () => {
+		expect(groups.map((group) => [group.stopName, group.groupId])).toEqual([
+			["1st St", "actransit:1~2"],
+			["2nd St", "actransit:3~4"],
+			["3rd St", "actransit:5~6"],
+		]);
+	});
+
+	it("places each group between its members", () => {
+		expect(groups[1].lat).toBeCloseTo(37.810);
+		expect(groups[1].lon).toBeCloseTo(-122.2705);
+	});
+
+	it("heads each member the way its direction travels", () => {
+		const [north, south] = groups[1].members;
+		expect(north.stopId).toBe("4");
+		expect(north.directions).toEqual([{ direction: "To Uptown", destination: "3rd St", heading: expect.closeTo(0, 0) }]);
+		expect(south.stopId).toBe("3");
+		expect(south.directions).toEqual([{ direction: "To Downtown", destination: "1st St", heading: expect.closeTo(180, 0) }]);
+	});
+
+	it("leaves out coordinates it doesn't have", () => {
+		const [group] = buildStopGroups("actransit", [
+			{ direction: "To Uptown", destination: "Uptown", stops: [stop("7", "Depot", null, null)] },
+		]);
+		expect(group.lat).toBeNull();
+		expect(group.members[0].directions[0].heading).toBeNull();
+	});
+});
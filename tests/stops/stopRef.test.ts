@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { resolveStop, stopRef, withStopRef } from "../../src/stops/stopRef";
+
+describe("stopRef", () => {
+	it("prefixes the stop with the agency in lower case", () => {
+		expect(stopRef("bart", "EMBR")).toBe("bart:EMBR");
+		expect(stopRef("ACTransit", "55558,55559")).toBe("actransit:55558,55559");
+	});
+
+	it("is added next to the stop ID", () => {
+		expect(withStopRef("actransit", { stopId: "55558", stopName: "Alpha" })).toEqual({
+			stopId: "55558",
+			stopName: "Alpha",
+			stopRef: "actransit:55558",
+		});
+	});
+});
+
+describe("resolveStop", () => {
+	it("takes the agency from a stop reference", () => {
+		expect(resolveStop("bart:EMBR")).toEqual({ agency: "bart", stop: "EMBR" });
+		expect(resolveStop("bart:EMBR", "bart")).toEqual({ agency: "bart", stop: "EMBR" });
+		expect(resolveStop("bart:EMBR", "")).toEqual({ agency: "bart", stop: "EMBR" });
+	});
+
+	it("takes a bare stop ID with the agency given separately", () => {
+		expect(resolveStop("55558", "actransit")).toEqual({ agency: "actransit", stop: "55558" });
+	});
+
+	it("matches the agency prefix in any case and keeps the stop's", () => {
+		expect(resolveStop("ACTransit:55558")).toEqual({ agency: "ACTransit", stop: "55558" });
+		expect(resolveStop("BART:embr", "bart")).toEqual({ agency: "bart", stop: "embr" });
+	});
+
+	it("gives null without an agency either way", () => {
+		expect(resolveStop("EMBR")).toBeNull();
+		expect(resolveStop(":EMBR")).toBeNull();
+	});
+
+	it("takes a stop prefixed by another agency than the one given as a bare ID", () => {
+		// GTFS stop IDs may contain colons of their own
+		expect(resolveStop("bart:EMBR", "actransit")).toEqual({ agency: "actransit", stop: "bart:EMBR" });
+		expect(resolveStop("place:1", "test-transit")).toEqual({ agency: "test-transit", stop: "place:1" });
+	});
+
+	it("resolves lists and stop groups to comma-separated IDs", () => {
+		const merged = { agency: "actransit", stop: "55558,55559" };
+		expect(resolveStop("actransit:55558,55559")).toEqual(merged);
+		expect(resolveStop("actransit:55558, actransit:55559")).toEqual(merged);
+		expect(resolveStop("actransit:55558~55559")).toEqual(merged);
+		expect(resolveStop("55558~55559", "actransit")).toEqual(merged);
+	});
+});
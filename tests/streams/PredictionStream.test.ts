@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AgencyRequestError, type TransitPrediction } from "../../src/clients/AgencyAdapter";
+import { BartClient } from "../../src/clients/BartClient";
+import { resolveStop } from "../../src/stops/stopRef";
+import { PredictionStream, streamKey, type StreamQuery } from "../../src/streams/PredictionStream";
+
+const QUERY: StreamQuery = { agency: "bart", stop: "EMBR", route: "yellow", direction: "s" };
+
+class FakeSocket {
+	sent: string[] = [];
+	closed: [number, string] | null = null;
+
+	send(message: string): void {
+		this.sent.push(message);
+	}
+
+	close(code: number, reason: string): void {
+		this.closed = [code, reason];
+	}
+}
+
+// Just enough of a Durable Object's state to run the poller
+function fakeState(sockets: FakeSocket[]) {
+	const storage = new Map<string, unknown>();
+	let alarm: number | null = null;
+	const state = {
+		storage: {
+			get: async (key: string) => structuredClone(storage.get(key)),
+			put: async (key: string, value: unknown) => void storage.set(key, structuredClone(value)),
+			deleteAll: async () => {
+				storage.clear();
+				alarm = null;
+			},
+			getAlarm: async () => alarm,
+			setAlarm: async (time: number) => void (alarm = time),
+		},
+		getWebSockets: () => sockets,
+	} as unknown as DurableObjectState;
+	return { state, storage, alarm: () => alarm };
+}
+
+function prediction(arrivalTime: string, generatedAt: string): TransitPrediction {
+	return {
+		arrivalTime,
+		departureTime: arrivalTime,
+		stopName: "Embarcadero",
+		stopId: "EMBR",
+		route: "YELLOW",
+		direction: "SF Airport",
+		vehicleId: "",
+		minutesUntilArrival: 5,
+		source: "realtime",
+		generatedAt,
+		ageSeconds: 0,
+	};
+}
+
+describe("streamKey", () => {
+	it("shares one stream however the stop, agency and filters are written", () => {
+		const key = (stop: string, agency?: string, direction = "s") => {
+			const { agency: code, stop: id } = resolveStop(stop, agency);
+			return streamKey({ ...QUERY, agency: code, stop: id, route: "51A", direction });
+		};
+
+		expect(key("actransit:51303")).toBe("actransit|51303|51A|s||||");
+		expect(key("ACTransit:51303")).toBe(key("actransit:51303"));
+		expect(key("51303", "ACTransit")).toBe(key("actransit:51303"));
+		expect(key("actransit:51303", "actransit", " S ")).toBe(key("actransit:51303"));
+		expect(key("51303", "actransit", "n")).not.toBe(key("actransit:51303"));
+	});
+
+	it("keeps the case of stops and routes", () => {
+		expect(streamKey({ ...QUERY, route: "NL" })).not.toBe(streamKey({ ...QUERY, route: "nl" }));
+		expect(streamKey({ ...QUERY, stop: "embr" })).not.toBe(streamKey(QUERY));
+	});
+});
+
+describe("PredictionStream", () => {
+	const env = { UPSTREAM_MODE: "mock" } as unknown as Env;
+	let getPredictions: ReturnType<typeof vi.spyOn<BartClient, "getPredictions">>;
+
+	beforeEach(() => {
+		vi.useFakeTimers({ toFake: ["Date"], now: new Date("2025-07-03T15:00:40Z") });
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		getPredictions = vi.spyOn(BartClient.prototype, "getPredictions");
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	async function streamWith(sockets: FakeSocket[]) {
+		const fake = fakeState(sockets);
+		await fake.state.storage.put("state", { query: QUERY, lastPredictions: null, lastSignature: null, polledAt: 0 });
+		return { stream: new PredictionStream(fake.state, env), ...fake };
+	}
+
+	it("pushes to every subscriber only when the predictions change", async () => {
+		const sockets = [new FakeSocket(), new FakeSocket()];
+		const { stream, alarm } = await streamWith(sockets);
+
+		getPredictions.mockResolvedValueOnce([prediction("2025-07-03T15:05:00.000Z", "2025-07-03T15:00:00.000Z")]);
+		await stream.alarm();
+		expect(sockets.map((socket) => socket.sent.length)).toEqual([1, 1]);
+		expect(JSON.parse(sockets[0].sent[0])).toMatchObject({
+			type: "predictions",
+			predictions: [{ stopRef: "bart:EMBR", arrivalTime: "2025-07-03T15:05:00.000Z" }],
+		});
+		expect(alarm()).toBe(Date.now() + 30 * 1000);
+
+		// A newer feed time counting a minute less to the same train
+		getPredictions.mockResolvedValueOnce([prediction("2025-07-03T15:04:30.000Z", "2025-07-03T15:00:30.000Z")]);
+		await stream.alarm();
+		expect(sockets.map((socket) => socket.sent.length)).toEqual([1, 1]);
+
+		// The train falls behind
+		getPredictions.mockResolvedValueOnce([prediction("2025-07-03T15:09:00.000Z", "2025-07-03T15:01:00.000Z")]);
+		await stream.alarm();
+		expect(sockets.map((socket) => socket.sent.length)).toEqual([2, 2]);
+		expect(JSON.parse(sockets[1].sent[1]).predictions[0].arrivalTime).toBe("2025-07-03T15:09:00.000Z");
+	});
+
+	it("closes every subscriber when the agency rejects the query", async () => {
+		const sockets = [new FakeSocket(), new FakeSocket()];
+		const { stream, storage, alarm } = await streamWith(sockets);
+
+		getPredictions.mockRejectedValue(new AgencyRequestError("Station XXXX not found", 404, "stop"));
+		await stream.alarm();
+
+		for (const socket of sockets) {
+			expect(JSON.parse(socket.sent[0])).toMatchObject({ type: "error", error: { param: "stop", agency: "bart" } });
+			expect(socket.closed).toEqual([1008, "Station XXXX not found"]);
+		}
+		expect(storage.size).toBe(0);
+		expect(alarm()).toBeNull();
+	});
+
+	it("tells subscribers about failed polls and keeps polling", async () => {
+		const sockets = [new FakeSocket()];
+		const { stream, alarm } = await streamWith(sockets);
+
+		getPredictions.mockRejectedValue(new Error("BART unavailable"));
+		vi.spyOn(BartClient.prototype, "getSchedule").mockRejectedValue(new Error("BART unavailable"));
+		await stream.alarm();
+
+		expect(JSON.parse(sockets[0].sent[0])).toMatchObject({ type: "error", error: { code: "internal_error" } });
+		expect(sockets[0].closed).toBeNull();
+		expect(alarm()).toBe(Date.now() + 30 * 1000);
+	});
+
+	it("stops polling once the last subscriber leaves", async () => {
+		const { stream, storage, alarm } = await streamWith([]);
+
+		await stream.alarm();
+
+		expect(getPredictions).not.toHaveBeenCalled();
+		expect(storage.size).toBe(0);
+		expect(alarm()).toBeNull();
+	});
+});
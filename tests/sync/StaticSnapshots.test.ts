@@ -0,0 +1,77 @@
+import type { Miniflare } from "miniflare";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { StaticSnapshots, type StaticChange } from "../../src/sync/StaticSnapshots";
+import { createTestDatabase } from "../helpers/d1";
+
+const RENAMED: StaticChange = {
+	agency: "actransit",
+	kind: "route",
+	route: null,
+	id: "NL",
+	change: "renamed",
+	oldName: "Grand Ave",
+	newName: "Grand Avenue",
+};
+
+describe("StaticSnapshots", () => {
+	let db: D1Database;
+	let mf: Miniflare;
+	let store: StaticSnapshots;
+
+	beforeEach(async () => {
+		({ db, mf } = await createTestDatabase());
+		store = new StaticSnapshots(db);
+	});
+
+	afterEach(async () => {
+		await mf.dispose();
+	});
+
+	it("replaces an agency's snapshots, dropping scopes the new sync lacks", async () => {
+		await store.replace("actransit", [
+			{ kind: "routes", scope: "", items: [{ routeCode: "NL" }, { routeCode: "72" }] },
+			{ kind: "stops", scope: "NL", items: [{ stopId: "55558" }] },
+			{ kind: "stops", scope: "72", items: [{ stopId: "50030" }] },
+		], [], "2025-07-01T00:00:00.000Z");
+		await store.replace("actransit", [
+			{ kind: "routes", scope: "", items: [{ routeCode: "NL" }] },
+			{ kind: "stops", scope: "NL", items: [{ stopId: "55559" }] },
+		], [RENAMED], "2025-07-02T00:00:00.000Z");
+
+		expect(await store.get("actransit", "routes")).toEqual([{ routeCode: "NL" }]);
+		expect(await store.get("actransit", "stops", "nl")).toEqual([{ stopId: "55559" }]);
+		expect(await store.get("actransit", "stops", "72")).toBeNull();
+		expect(Array.from((await store.load("actransit")).keys()).sort()).toEqual(["routes|", "stops|nl"]);
+
+		const { results } = await db.prepare("SELECT item_id, change, detected_at FROM static_changes").all();
+		expect(results).toEqual([{ item_id: "NL", change: "renamed", detected_at: "2025-07-02T00:00:00.000Z" }]);
+	});
+
+	it("leaves other agencies alone", async () => {
+		await store.replace("bart", [{ kind: "stations", scope: "", items: [{ code: "EMBR" }] }], [], "2025-07-01T00:00:00.000Z");
+		await store.replace("actransit", [{ kind: "routes", scope: "", items: [] }], [], "2025-07-01T00:00:00.000Z");
+
+		expect(await store.get("bart", "stations")).toEqual([{ code: "EMBR" }]);
+	});
+
+	it("discards what a sync that died part way staged", async () => {
+		await store.replace("bart", [{ kind: "stations", scope: "", items: [{ code: "EMBR" }] }], [], "2025-07-01T00:00:00.000Z");
+		await db.prepare(
+			"INSERT INTO static_snapshots (agency, kind, scope, data, synced_at) VALUES ('bart.staging', 'routes', '', '[]', '2025-07-02')"
+		).run();
+
+		expect(await store.get("bart", "routes")).toBeNull();
+		await store.replace("bart", [{ kind: "stations", scope: "", items: [{ code: "MONT" }] }], [], "2025-07-03T00:00:00.000Z");
+
+		expect(Array.from((await store.load("bart")).keys())).toEqual(["stations|"]);
+		expect(await store.get("bart", "stations")).toEqual([{ code: "MONT" }]);
+	});
+
+	it("prunes old changes", async () => {
+		await store.replace("actransit", [], [RENAMED], "2025-01-01T00:00:00.000Z");
+		await store.replace("actransit", [], [{ ...RENAMED, id: "72" }], "2025-07-02T00:00:00.000Z");
+
+		const { results } = await db.prepare("SELECT item_id FROM static_changes").all();
+		expect(results).toEqual([{ item_id: "72" }]);
+	});
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { diffItems, stopItem } from "../../src/sync/syncStaticData";
+
+describe("diffItems", () => {
+	it("reports added, renamed and removed items", () => {
+		const before = [
+			{ id: "1", name: "Alpha" },
+			{ id: "2", name: "Beta" },
+			{ id: "3", name: "Gamma" },
+		];
+		const after = [
+			{ id: "1", name: "Alpha" },
+			{ id: "2", name: "Beta Station" },
+			{ id: "4", name: "Delta" },
+		];
+
+		expect(diffItems("actransit", "stop", "NL", before, after)).toEqual([
+			{ agency: "actransit", kind: "stop", route: "NL", id: "2", change: "renamed", oldName: "Beta", newName: "Beta Station" },
+			{ agency: "actransit", kind: "stop", route: "NL", id: "4", change: "added", oldName: null, newName: "Delta" },
+			{ agency: "actransit", kind: "stop", route: "NL", id: "3", change: "removed", oldName: "Gamma", newName: null },
+		]);
+	});
+
+	it("reports nothing for the same items in another order", () => {
+		const items = [{ id: "EMBR", name: "Embarcadero" }, { id: "MONT", name: "Montgomery St." }];
+		expect(diffItems("bart", "station", null, items, [...items].reverse())).toEqual([]);
+	});
+});
+
+describe("stopItem", () => {
+	const stop = (stopId: string, stopName = "Broadway & 14th St") => stopItem({ stopId, stopCode: stopId, stopName, lat: null, lon: null });
+
+	it("keys combined and grouped stops by their sorted members", () => {
+		expect(stop("55559,55558").id).toBe("55558,55559");
+		expect(stop("55558~55559").id).toBe("55558,55559");
+		expect(stop("9,10").id).toBe("9,10");
+		expect(stop("EMBR").id).toBe("EMBR");
+	});
+
+	it("reports nothing for the same stops listed in another order or form", () => {
+		const before = [stop("55559,55558"), stop("12345", "Telegraph Av & 40th St")];
+		const after = [stop("55558~55559"), stop("12345", "Telegraph Av & 40th St")];
+		expect(diffItems("actransit", "stop", "NL", before, after)).toEqual([]);
+	});
+
+	it("reports a stop joining a group as the group's change", () => {
+		expect(diffItems("actransit", "stop", "NL", [stop("55558")], [stop("55558~55559")])).toEqual([
+			{ agency: "actransit", kind: "stop", route: "NL", id: "55558,55559", change: "added", oldName: null, newName: "Broadway & 14th St" },
+			{ agency: "actransit", kind: "stop", route: "NL", id: "55558", change: "removed", oldName: "Broadway & 14th St", newName: null },
+		]);
+	});
+});
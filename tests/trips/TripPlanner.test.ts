@@ -0,0 +1,190 @@
+import type { Miniflare } from "miniflare";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AgencyAdapter, TransitPrediction, TransitStop } from "../../src/clients/AgencyAdapter";
+import { AcTransitClient } from "../../src/clients/AcTransitClient";
+import { BartClient, type BartTrip } from "../../src/clients/BartClient";
+import { StopIndex } from "../../src/stops/StopIndex";
+import { TripPlanner } from "../../src/trips/TripPlanner";
+import { createTestDatabase } from "../helpers/d1";
+
+// 12th St. Oakland to Embarcadero, with an AC Transit stop near each end
+const START = { lat: 37.8044, lon: -122.2712 };
+const END = { lat: 37.7933, lon: -122.3968 };
+
+function adapterWith(code: string, stopsByRoute: Record<string, TransitStop[]>): AgencyAdapter {
+	return {
+		info: { code, name: code, timezone: "UTC", logo: null, active: true },
+		getRoutes: async () => Object.keys(stopsByRoute).map((routeCode) => ({ routeCode, routeName: routeCode, routeType: null, active: true })),
+		getStops: async (route: string) => stopsByRoute[route],
+	} as unknown as AgencyAdapter;
+}
+
+function stop(stopId: string, stopName: string, lat: number, lon: number): TransitStop {
+	return { stopId, stopCode: stopId, stopName, lat, lon };
+}
+
+function trip(...legs: Array<[string, string, string, string, string]>): BartTrip {
+	return {
+		departureTime: legs[0][3],
+		arrivalTime: legs[legs.length - 1][4],
+		legs: legs.map(([origin, destination, line, departureTime, arrivalTime]) => ({
+			origin,
+			destination,
+			line,
+			trainHeadStation: "SFIA",
+			departureTime,
+			arrivalTime,
+		})),
+	};
+}
+
+function estimate(departureTime: string): TransitPrediction {
+	return {
+		arrivalTime: departureTime,
+		departureTime,
+		stopName: "12th St. Oakland City Center",
+		stopId: "12TH",
+		route: "YELLOW",
+		direction: "SF Airport",
+		vehicleId: "",
+		minutesUntilArrival: 0,
+		source: "realtime",
+		generatedAt: "2025-07-03T15:00:00.000Z",
+		ageSeconds: 0,
+	};
+}
+
+const NL_RIDE = {
+	vehicleId: "1402",
+	route: "NL",
+	direction: "To San Francisco",
+	fromStopId: "55558",
+	fromStopName: "Broadway & 14th St",
+	departureTime: "2025-07-03T15:02:00.000Z",
+	toStopId: "55700",
+	toStopName: "Transbay Terminal",
+	arrivalTime: "2025-07-03T15:35:00.000Z",
+};
+
+async function createPlannerEnv(): Promise<{ env: Env; mf: Miniflare }> {
+	const { db, mf } = await createTestDatabase();
+	const index = new StopIndex(db);
+	await index.rebuild(adapterWith("bart", {
+		yellow: [
+			stop("12TH", "12th St. Oakland City Center", 37.803768, -122.27145),
+			stop("MCAR", "MacArthur", 37.829065, -122.26704),
+			stop("EMBR", "Embarcadero", 37.792874, -122.39702),
+		],
+	}));
+	await index.rebuild(adapterWith("actransit", {
+		NL: [stop("55558", "Broadway & 14th St", 37.8046, -122.2711), stop("55700", "Transbay Terminal", 37.7934, -122.3966)],
+	}));
+	const env = { DB: db, UPSTREAM_MODE: "mock" } as unknown as Env;
+	return { env, mf };
+}
+
+describe("TripPlanner", () => {
+	let env: Env;
+	let mf: Miniflare;
+
+	beforeEach(async () => {
+		({ env, mf } = await createPlannerEnv());
+		vi.useFakeTimers({ toFake: ["Date"], now: new Date("2025-07-03T15:00:00Z") });
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		vi.spyOn(AcTransitClient.prototype, "getVehicleRides").mockResolvedValue([]);
+	});
+
+	afterEach(async () => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+		await mf.dispose();
+	});
+
+	it("retimes the first BART train by its live departure", async () => {
+		const planTrip = vi.spyOn(BartClient.prototype, "planTrip").mockResolvedValue([
+			trip(["12TH", "EMBR", "yellow", "2025-07-03T15:05:00.000Z", "2025-07-03T15:15:00.000Z"]),
+		]);
+		const getEstimates = vi.spyOn(BartClient.prototype, "getEstimates").mockResolvedValue([estimate("2025-07-03T15:08:00.000Z")]);
+
+		const [itinerary] = await new TripPlanner(env).plan(START, END, 3);
+
+		expect(planTrip).toHaveBeenCalledWith("12TH", "EMBR", expect.any(Date));
+		expect(getEstimates).toHaveBeenCalledWith("12TH", ["yellow"], { destinations: ["SFIA"] });
+		expect(itinerary.legs.map((leg) => leg.mode)).toEqual(["walk", "rail", "walk"]);
+		expect(itinerary.legs[1]).toMatchObject({
+			from: { agency: "bart", stopId: "12TH", stopRef: "bart:12TH" },
+			to: { agency: "bart", stopId: "EMBR", stopRef: "bart:EMBR" },
+			departureTime: "2025-07-03T15:08:00.000Z",
+			arrivalTime: "2025-07-03T15:18:00.000Z",
+			route: "YELLOW",
+			headsign: "SFIA",
+			source: "realtime",
+		});
+		// The walk leaves just in time for the train
+		expect(itinerary.legs[0]).toMatchObject({ from: { name: "Start", stopRef: null }, arrivalTime: "2025-07-03T15:08:00.000Z" });
+	});
+
+	it("keeps the timetable when BART has no live departure for the train", async () => {
+		vi.spyOn(BartClient.prototype, "planTrip").mockResolvedValue([
+			trip(["12TH", "EMBR", "yellow", "2025-07-03T15:05:00.000Z", "2025-07-03T15:15:00.000Z"]),
+		]);
+		const getEstimates = vi.spyOn(BartClient.prototype, "getEstimates").mockResolvedValue([estimate("2025-07-03T15:45:00.000Z")]);
+
+		let [itinerary] = await new TripPlanner(env).plan(START, END, 3);
+		expect(itinerary.legs[1]).toMatchObject({ departureTime: "2025-07-03T15:05:00.000Z", source: "scheduled" });
+
+		getEstimates.mockRejectedValue(new Error("BART unavailable"));
+		[itinerary] = await new TripPlanner(env).plan(START, END, 3);
+		expect(itinerary.legs[1]).toMatchObject({ departureTime: "2025-07-03T15:05:00.000Z", source: "scheduled" });
+	});
+
+	it("skips a trip whose late first train misses the change", async () => {
+		vi.spyOn(BartClient.prototype, "planTrip").mockResolvedValue([
+			trip(
+				["12TH", "MCAR", "yellow", "2025-07-03T15:05:00.000Z", "2025-07-03T15:09:00.000Z"],
+				["MCAR", "EMBR", "red", "2025-07-03T15:11:00.000Z", "2025-07-03T15:25:00.000Z"]
+			),
+			trip(["12TH", "EMBR", "yellow", "2025-07-03T15:20:00.000Z", "2025-07-03T15:30:00.000Z"]),
+		]);
+		vi.spyOn(BartClient.prototype, "getEstimates").mockResolvedValue([estimate("2025-07-03T15:10:00.000Z")]);
+
+		const [itinerary] = await new TripPlanner(env).plan(START, END, 3);
+
+		expect(itinerary.transfers).toBe(0);
+		expect(itinerary.legs[1]).toMatchObject({ departureTime: "2025-07-03T15:20:00.000Z", source: "scheduled" });
+	});
+
+	it("ranks bus and BART itineraries by arrival", async () => {
+		vi.spyOn(BartClient.prototype, "planTrip").mockResolvedValue([
+			trip(["12TH", "EMBR", "yellow", "2025-07-03T15:05:00.000Z", "2025-07-03T15:15:00.000Z"]),
+		]);
+		vi.spyOn(BartClient.prototype, "getEstimates").mockResolvedValue([]);
+		vi.mocked(AcTransitClient.prototype.getVehicleRides).mockResolvedValue([NL_RIDE]);
+
+		const itineraries = await new TripPlanner(env).plan(START, END, 3);
+
+		expect(itineraries.map((itinerary) => itinerary.legs.filter((leg) => leg.mode !== "walk").map((leg) => leg.agency))).toEqual([
+			["bart"],
+			["actransit"],
+		]);
+		expect(itineraries[1].legs[0]).toMatchObject({
+			mode: "bus",
+			route: "NL",
+			vehicleId: "1402",
+			source: "realtime",
+			from: { stopId: "55558", stopRef: "actransit:55558" },
+			to: { stopId: "55700", stopRef: "actransit:55700" },
+		});
+	});
+
+	it("drops itineraries on an agency that fails and keeps the rest", async () => {
+		vi.spyOn(BartClient.prototype, "planTrip").mockRejectedValue(new Error("BART unavailable"));
+		vi.spyOn(BartClient.prototype, "getEstimates").mockResolvedValue([]);
+		vi.mocked(AcTransitClient.prototype.getVehicleRides).mockResolvedValue([NL_RIDE]);
+
+		const itineraries = await new TripPlanner(env).plan(START, END, 3);
+
+		expect(itineraries).toHaveLength(1);
+		expect(itineraries[0].legs.find((leg) => leg.mode === "bus")).toMatchObject({ agency: "actransit", route: "NL" });
+	});
+});
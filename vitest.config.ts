@@ -0,0 +1,14 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+	resolve: {
+		alias: {
+			"cloudflare:workers": fileURLToPath(new URL("./tests/helpers/cloudflareWorkers.ts", import.meta.url)),
+		},
+	},
+	test: {
+		include: ["tests/**/*.test.ts"],
+		environment: "node",
+	},
+});
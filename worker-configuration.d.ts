@@ -6,7 +6,12 @@ declare namespace Cloudflare {
 		AC_TRANSIT_API_KEY: string;
 		ADMIN_SYNC_TOKEN: string;
 		BART_API_KEY: string;
+		TRANSIT_CACHE: KVNamespace;
+		DB: D1Database;
+		DEPARTURE_ALERTS: DurableObjectNamespace<import("./src/index").DepartureAlertWatcher>;
+		PREDICTION_STREAMS: DurableObjectNamespace<import("./src/index").PredictionStream>;
 		SUPPORT_EMAIL: SendEmail;
+		ALERT_EMAIL: SendEmail;
 		ASSETS: Fetcher;
 	}
 }